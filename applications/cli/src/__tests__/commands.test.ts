@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DatabaseConnectionError,
+  DatabaseError,
+  ValidationError,
+  type Url,
+} from '@url-shortener/engine';
+import { main } from '../cli';
+import { EXIT_CODES } from '../exit-codes';
+
+const engine = vi.hoisted(() => ({
+  repository: {
+    findAll: vi.fn(),
+    findAllWithStats: vi.fn(),
+    findManyWithStatsByShortCodes: vi.fn(),
+  },
+  shortenUrlUseCase: { execute: vi.fn() },
+  deleteUrlUseCase: { executeAsOperator: vi.fn() },
+}));
+
+// Error classes and helpers stay real; only the database-backed singletons are stubbed
+vi.mock('@url-shortener/engine', async importOriginal => ({
+  ...(await importOriginal<typeof import('@url-shortener/engine')>()),
+  ...engine,
+}));
+
+const createdAt = new Date('2026-03-18T14:35:12Z');
+
+function link(overrides: Partial<Url> = {}): Url {
+  return { originalUrl: 'https://example.com', shortCode: 'abc12345', createdAt, ...overrides };
+}
+
+describe('CLI commands', () => {
+  let log: ReturnType<typeof vi.spyOn>;
+  let error: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function printedJson(): unknown {
+    expect(log).toHaveBeenCalledTimes(1);
+    return JSON.parse(String(log.mock.calls[0][0]));
+  }
+
+  describe('list', () => {
+    it('should print links with visit counts and statuses as JSON', async () => {
+      engine.repository.findAllWithStats.mockResolvedValue([
+        { ...link(), visitCount: 3 },
+        { ...link({ shortCode: 'spent123', maxClicks: 2 }), visitCount: 2 },
+      ]);
+
+      const exitCode = await main(['list', '--with-stats', '--limit', '5', '--json', '--base-url', 'https://sho.rt/']);
+
+      expect(exitCode).toBe(EXIT_CODES.ok);
+      expect(engine.repository.findAllWithStats).toHaveBeenCalledWith(6);
+      expect(engine.repository.findAll).not.toHaveBeenCalled();
+      expect(printedJson()).toEqual([
+        expect.objectContaining({
+          code: 'abc12345',
+          shortUrl: 'https://sho.rt/s/abc12345',
+          visitCount: 3,
+          importedClicks: null,
+          status: 'active',
+        }),
+        expect.objectContaining({ code: 'spent123', visitCount: 2, status: 'exhausted' }),
+      ]);
+    });
+
+    it('should add a visits column and say when there are more links than the limit', async () => {
+      engine.repository.findAllWithStats.mockResolvedValue([
+        { ...link(), visitCount: 3 },
+        { ...link({ shortCode: 'other123' }), visitCount: 0 },
+      ]);
+
+      await main(['list', '--with-stats', '--limit', '1']);
+
+      const [header, row, ...rest] = String(log.mock.calls[0][0]).split('\n');
+      expect(header).toMatch(/VISITS$/);
+      expect(row).toMatch(/^abc12345 .* 3$/);
+      expect(rest).toContain('There are more links; raise --limit to see them');
+    });
+
+    it('should leave out visit counts without --with-stats', async () => {
+      engine.repository.findAll.mockResolvedValue([link()]);
+
+      await main(['list', '--json']);
+
+      expect(engine.repository.findAllWithStats).not.toHaveBeenCalled();
+      expect(printedJson()).toEqual([expect.not.objectContaining({ visitCount: expect.anything() })]);
+    });
+  });
+
+  it('should print the management secret of a new link as JSON', async () => {
+    engine.shortenUrlUseCase.execute.mockResolvedValue({ ...link(), managementSecret: 'secret' });
+
+    const exitCode = await main(['shorten', 'https://example.com', '--alias', 'abc12345', '--json']);
+
+    expect(exitCode).toBe(EXIT_CODES.ok);
+    expect(engine.shortenUrlUseCase.execute).toHaveBeenCalledWith(
+      'https://example.com',
+      expect.objectContaining({ alias: 'abc12345', clientKey: 'cli' })
+    );
+    expect(printedJson()).toMatchObject({ code: 'abc12345', managementSecret: 'secret' });
+  });
+
+  describe('errors', () => {
+    it('should exit with the not found code and print the error as JSON', async () => {
+      engine.repository.findManyWithStatsByShortCodes.mockResolvedValue([]);
+
+      const exitCode = await main(['resolve', 'missing1', '--json']);
+
+      expect(exitCode).toBe(EXIT_CODES.notFound);
+      expect(printedJson()).toEqual({ error: { code: 'NOT_FOUND', message: 'Short URL not found' } });
+      expect(error).not.toHaveBeenCalled();
+    });
+
+    it('should exit with the invalid input code for validation errors', async () => {
+      engine.shortenUrlUseCase.execute.mockRejectedValue(new ValidationError('Invalid URL format', 'url'));
+
+      const exitCode = await main(['shorten', 'not a url']);
+
+      expect(exitCode).toBe(EXIT_CODES.invalidInput);
+      expect(error).toHaveBeenCalledWith('Error: Invalid URL format');
+      expect(log).not.toHaveBeenCalled();
+    });
+
+    it('should exit with the database code when the database is unreachable', async () => {
+      engine.deleteUrlUseCase.executeAsOperator.mockRejectedValue(new DatabaseConnectionError());
+
+      const exitCode = await main(['delete', 'abc12345', '--json']);
+
+      expect(exitCode).toBe(EXIT_CODES.databaseUnavailable);
+      expect(printedJson()).toEqual({
+        error: { code: 'DATABASE_CONNECTION_ERROR', message: 'Unable to connect to the database' },
+      });
+    });
+
+    it('should treat other database errors as unexpected', async () => {
+      engine.deleteUrlUseCase.executeAsOperator.mockRejectedValue(new DatabaseError('Failed to delete URL'));
+
+      const exitCode = await main(['delete', 'abc12345']);
+
+      expect(exitCode).toBe(EXIT_CODES.unexpected);
+      expect(error).toHaveBeenCalledWith('Error: Failed to delete URL');
+    });
+
+    it('should exit with the usage code before reaching the engine', async () => {
+      const exitCode = await main(['delete', '--json']);
+
+      expect(exitCode).toBe(EXIT_CODES.usage);
+      expect(printedJson()).toMatchObject({ error: { code: 'USAGE_ERROR' } });
+      expect(engine.deleteUrlUseCase.executeAsOperator).not.toHaveBeenCalled();
+    });
+
+    it('should print unexpected errors in full', async () => {
+      const failure = new Error('boom');
+      engine.deleteUrlUseCase.executeAsOperator.mockRejectedValue(failure);
+
+      const exitCode = await main(['delete', 'abc12345']);
+
+      expect(exitCode).toBe(EXIT_CODES.unexpected);
+      expect(error).toHaveBeenCalledWith(failure);
+    });
+  });
+});
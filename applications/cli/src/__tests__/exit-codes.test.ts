@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { EXIT_CODES, USAGE_ERROR_CODE, UsageError, exitCodeFor } from '../exit-codes';
+
+describe('exitCodeFor', () => {
+  it('should map engine error codes to distinct exit codes', () => {
+    expect(exitCodeFor('VALIDATION_ERROR')).toBe(EXIT_CODES.invalidInput);
+    expect(exitCodeFor('DUPLICATE_ENTRY')).toBe(EXIT_CODES.invalidInput);
+    expect(exitCodeFor('NOT_FOUND')).toBe(EXIT_CODES.notFound);
+    expect(exitCodeFor('FORBIDDEN')).toBe(EXIT_CODES.notAllowed);
+    expect(exitCodeFor('RATE_LIMIT_ERROR')).toBe(EXIT_CODES.rateLimited);
+    expect(exitCodeFor('DATABASE_CONNECTION_ERROR')).toBe(EXIT_CODES.databaseUnavailable);
+    expect(exitCodeFor('DATABASE_TIMEOUT_ERROR')).toBe(EXIT_CODES.databaseUnavailable);
+  });
+
+  it('should report usage errors separately', () => {
+    expect(new UsageError('Missing short code').code).toBe(USAGE_ERROR_CODE);
+    expect(exitCodeFor(USAGE_ERROR_CODE)).toBe(EXIT_CODES.usage);
+  });
+
+  it('should treat unknown codes as unexpected failures', () => {
+    expect(exitCodeFor('UNKNOWN_ERROR')).toBe(EXIT_CODES.unexpected);
+    expect(exitCodeFor('SHORT_CODE_GENERATION_ERROR')).toBe(EXIT_CODES.unexpected);
+  });
+
+  it('should keep the database exit code for an unreachable or outdated database', () => {
+    expect(exitCodeFor('DATABASE_SCHEMA_ERROR')).toBe(EXIT_CODES.databaseUnavailable);
+    expect(exitCodeFor('DATABASE_ERROR')).toBe(EXIT_CODES.unexpected);
+  });
+});
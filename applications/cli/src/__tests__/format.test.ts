@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { formatFields, formatTable, truncate } from '../format';
+
+describe('Text output', () => {
+  it('should line up table columns', () => {
+    const table = formatTable(['CODE', 'VISITS'], [['abc123', 7], ['promo', null]]);
+
+    expect(table.split('\n')).toEqual([
+      'CODE    VISITS',
+      'abc123  7',
+      'promo   -',
+    ]);
+  });
+
+  it('should line up field values and show dates as ISO 8601', () => {
+    const fields = formatFields([
+      ['Code', 'abc123'],
+      ['Expires', new Date('2026-05-01T00:00:00Z')],
+    ]);
+
+    expect(fields.split('\n')).toEqual([
+      'Code:    abc123',
+      'Expires: 2026-05-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('should truncate long values', () => {
+    expect(truncate('https://example.com/a/very/long/path', 20)).toBe('https://example.com…');
+    expect(truncate('https://example.com', 20)).toBe('https://example.com');
+  });
+});
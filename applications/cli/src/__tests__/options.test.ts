@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { dateOption, integerOption } from '../options';
+import { UsageError } from '../exit-codes';
+
+describe('Command-line options', () => {
+  describe('integerOption', () => {
+    it('should read whole numbers', () => {
+      expect(integerOption('25', 'limit')).toBe(25);
+      expect(integerOption(undefined, 'limit')).toBeUndefined();
+    });
+
+    it('should reject anything else', () => {
+      expect(() => integerOption('2.5', 'limit')).toThrow(UsageError);
+      expect(() => integerOption('ten', 'limit')).toThrow('--limit must be a whole number');
+    });
+  });
+
+  describe('dateOption', () => {
+    it('should read ISO 8601 dates', () => {
+      expect(dateOption('2026-03-01T10:00:00Z', 'since')).toEqual(new Date('2026-03-01T10:00:00Z'));
+      expect(dateOption('', 'since')).toBeUndefined();
+    });
+
+    it('should let a plain date cover the whole day when asked', () => {
+      expect(dateOption('2026-03-31', 'until', { endOfDay: true })).toEqual(new Date('2026-03-31T23:59:59.999Z'));
+      expect(dateOption('2026-03-31', 'since')).toEqual(new Date('2026-03-31T00:00:00Z'));
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => dateOption('next week', 'expires-at')).toThrow(UsageError);
+    });
+  });
+});
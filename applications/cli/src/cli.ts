@@ -0,0 +1,97 @@
+import { parseArgs } from 'node:util';
+import { getErrorCode, getErrorMessage, isApplicationError } from '@url-shortener/engine';
+import { commands } from './commands';
+import { EXIT_CODES, USAGE_ERROR_CODE, UsageError, exitCodeFor } from './exit-codes';
+
+const DEFAULT_PUBLIC_URL = 'http://localhost:5173';
+
+const GLOBAL_OPTIONS = {
+  json: { type: 'boolean' },
+  'base-url': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+function helpText(): string {
+  const width = Math.max(...Object.keys(commands).map(name => name.length));
+  return [
+    'Usage: pnpm cli <command> [options] [--json] [--base-url <url>]',
+    '',
+    'Commands:',
+    ...Object.entries(commands).map(([name, command]) => `  ${name.padEnd(width)}  ${command.summary}`),
+    '',
+    'Run a command with --help for its options.',
+  ].join('\n');
+}
+
+async function run(argv: string[]): Promise<number> {
+  // A first, lenient pass finds the command, whose options are needed to parse the rest strictly
+  const { positionals } = parseArgs({ args: argv, options: GLOBAL_OPTIONS, allowPositionals: true, strict: false });
+  const name = positionals[0];
+
+  if (name === undefined || name === 'help') {
+    const help = helpText();
+    if (name === undefined && !argv.includes('--help') && !argv.includes('-h')) {
+      throw new UsageError(`Missing command.\n\n${help}`);
+    }
+    console.log(help);
+    return EXIT_CODES.ok;
+  }
+
+  const command = Object.hasOwn(commands, name) ? commands[name] : undefined;
+  if (!command) {
+    throw new UsageError(`Unknown command "${name}".\n\n${helpText()}`);
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    // Unknown options and missing option values
+    throw new UsageError(`${getErrorMessage(error)}\nUsage: pnpm cli ${command.usage}`);
+  }
+
+  const { values, positionals: [, ...args] } = parsed;
+  if (values.help) {
+    console.log(`Usage: pnpm cli ${command.usage}\n\n${command.summary}`);
+    return EXIT_CODES.ok;
+  }
+
+  const publicUrl = (values['base-url'] ?? process.env.PUBLIC_URL ?? DEFAULT_PUBLIC_URL).replace(/\/+$/, '');
+  const output = await command.run({ args, options: values, shortUrlBase: `${publicUrl}/s/` });
+
+  if (output) {
+    console.log(values.json ? JSON.stringify(output.data, null, 2) : output.text);
+  }
+  return output?.exitCode ?? EXIT_CODES.ok;
+}
+
+function report(error: unknown, json: boolean): number {
+  const code = error instanceof UsageError ? USAGE_ERROR_CODE : getErrorCode(error);
+  const message = getErrorMessage(error);
+
+  if (json) {
+    console.log(JSON.stringify({ error: { code, message } }, null, 2));
+  } else {
+    console.error(`Error: ${message}`);
+  }
+
+  if (!(error instanceof UsageError) && !isApplicationError(error)) {
+    console.error(error);
+  }
+  return exitCodeFor(code);
+}
+
+/**
+ * Runs a command line and prints its output or error, resolving to the process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    return await run(argv);
+  } catch (error) {
+    return report(error, argv.includes('--json'));
+  }
+}
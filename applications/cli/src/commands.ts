@@ -0,0 +1,391 @@
+import { createWriteStream } from 'node:fs';
+import { pipeline } from 'node:stream/promises';
+import {
+  shortenUrlUseCase,
+  deleteUrlUseCase,
+  getLinkStatsUseCase,
+  getVisitBreakdownUseCase,
+  exportLinksUseCase,
+  exportVisitsUseCase,
+  repository,
+  databaseHealth,
+  getExpirationReason,
+  parseShortCodeList,
+  validateExportFormat,
+  NotFoundError,
+  DEFAULT_REDIRECT_STATUS,
+  type ExportFormat,
+  type LinkSelection,
+  type RedirectStatus,
+  type Url,
+} from '@url-shortener/engine';
+import { EXIT_CODES, UsageError, exitCodeFor } from './exit-codes';
+import { dateOption, fromInvocationDir, integerOption } from './options';
+import { formatFields, formatTable, truncate, type Cell } from './format';
+
+type OptionValues = Record<string, string | boolean | undefined>;
+
+export interface CommandInput {
+  /** Positional arguments after the command name */
+  args: string[];
+  options: OptionValues;
+  /** Prefix short codes are appended to, e.g. https://sho.rt/s/ */
+  shortUrlBase: string;
+}
+
+export interface CommandOutput {
+  /** Printed as JSON with --json */
+  data: unknown;
+  /** Printed otherwise */
+  text: string;
+  /** For commands that report failures as output rather than by throwing, like health */
+  exitCode?: number;
+}
+
+export interface Command {
+  usage: string;
+  summary: string;
+  options: Record<string, { type: 'string' | 'boolean'; short?: string }>;
+  /** Resolves to null when the command wrote its own output, like an export to stdout */
+  run(input: CommandInput): Promise<CommandOutput | null>;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+const DEFAULT_BREAKDOWN_SIZE = 5;
+const DEFAULT_HEALTH_TIMEOUT_MS = 5000;
+
+/** Links created from the command line share one rate limit bucket, separate from anonymous web visitors */
+const CLI_CLIENT_KEY = 'cli';
+
+type LinkStatus = 'active' | 'deleted' | 'expired' | 'exhausted';
+
+function linkStatus(url: Url, visitCount: number): LinkStatus {
+  if (url.deletedAt) {
+    return 'deleted';
+  }
+  return getExpirationReason(url, visitCount) ?? 'active';
+}
+
+/**
+ * JSON representation of a link; unlike the public API, operators see protected destinations
+ */
+function serializeLink(url: Url, shortUrlBase: string, visitCount?: number) {
+  return {
+    code: url.shortCode,
+    shortUrl: `${shortUrlBase}${url.shortCode}`,
+    originalUrl: url.originalUrl,
+    createdAt: url.createdAt ?? null,
+    expiresAt: url.expiresAt ?? null,
+    maxClicks: url.maxClicks ?? null,
+    redirectStatus: url.redirectStatus ?? DEFAULT_REDIRECT_STATUS,
+    tags: url.tags ?? [],
+    isProtected: url.passwordHash != null,
+    deletedAt: url.deletedAt ?? null,
+    ...(visitCount === undefined ? {} : { visitCount, importedClicks: url.importedClicks ?? null }),
+  };
+}
+
+function requireShortCode(args: string[], usage: string): string {
+  const [shortCode] = args;
+  if (!shortCode) {
+    throw new UsageError(`Missing short code. Usage: ${usage}`);
+  }
+  return shortCode;
+}
+
+function stringOption(options: OptionValues, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+const shorten: Command = {
+  usage: 'shorten <url> [--alias <alias>] [--expires-at <date>] [--max-clicks <n>] [--password <password>] [--redirect-status <status>]',
+  summary: 'Create a short link and print its management secret',
+  options: {
+    alias: { type: 'string' },
+    'expires-at': { type: 'string' },
+    'max-clicks': { type: 'string' },
+    password: { type: 'string' },
+    'redirect-status': { type: 'string' },
+  },
+  async run({ args, options, shortUrlBase }) {
+    const [originalUrl] = args;
+    if (!originalUrl) {
+      throw new UsageError(`Missing URL. Usage: ${this.usage}`);
+    }
+
+    const url = await shortenUrlUseCase.execute(originalUrl, {
+      alias: stringOption(options, 'alias'),
+      expiresAt: dateOption(stringOption(options, 'expires-at'), 'expires-at'),
+      maxClicks: integerOption(stringOption(options, 'max-clicks'), 'max-clicks'),
+      password: stringOption(options, 'password'),
+      redirectStatus: integerOption(stringOption(options, 'redirect-status'), 'redirect-status') as RedirectStatus | undefined,
+      clientKey: CLI_CLIENT_KEY,
+    });
+    const link = serializeLink(url, shortUrlBase);
+
+    return {
+      data: { ...link, managementSecret: url.managementSecret ?? null },
+      text: formatFields([
+        ['Short URL', link.shortUrl],
+        ['Destination', link.originalUrl],
+        // Only new links get a secret; an existing link for the same URL was returned
+        ['Management secret', url.managementSecret ?? 'not shown, the link already existed'],
+      ]),
+    };
+  },
+};
+
+const resolveCommand: Command = {
+  usage: 'resolve <code>',
+  summary: 'Show where a short code points without counting a visit',
+  options: {},
+  async run({ args, shortUrlBase }) {
+    const shortCode = requireShortCode(args, this.usage);
+    const [url] = await repository.findManyWithStatsByShortCodes([shortCode]);
+    if (!url) {
+      throw new NotFoundError('Short URL not found');
+    }
+    const link = { ...serializeLink(url, shortUrlBase), status: linkStatus(url, url.visitCount) };
+
+    return {
+      data: link,
+      text: formatFields([
+        ['Short URL', link.shortUrl],
+        ['Destination', link.originalUrl],
+        ['Status', link.status],
+        ['Redirect', link.redirectStatus],
+        ['Protected', link.isProtected ? 'yes' : 'no'],
+        ['Expires', link.expiresAt],
+        ['Click limit', link.maxClicks],
+      ]),
+    };
+  },
+};
+
+const list: Command = {
+  usage: 'list [--with-stats] [--limit <n>]',
+  summary: 'List the newest links, optionally with visit counts',
+  options: {
+    'with-stats': { type: 'boolean' },
+    limit: { type: 'string' },
+  },
+  async run({ options, shortUrlBase }) {
+    const limit = integerOption(stringOption(options, 'limit'), 'limit') ?? DEFAULT_LIST_LIMIT;
+    if (limit < 1) {
+      throw new UsageError('--limit must be at least 1');
+    }
+
+    // One extra link tells whether there are more than the limit
+    const withStats = options['with-stats'] === true;
+    const urls: (Url & { visitCount?: number })[] = withStats
+      ? await repository.findAllWithStats(limit + 1)
+      : await repository.findAll(limit + 1);
+    const links = urls.slice(0, limit).map(url => ({
+      ...serializeLink(url, shortUrlBase, url.visitCount),
+      // Used-up click budgets only show with --with-stats, which counts the visits
+      status: linkStatus(url, url.visitCount ?? 0),
+    }));
+
+    const headers = ['CODE', 'STATUS', 'CREATED', 'DESTINATION', ...(withStats ? ['VISITS'] : [])];
+    const rows = links.map((link): Cell[] => [
+      link.code,
+      link.status,
+      link.createdAt,
+      truncate(link.originalUrl, 60),
+      ...(withStats ? [link.visitCount] : []),
+    ]);
+    const more = urls.length > limit ? '\nThere are more links; raise --limit to see them' : '';
+
+    return {
+      data: links,
+      text: links.length > 0 ? formatTable(headers, rows) + more : 'No links yet.',
+    };
+  },
+};
+
+const stats: Command = {
+  usage: 'stats <code> [--include-bots] [--top <n>]',
+  summary: 'Show visit counts and the top referrers, devices, browsers and operating systems',
+  options: {
+    'include-bots': { type: 'boolean' },
+    top: { type: 'string' },
+  },
+  async run({ args, options, shortUrlBase }) {
+    const shortCode = requireShortCode(args, this.usage);
+    const filter = { includeBots: options['include-bots'] === true };
+    const top = integerOption(stringOption(options, 'top'), 'top') ?? DEFAULT_BREAKDOWN_SIZE;
+
+    const { url, visitCount, uniqueVisitors } = await getLinkStatsUseCase.execute(shortCode, filter);
+    const breakdown = await getVisitBreakdownUseCase.execute(shortCode, top, filter);
+
+    const sections = (
+      [
+        ['REFERRER', breakdown.referrers],
+        ['DEVICE', breakdown.devices],
+        ['BROWSER', breakdown.browsers],
+        ['OS', breakdown.operatingSystems],
+      ] as const
+    )
+      .filter(([, entries]) => entries.length > 0)
+      .map(([heading, entries]) =>
+        formatTable([heading, 'VISITS'], entries.map(entry => [entry.value ?? '(none)', entry.count]))
+      );
+
+    return {
+      data: {
+        code: url.shortCode,
+        shortUrl: `${shortUrlBase}${url.shortCode}`,
+        visitCount,
+        uniqueVisitors,
+        importedClicks: url.importedClicks ?? null,
+        includesBots: filter.includeBots,
+        ...breakdown,
+      },
+      text: [
+        formatFields([
+          ['Short URL', `${shortUrlBase}${url.shortCode}`],
+          ['Visits', visitCount],
+          ['Unique visitors', uniqueVisitors],
+          ['Imported clicks', url.importedClicks],
+        ]),
+        ...sections,
+      ].join('\n\n'),
+    };
+  },
+};
+
+const deleteCommand: Command = {
+  usage: 'delete <code>',
+  summary: 'Soft-delete a link so it stops redirecting; no management secret needed',
+  options: {},
+  async run({ args }) {
+    const shortCode = requireShortCode(args, this.usage);
+    const url = await deleteUrlUseCase.executeAsOperator(shortCode);
+
+    return {
+      data: { code: url.shortCode, deletedAt: url.deletedAt ?? null },
+      text: `Deleted ${url.shortCode}`,
+    };
+  },
+};
+
+const health: Command = {
+  usage: 'health [--timeout <ms>]',
+  summary: 'Check that the database is reachable and its schema is applied',
+  options: {
+    timeout: { type: 'string' },
+  },
+  async run({ options }) {
+    const timeoutMs = integerOption(stringOption(options, 'timeout'), 'timeout') ?? DEFAULT_HEALTH_TIMEOUT_MS;
+    const report = await databaseHealth.readiness(timeoutMs);
+    const failure = Object.values(report.components).find(component => component.error)?.error;
+
+    return {
+      data: report,
+      text: formatTable(
+        ['COMPONENT', 'STATUS', 'LATENCY', 'ERROR'],
+        Object.entries(report.components).map(([name, component]) => [
+          name,
+          component.status,
+          `${component.latencyMs} ms`,
+          component.error?.message,
+        ])
+      ),
+      exitCode: failure ? exitCodeFor(failure.code) : EXIT_CODES.ok,
+    };
+  },
+};
+
+const exportCommand: Command = {
+  usage: 'export <links|visits> [--format csv|ndjson] [--api-key <id> | --codes <a,b>] [--since <date>] [--until <date>] [--output <file>]',
+  summary: 'Stream every link, or the links of one API key or a list of codes, to stdout or a file',
+  options: {
+    format: { type: 'string' },
+    'api-key': { type: 'string' },
+    codes: { type: 'string' },
+    since: { type: 'string' },
+    until: { type: 'string' },
+    output: { type: 'string', short: 'o' },
+  },
+  async run({ args, options, shortUrlBase }) {
+    const [dataset] = args;
+    if (dataset !== 'links' && dataset !== 'visits') {
+      throw new UsageError(`Choose what to export. Usage: ${this.usage}`);
+    }
+
+    const format = validateExportFormat(stringOption(options, 'format'));
+    const selection = exportSelection(options);
+    const lines = dataset === 'links'
+      ? exportLinksUseCase.execute(selection, format, shortUrlBase)
+      : exportVisitsUseCase.execute(selection, format, {
+          since: dateOption(stringOption(options, 'since'), 'since'),
+          until: dateOption(stringOption(options, 'until'), 'until', { endOfDay: true }),
+        });
+
+    const output = stringOption(options, 'output');
+    const rows = await writeExport(lines, output, format);
+    if (!output) {
+      return null;
+    }
+
+    const file = fromInvocationDir(output);
+    return {
+      data: { dataset, format, file, rows },
+      text: `Wrote ${rows} ${dataset} to ${file}`,
+    };
+  },
+};
+
+function exportSelection(options: OptionValues): LinkSelection {
+  const apiKeyId = stringOption(options, 'api-key');
+  const codes = stringOption(options, 'codes');
+  if (apiKeyId !== undefined && codes !== undefined) {
+    throw new UsageError('Use either --api-key or --codes, not both');
+  }
+
+  if (apiKeyId !== undefined) {
+    return { apiKeyId };
+  }
+  return codes !== undefined ? { shortCodes: parseShortCodeList(codes) } : { all: true };
+}
+
+/**
+ * Writes export lines to a file or stdout and counts the records in them
+ * The first line is read before the file is created, so an unreachable database leaves no empty file behind
+ */
+async function writeExport(
+  lines: AsyncIterable<string>,
+  output: string | undefined,
+  format: ExportFormat
+): Promise<number> {
+  const iterator = lines[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  let lineCount = 0;
+
+  async function* counted() {
+    for (let next = first; !next.done; next = await iterator.next()) {
+      // A chunk can hold more than one line: CSV sends its header with the first record
+      lineCount += next.value.split('\n').length - 1;
+      yield next.value;
+    }
+  }
+
+  if (output) {
+    await pipeline(counted(), createWriteStream(fromInvocationDir(output)));
+  } else {
+    // stdout must stay open for the process to finish writing
+    await pipeline(counted(), process.stdout, { end: false });
+  }
+  return format === 'csv' ? Math.max(lineCount - 1, 0) : lineCount;
+}
+
+export const commands: Record<string, Command> = {
+  shorten,
+  resolve: resolveCommand,
+  list,
+  stats,
+  delete: deleteCommand,
+  health,
+  export: exportCommand,
+};
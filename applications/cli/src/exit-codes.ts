@@ -0,0 +1,51 @@
+/**
+ * Process exit codes, so scripts can tell failures apart without parsing the output
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  unexpected: 1,
+  usage: 2,
+  invalidInput: 3,
+  notFound: 4,
+  notAllowed: 5,
+  rateLimited: 6,
+  databaseUnavailable: 7,
+} as const;
+
+/** Error code reported for bad command-line arguments */
+export const USAGE_ERROR_CODE = 'USAGE_ERROR';
+
+const EXIT_CODES_BY_ERROR_CODE: Record<string, number> = {
+  [USAGE_ERROR_CODE]: EXIT_CODES.usage,
+  VALIDATION_ERROR: EXIT_CODES.invalidInput,
+  DUPLICATE_ENTRY: EXIT_CODES.invalidInput,
+  NOT_FOUND: EXIT_CODES.notFound,
+  LINK_EXPIRED: EXIT_CODES.notFound,
+  UNAUTHORIZED: EXIT_CODES.notAllowed,
+  FORBIDDEN: EXIT_CODES.notAllowed,
+  PASSWORD_REQUIRED: EXIT_CODES.notAllowed,
+  INVALID_PASSWORD: EXIT_CODES.notAllowed,
+  RATE_LIMIT_ERROR: EXIT_CODES.rateLimited,
+  DATABASE_CONNECTION_ERROR: EXIT_CODES.databaseUnavailable,
+  DATABASE_TIMEOUT_ERROR: EXIT_CODES.databaseUnavailable,
+  DATABASE_SCHEMA_ERROR: EXIT_CODES.databaseUnavailable,
+};
+
+/**
+ * Maps an error code from getErrorCode to the exit code for it; unknown codes are unexpected failures
+ */
+export function exitCodeFor(errorCode: string): number {
+  return EXIT_CODES_BY_ERROR_CODE[errorCode] ?? EXIT_CODES.unexpected;
+}
+
+/**
+ * Bad arguments, such as a missing short code or an unknown option
+ */
+export class UsageError extends Error {
+  readonly code = USAGE_ERROR_CODE;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
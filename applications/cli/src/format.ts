@@ -0,0 +1,41 @@
+export type Cell = string | number | boolean | Date | null | undefined;
+
+/**
+ * Formats one cell of text output; missing values show as a dash
+ */
+export function formatCell(value: Cell): string {
+  if (value === null || value === undefined || value === '') {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Lays rows out in columns padded to the widest cell, for reading in a terminal
+ */
+export function formatTable(headers: string[], rows: Cell[][]): string {
+  const cells = [headers, ...rows.map(row => row.map(formatCell))];
+  const widths = headers.map((_, column) => Math.max(...cells.map(row => row[column]?.length ?? 0)));
+
+  return cells
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Lays out label and value pairs, one per line with the values lined up
+ */
+export function formatFields(fields: [label: string, value: Cell][]): string {
+  const width = Math.max(...fields.map(([label]) => label.length)) + 1;
+  return fields.map(([label, value]) => `${`${label}:`.padEnd(width)} ${formatCell(value)}`).join('\n');
+}
+
+/**
+ * Shortens long values such as destination URLs so table rows fit on one line
+ */
+export function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
@@ -0,0 +1,17 @@
+/**
+ * Command-line tool for managing links without the web UI
+ *
+ * Talks to the database directly through the engine, so it needs the same DATABASE_URL as the
+ * web app. Short URLs are built from PUBLIC_URL unless --base-url is given. With --json every
+ * command prints JSON, including errors, and the exit code tells failures apart (see exit-codes.ts).
+ *
+ * Usage: pnpm cli <command> [options] [--json]
+ */
+import { databaseHealth } from '@url-shortener/engine';
+import { main } from './cli';
+
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} finally {
+  await databaseHealth.disconnect();
+}
@@ -0,0 +1,46 @@
+import { resolve } from 'node:path';
+import { UsageError } from './exit-codes';
+
+/**
+ * Reads a whole-number option such as --limit
+ * @throws {UsageError} If the value is not a whole number
+ */
+export function integerOption(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!/^-?\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed)) {
+    throw new UsageError(`--${name} must be a whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads an ISO 8601 date option; with endOfDay a plain date such as 2026-03-31 covers that whole day
+ * @throws {UsageError} If the value is not a date
+ */
+export function dateOption(
+  value: string | undefined,
+  name: string,
+  { endOfDay = false }: { endOfDay?: boolean } = {}
+): Date | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const isDay = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  const parsed = new Date(isDay && endOfDay ? `${trimmed}T23:59:59.999Z` : trimmed);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new UsageError(`--${name} must be an ISO 8601 date, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Resolves a path against the directory the command was run from
+ * pnpm runs package scripts from the package directory and records the original one in INIT_CWD
+ */
+export function fromInvocationDir(path: string): string {
+  return resolve(process.env.INIT_CWD ?? process.cwd(), path);
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { requireAdmin } from '../lib/admin-auth';
+
+function request(authorization?: string) {
+  return new Request('http://localhost/api-keys', {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+function basic(username: string, password: string) {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+function rejection(request: Request): Response {
+  try {
+    requireAdmin(request);
+  } catch (error) {
+    if (error instanceof Response) return error;
+    throw error;
+  }
+  throw new Error('Expected requireAdmin to reject the request');
+}
+
+describe('requireAdmin', () => {
+  const original = process.env.ADMIN_PASSWORD;
+
+  beforeEach(() => {
+    process.env.ADMIN_PASSWORD = 'correct horse';
+  });
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.ADMIN_PASSWORD;
+    } else {
+      process.env.ADMIN_PASSWORD = original;
+    }
+  });
+
+  it('should accept the admin password with any username', () => {
+    expect(() => requireAdmin(request(basic('anyone', 'correct horse')))).not.toThrow();
+  });
+
+  it('should ask for credentials when none are sent', () => {
+    const response = rejection(request());
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toMatch(/^Basic realm=/);
+  });
+
+  it('should reject a wrong password', () => {
+    expect(rejection(request(basic('admin', 'correct horse battery'))).status).toBe(401);
+    expect(rejection(request('Bearer correct horse')).status).toBe(401);
+  });
+
+  it('should turn the admin pages off without ADMIN_PASSWORD', () => {
+    delete process.env.ADMIN_PASSWORD;
+    expect(rejection(request(basic('admin', ''))).status).toBe(403);
+  });
+});
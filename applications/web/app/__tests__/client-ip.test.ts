@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getClientIp } from '../lib/client-ip';
+
+function request(forwardedFor?: string) {
+  return new Request('http://localhost/', {
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+  });
+}
+
+describe('getClientIp', () => {
+  it('should use the connection address when no proxy is trusted', () => {
+    expect(getClientIp(request('1.2.3.4'), { clientAddress: '10.0.0.7' }, 0)).toBe('10.0.0.7');
+  });
+
+  it('should ignore X-Real-IP', () => {
+    const withRealIp = new Request('http://localhost/', { headers: { 'x-real-ip': '1.2.3.4' } });
+    expect(getClientIp(withRealIp, { clientAddress: '10.0.0.7' }, 0)).toBe('10.0.0.7');
+  });
+
+  it('should read the address the trusted proxy appended', () => {
+    expect(getClientIp(request('203.0.113.9'), { clientAddress: '10.0.0.2' }, 1)).toBe('203.0.113.9');
+  });
+
+  it('should not let a client spoof an address in front of the trusted proxies', () => {
+    const forwardedFor = '1.2.3.4, 203.0.113.9, 10.0.0.3';
+    expect(getClientIp(request(forwardedFor), { clientAddress: '10.0.0.2' }, 2)).toBe('203.0.113.9');
+  });
+
+  it('should fall back to the first address when the chain is shorter than the trusted hops', () => {
+    expect(getClientIp(request('203.0.113.9'), { clientAddress: '10.0.0.2' }, 3)).toBe('203.0.113.9');
+  });
+
+  it('should return unknown without a connection address', () => {
+    expect(getClientIp(request(), {}, 0)).toBe('unknown');
+  });
+});
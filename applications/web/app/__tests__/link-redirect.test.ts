@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import type { ResolvedLink } from '@url-shortener/engine';
+import { redirectTo } from '../lib/link-redirect';
+
+const link: ResolvedLink = {
+  originalUrl: 'https://example.com/checkout',
+  redirectStatus: 307,
+  cacheControl: 'private, no-store',
+  socialCard: null,
+};
+
+describe('redirectTo', () => {
+  it("should use the link's redirect status for visits", () => {
+    const response = redirectTo(link, new Request('http://localhost/s/abc123'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('Location')).toBe('https://example.com/checkout');
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+  });
+
+  it('should answer the unlock form with 303 so the password is not posted on', () => {
+    const unlock = new Request('http://localhost/s/abc123', { method: 'POST', body: new FormData() });
+
+    expect(redirectTo(link, unlock).status).toBe(303);
+    expect(redirectTo({ ...link, redirectStatus: 308 }, unlock).status).toBe(303);
+  });
+});
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+interface ExportButtonProps {
+  shortCodes: string[];
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/**
+ * Opens a dialog for downloading the listed links, or their visits, as CSV or NDJSON
+ */
+export function ExportButton({ shortCodes }: ExportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dataset, setDataset] = useState<"links" | "visits">("links");
+
+  return (
+    <>
+      <Button variant="outline" size="sm" type="button" onClick={() => setIsOpen(true)} data-testid="export-button">
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        {/* A plain GET form, so the browser downloads the file instead of the router fetching it */}
+        <form method="get" action={`/export/${dataset}`} onSubmit={() => setIsOpen(false)} data-testid="export-form">
+          <DialogHeader>
+            <DialogTitle>Export</DialogTitle>
+            <DialogDescription>
+              Download the {shortCodes.length} links listed here with their visit counts, or every visit to them.
+            </DialogDescription>
+          </DialogHeader>
+          <input type="hidden" name="shortCodes" value={shortCodes.join(",")} />
+          <div className="grid gap-4 py-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="export-dataset">Data</Label>
+              <select
+                id="export-dataset"
+                value={dataset}
+                onChange={(e) => setDataset(e.target.value as "links" | "visits")}
+                className={selectClassName}
+                data-testid="export-dataset-select"
+              >
+                <option value="links">Links and visit counts</option>
+                <option value="visits">Individual visits</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-format">Format</Label>
+              <select id="export-format" name="format" defaultValue="csv" className={selectClassName} data-testid="export-format-select">
+                <option value="csv">CSV</option>
+                <option value="ndjson">NDJSON</option>
+              </select>
+            </div>
+            {dataset === "visits" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="export-since">From</Label>
+                  <Input id="export-since" name="since" type="date" data-testid="export-since-input" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="export-until">To</Label>
+                  <Input id="export-until" name="until" type="date" data-testid="export-until-input" />
+                </div>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+            <Button type="submit" data-testid="export-submit-button">
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+          </DialogFooter>
+        </form>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { Loader2, Pencil, RotateCcw, Trash2 } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "~/components/ui/dialog";
+
+interface ManageLinkResult {
+  intent: "update" | "delete" | "restore";
+  ok?: boolean;
+  error?: string;
+}
+
+interface ManageLinkActionsProps {
+  shortCode: string;
+  /** Null for password-protected links, whose destination isn't sent to the browser */
+  originalUrl: string | null;
+  isDeleted: boolean;
+  managementSecret: string;
+}
+
+/**
+ * Edit, delete and restore buttons for a link the current browser created
+ */
+export function ManageLinkActions({
+  shortCode,
+  originalUrl,
+  isDeleted,
+  managementSecret,
+}: ManageLinkActionsProps) {
+  const fetcher = useFetcher<ManageLinkResult>();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const isBusy = fetcher.state !== "idle";
+  const pendingIntent = fetcher.formData?.get("intent");
+
+  // Close the edit dialog once the update went through
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data?.intent === "update" && fetcher.data.ok) {
+      setIsEditOpen(false);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const hiddenFields = (
+    <>
+      <input type="hidden" name="shortCode" value={shortCode} />
+      <input type="hidden" name="managementSecret" value={managementSecret} />
+    </>
+  );
+
+  const inlineError = fetcher.data?.error && fetcher.data.intent !== "update" ? fetcher.data.error : null;
+
+  return (
+    <>
+      {inlineError && (
+        <span className="text-xs text-destructive truncate" title={inlineError} data-testid="manage-error">
+          {inlineError}
+        </span>
+      )}
+
+      {isDeleted ? (
+        <fetcher.Form method="post" action="/?index">
+          {hiddenFields}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            type="submit"
+            name="intent"
+            value="restore"
+            title="Restore"
+            disabled={isBusy}
+            data-testid="restore-link-button"
+          >
+            {pendingIntent === "restore" ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+          </Button>
+        </fetcher.Form>
+      ) : (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            type="button"
+            title="Edit destination"
+            onClick={() => setIsEditOpen(true)}
+            data-testid="edit-link-button"
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <fetcher.Form
+            method="post"
+            action="/?index"
+            onSubmit={(event) => {
+              if (!window.confirm(`Delete /s/${shortCode}? It will stop redirecting until you restore it.`)) {
+                event.preventDefault();
+              }
+            }}
+          >
+            {hiddenFields}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              type="submit"
+              name="intent"
+              value="delete"
+              title="Delete"
+              disabled={isBusy}
+              data-testid="delete-link-button"
+            >
+              {pendingIntent === "delete" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+            </Button>
+          </fetcher.Form>
+        </>
+      )}
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <fetcher.Form method="post" action="/?index" className="space-y-4">
+          {hiddenFields}
+          <input type="hidden" name="intent" value="update" />
+          <DialogHeader>
+            <DialogTitle>Edit destination</DialogTitle>
+            <DialogDescription>
+              Change where <span className="font-mono">/s/{shortCode}</span> redirects to. The short link and its statistics stay the same.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`edit-url-${shortCode}`}>Destination URL</Label>
+            <Input
+              id={`edit-url-${shortCode}`}
+              name="url"
+              type="url"
+              defaultValue={originalUrl ?? ""}
+              required
+              data-testid="edit-url-input"
+            />
+            {fetcher.data?.intent === "update" && fetcher.data.error && (
+              <p className="text-sm text-destructive font-medium" data-testid="edit-error">
+                {fetcher.data.error}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isBusy} data-testid="save-link-button">
+              {pendingIntent === "update" ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </fetcher.Form>
+      </Dialog>
+    </>
+  );
+}
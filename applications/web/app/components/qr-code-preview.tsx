@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Download, QrCode } from "lucide-react";
+
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "~/components/ui/dialog";
+
+interface QrCodePreviewProps {
+  shortUrl: string;
+  shortCode: string;
+}
+
+/**
+ * QR code image for a short link with SVG and PNG downloads
+ */
+export function QrCodePreview({ shortUrl, shortCode }: QrCodePreviewProps) {
+  return (
+    <div className="flex flex-col items-center gap-3" data-testid="qr-code-preview">
+      <img
+        src={`${shortUrl}/qr.svg?size=256`}
+        alt={`QR code for ${shortUrl}`}
+        width={192}
+        height={192}
+        className="rounded-md border bg-white"
+        data-testid="qr-code-image"
+      />
+      <div className="flex gap-2">
+        {(["svg", "png"] as const).map((format) => (
+          <Button key={format} variant="outline" size="sm" asChild>
+            <a
+              href={`${shortUrl}/qr.${format}?download`}
+              download={`${shortCode}-qr.${format}`}
+              data-testid={`qr-download-${format}`}
+            >
+              <Download className="mr-2 h-3 w-3" />
+              {format.toUpperCase()}
+            </a>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Card button that opens the QR code for a link in a dialog
+ */
+export function QrCodeButton({ shortUrl, shortCode }: QrCodePreviewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        type="button"
+        title="QR code"
+        onClick={() => setIsOpen(true)}
+        data-testid="qr-code-button"
+      >
+        <QrCode className="h-3 w-3" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogHeader>
+          <DialogTitle>QR code</DialogTitle>
+          <DialogDescription>
+            Scanning it opens <span className="font-mono">/s/{shortCode}</span>. Use SVG for print.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4">
+          <QrCodePreview shortUrl={shortUrl} shortCode={shortCode} />
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={() => setIsOpen(false)}>Close</Button>
+        </DialogFooter>
+      </Dialog>
+    </>
+  );
+}
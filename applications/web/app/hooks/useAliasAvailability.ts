@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useFetcher } from 'react-router';
+
+export interface AliasAvailability {
+  alias: string;
+  available: boolean;
+  reason?: string;
+}
+
+const DEBOUNCE_MS = 300;
+
+/**
+ * Hook that checks custom alias availability against the server while the user types
+ */
+export function useAliasAvailability(alias: string) {
+  const fetcher = useFetcher<AliasAvailability>();
+  const [checkedAlias, setCheckedAlias] = useState('');
+  const trimmedAlias = alias.trim();
+
+  useEffect(() => {
+    if (trimmedAlias.length === 0) {
+      setCheckedAlias('');
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setCheckedAlias(trimmedAlias);
+      fetcher.load(`/api/aliases/${encodeURIComponent(trimmedAlias)}`);
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [trimmedAlias]);
+
+  // Ignore stale responses for an alias the user has since changed
+  const result = fetcher.data && fetcher.data.alias === trimmedAlias ? fetcher.data : null;
+  const isChecking = trimmedAlias.length > 0 && (fetcher.state !== 'idle' || checkedAlias !== trimmedAlias);
+
+  return {
+    isChecking,
+    isAvailable: result?.available ?? null,
+    reason: result?.reason ?? null,
+  };
+}
@@ -0,0 +1,44 @@
+import { timingSafeEqual } from "node:crypto";
+
+const REALM = "URL Shortener admin";
+
+/**
+ * HTTP Basic auth for the admin pages
+ *
+ * Any username is accepted; the password must match ADMIN_PASSWORD. Without ADMIN_PASSWORD
+ * the admin pages are turned off. Call from every loader and action of an admin route.
+ * @throws {Response} 401 asking for credentials, or 403 when the admin pages are turned off
+ */
+export function requireAdmin(request: Request): void {
+  const expected = process.env.ADMIN_PASSWORD;
+  if (!expected) {
+    throw new Response("Admin pages are turned off. Set ADMIN_PASSWORD to use them.", {
+      status: 403,
+      statusText: "Admin pages are turned off. Set ADMIN_PASSWORD to use them.",
+    });
+  }
+
+  const password = basicAuthPassword(request.headers.get("Authorization"));
+  if (password === null || !sameSecret(password, expected)) {
+    throw new Response("Admin password required", {
+      status: 401,
+      statusText: "Admin password required",
+      headers: { "WWW-Authenticate": `Basic realm="${REALM}", charset="UTF-8"` },
+    });
+  }
+}
+
+function basicAuthPassword(header: string | null): string | null {
+  const match = header?.match(/^Basic\s+(\S+)$/i);
+  if (!match) return null;
+
+  const credentials = Buffer.from(match[1], "base64").toString("utf8");
+  const separator = credentials.indexOf(":");
+  return separator === -1 ? null : credentials.slice(separator + 1);
+}
+
+function sameSecret(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,148 @@
+import {
+  authenticateApiKeyUseCase,
+  RateLimitError,
+  UnauthorizedError,
+  ValidationError,
+  isApplicationError,
+  isLinkExpired,
+  DEFAULT_REDIRECT_STATUS,
+  getErrorCode,
+  getErrorMessage,
+  getStatusCode,
+  type ApiKey,
+  type ApiKeyScope,
+  type Url,
+} from "@url-shortener/engine";
+import { retryAfterHeaders } from "~/lib/rate-limit";
+
+/**
+ * JSON representation of a link in API responses
+ * The destination of password-protected links is never exposed
+ */
+export function serializeLink(url: Url, origin: string, visitCount: number) {
+  return {
+    code: url.shortCode,
+    shortUrl: `${origin}/s/${url.shortCode}`,
+    originalUrl: url.passwordHash ? null : url.originalUrl,
+    createdAt: url.createdAt?.toISOString() ?? null,
+    expiresAt: url.expiresAt?.toISOString() ?? null,
+    maxClicks: url.maxClicks ?? null,
+    redirectStatus: url.redirectStatus ?? DEFAULT_REDIRECT_STATUS,
+    ogTitle: url.ogTitle ?? null,
+    ogDescription: url.ogDescription ?? null,
+    ogImage: url.ogImage ?? null,
+    tags: url.tags ?? [],
+    importedClicks: url.importedClicks ?? null,
+    isProtected: url.passwordHash != null,
+    isExpired: isLinkExpired(url, visitCount),
+  };
+}
+
+/**
+ * Turn any error into a consistent JSON error body with the matching HTTP status
+ */
+export function apiErrorResponse(error: unknown, headers?: HeadersInit): Response {
+  const status = getStatusCode(error);
+  const responseHeaders = new Headers(headers);
+  if (error instanceof UnauthorizedError) {
+    responseHeaders.set("WWW-Authenticate", 'Bearer realm="api"');
+  }
+  if (error instanceof RateLimitError) {
+    for (const [name, value] of Object.entries(retryAfterHeaders(error))) {
+      responseHeaders.set(name, value);
+    }
+  }
+
+  if (!isApplicationError(error)) {
+    console.error('API error:', error);
+  }
+
+  return Response.json(
+    {
+      error: {
+        code: getErrorCode(error),
+        // Don't leak internals of unexpected errors
+        message: isApplicationError(error) ? getErrorMessage(error) : "An unexpected error occurred",
+        ...(error instanceof ValidationError && error.field ? { field: error.field } : {}),
+      },
+    },
+    { status, headers: responseHeaders }
+  );
+}
+
+/**
+ * Read the API key from `Authorization: Bearer <key>` or the `X-API-Key` header
+ */
+export function getApiKey(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice("bearer ".length).trim() || null;
+  }
+  return request.headers.get("x-api-key")?.trim() || null;
+}
+
+/**
+ * Authenticate the caller of an API route
+ * @throws {UnauthorizedError | ForbiddenError} When the key is missing, invalid or lacks the scope
+ */
+export function authenticateRequest(request: Request, scope: ApiKeyScope): Promise<ApiKey> {
+  return authenticateApiKeyUseCase.execute(getApiKey(request), scope);
+}
+
+export function methodNotAllowed(allowed: string[]): Response {
+  return Response.json(
+    {
+      error: {
+        code: "METHOD_NOT_ALLOWED",
+        message: `Method not allowed. Use ${allowed.join(", ")}.`,
+      },
+    },
+    { status: 405, headers: { Allow: allowed.join(", ") } }
+  );
+}
+
+/**
+ * Parse a JSON request body, reporting malformed input as a validation error
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError("Request body must be valid JSON");
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ValidationError("Request body must be a JSON object");
+  }
+
+  return body as Record<string, unknown>;
+}
+
+export function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new ValidationError(`${field} must be a string`, field);
+  }
+  return value;
+}
+
+export function optionalNumber(body: Record<string, unknown>, field: string): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number") {
+    throw new ValidationError(`${field} must be a number`, field);
+  }
+  return value;
+}
+
+export function optionalDate(body: Record<string, unknown>, field: string): Date | undefined {
+  const value = optionalString(body, field);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be an ISO 8601 date`, field);
+  }
+  return date;
+}
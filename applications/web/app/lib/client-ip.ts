@@ -0,0 +1,34 @@
+import type { AppLoadContext } from "react-router";
+
+declare module "react-router" {
+  interface AppLoadContext {
+    /** Address of the connection's peer, set by server.js; absent under the dev server */
+    clientAddress?: string;
+  }
+}
+
+/**
+ * Client IP for throttling and unique-visitor counts
+ *
+ * X-Forwarded-For is only trusted for as many hops as TRUST_PROXY says there are proxies in
+ * front of the app, since any client can send the header. Each proxy appends the address it
+ * received the request from, so the client is that many entries back from the connection's peer.
+ */
+export function getClientIp(
+  request: Request,
+  context: AppLoadContext,
+  trustedProxies: number = trustedProxyCount()
+): string {
+  const forwardedFor = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  const chain = [...forwardedFor, context.clientAddress || "unknown"];
+
+  return chain[Math.max(chain.length - 1 - trustedProxies, 0)];
+}
+
+function trustedProxyCount(): number {
+  const value = Number(process.env.TRUST_PROXY ?? 0);
+  return Number.isInteger(value) && value > 0 ? value : 0;
+}
@@ -0,0 +1,96 @@
+import {
+  exportLinksUseCase,
+  exportVisitsUseCase,
+  validateExportFormat,
+  EXPORT_CONTENT_TYPES,
+  ValidationError,
+  type ApiKeyScope,
+  type ExportRange,
+  type LinkSelection,
+} from "@url-shortener/engine";
+
+/** What can be exported, with the API scope each one needs */
+export const EXPORT_DATASETS = {
+  links: "links:read",
+  visits: "stats:read",
+} as const satisfies Record<string, ApiKeyScope>;
+
+export type ExportDataset = keyof typeof EXPORT_DATASETS;
+
+export function isExportDataset(value: string | undefined): value is ExportDataset {
+  return value !== undefined && Object.hasOwn(EXPORT_DATASETS, value);
+}
+
+/**
+ * Stream an export of the selected links as a file download
+ * Query: format (csv or ndjson); for visits also since and until (ISO 8601 dates)
+ * @throws {ValidationError} For invalid parameters
+ */
+export async function exportResponse(
+  dataset: ExportDataset,
+  selection: LinkSelection,
+  requestUrl: URL
+): Promise<Response> {
+  const format = validateExportFormat(requestUrl.searchParams.get("format"));
+  const lines = dataset === "links"
+    ? exportLinksUseCase.execute(selection, format, `${requestUrl.origin}/s/`)
+    : exportVisitsUseCase.execute(selection, format, exportRange(requestUrl.searchParams));
+
+  // Read the first line before answering, so an unreachable database still gets an error status
+  const iterator = lines[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(first.value));
+      }
+    },
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      } catch (error) {
+        console.error("Export stream error:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  const fileName = `${dataset}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(body, {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
+
+/**
+ * Read since and until from the query string; a plain date for until covers that whole day
+ */
+function exportRange(searchParams: URLSearchParams): ExportRange {
+  const date = (field: "since" | "until") => {
+    const value = searchParams.get(field)?.trim();
+    if (!value) return undefined;
+    const isDay = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const parsed = new Date(isDay && field === "until" ? `${value}T23:59:59.999Z` : value);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new ValidationError(`${field} must be an ISO 8601 date`, field);
+    }
+    return parsed;
+  };
+
+  return { since: date("since"), until: date("until") };
+}
@@ -0,0 +1,19 @@
+import { redirect } from "react-router";
+import type { ResolvedLink } from "@url-shortener/engine";
+
+/**
+ * Redirect with the link's own status and the caching the engine allows for it
+ *
+ * The unlock form's POST always gets a 303, since a 307 or 308 would have the browser
+ * send the form, password included, on to the destination.
+ */
+export function redirectTo(link: ResolvedLink, request: Request) {
+  return redirect(link.originalUrl, {
+    status: request.method === "POST" ? 303 : link.redirectStatus,
+    headers: {
+      "Cache-Control": link.cacheControl,
+      // Crawlers get a card page for the same URL, so shared caches must tell them apart
+      ...(link.socialCard ? { "Vary": "User-Agent" } : {}),
+    },
+  });
+}
@@ -0,0 +1,10 @@
+import type { RateLimitError } from "@url-shortener/engine";
+
+/**
+ * Headers telling the client when it may retry a rate-limited request
+ */
+export function retryAfterHeaders(error: RateLimitError): Record<string, string> {
+  return error.retryAfterSeconds !== undefined
+    ? { "Retry-After": String(error.retryAfterSeconds) }
+    : {};
+}
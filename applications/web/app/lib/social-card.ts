@@ -0,0 +1,53 @@
+import type { SocialCard } from "@url-shortener/engine";
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Minimal page carrying Open Graph and Twitter card tags, served to crawlers instead of the redirect
+ * Anyone else who ends up here is sent on by the refresh tag and the link.
+ */
+export function socialCardHtml(card: SocialCard, shortUrl: string, destination: string): string {
+  const title = card.title ?? new URL(destination).hostname;
+  const tags: [string, string, string | null][] = [
+    ["name", "description", card.description],
+    ["property", "og:type", "website"],
+    ["property", "og:url", shortUrl],
+    ["property", "og:title", title],
+    ["property", "og:description", card.description],
+    ["property", "og:image", card.imageUrl],
+    ["name", "twitter:card", card.imageUrl ? "summary_large_image" : "summary"],
+    ["name", "twitter:title", title],
+    ["name", "twitter:description", card.description],
+    ["name", "twitter:image", card.imageUrl],
+  ];
+
+  const meta = tags
+    .filter((tag): tag is [string, string, string] => tag[2] !== null)
+    .map(([attribute, name, content]) => `<meta ${attribute}="${name}" content="${escapeHtml(content)}">`)
+    .join("\n    ");
+  const target = escapeHtml(destination);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+    ${meta}
+    <meta http-equiv="refresh" content="0; url=${target}">
+  </head>
+  <body>
+    <a href="${target}">${target}</a>
+  </body>
+</html>
+`;
+}
@@ -23,6 +23,16 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
+/**
+ * Errors from other routes render here, so a thrown 401's request for credentials has to be passed on here too
+ */
+export function headers({ parentHeaders, errorHeaders }: Route.HeadersArgs) {
+  const headers = new Headers(parentHeaders);
+  const challenge = errorHeaders?.get("WWW-Authenticate");
+  if (challenge) headers.set("WWW-Authenticate", challenge);
+  return headers;
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
@@ -3,4 +3,20 @@ import { type RouteConfig, index, route } from "@react-router/dev/routes";
 export default [
   index("routes/_index.tsx"),
   route("s/:code", "routes/s.$code.tsx"),
+  route("s/:code/qr.svg", "routes/s.$code.qr.ts", { id: "qr-svg" }),
+  route("s/:code/qr.png", "routes/s.$code.qr.ts", { id: "qr-png" }),
+  route("p/:code", "routes/p.$code.tsx"),
+  route("links/:code", "routes/links.$code.tsx"),
+  route("api-keys", "routes/api-keys.tsx"),
+  route("bulk", "routes/bulk.tsx"),
+  route("import", "routes/import.tsx"),
+  route("export/:dataset", "routes/export.$dataset.ts"),
+  route("api/aliases/:alias", "routes/api.aliases.$alias.ts"),
+  route("api/v1/links", "routes/api.v1.links.ts"),
+  route("api/v1/links/:code", "routes/api.v1.links.$code.ts"),
+  route("api/v1/links/:code/stats", "routes/api.v1.links.$code.stats.ts"),
+  route("api/v1/export/:dataset", "routes/api.v1.export.$dataset.ts"),
+  route("healthz", "routes/healthz.ts"),
+  route("readyz", "routes/readyz.ts"),
+  route("metrics", "routes/metrics.ts"),
 ] satisfies RouteConfig;
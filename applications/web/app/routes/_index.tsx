@@ -1,14 +1,30 @@
 
-import { Form, useActionData, useNavigation, useLoaderData, useRevalidator, useNavigate } from "react-router";
-import { Link, Loader2, Copy, ExternalLink, BarChart, Check } from "lucide-react";
+import { Form, Link as RouterLink, data, useActionData, useNavigation, useLoaderData, useRevalidator, useNavigate } from "react-router";
+import { Link, Loader2, Copy, ExternalLink, BarChart, Check, Clock, KeyRound, Lock, Trash2, Upload, FileInput } from "lucide-react";
 import type { Route } from "./+types/_index";
 import { 
   shortenUrlUseCase, 
+  updateUrlDestinationUseCase,
+  deleteUrlUseCase,
+  restoreUrlUseCase,
   repository,
   InvalidUrlError,
+  ValidationError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  isLinkExpired,
+  isPermanentRedirect,
+  isRedirectStatus,
+  SOCIAL_TITLE_MAX_LENGTH,
+  SOCIAL_DESCRIPTION_MAX_LENGTH,
+  DEFAULT_REDIRECT_STATUS,
+  REDIRECT_STATUSES,
+  parseShortCodeList,
   isDatabaseError,
   getErrorMessage,
   getErrorCode,
+  type RedirectStatus,
 } from "@url-shortener/engine";
 import { useEffect, useState } from "react";
 
@@ -23,6 +39,8 @@ import {
 } from "~/components/ui/card";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
+import { QrCodeButton, QrCodePreview } from "~/components/qr-code-preview";
+import { ExportButton } from "~/components/export-button";
 import {
   Dialog,
   DialogHeader,
@@ -31,35 +49,68 @@ import {
   DialogFooter,
 } from "~/components/ui/dialog";
 import { useUrlValidation } from "~/hooks/useUrlValidation";
+import { useAliasAvailability } from "~/hooks/useAliasAvailability";
+import { ManageLinkActions } from "~/components/manage-link-actions";
+import { getClientIp } from "~/lib/client-ip";
+import { retryAfterHeaders } from "~/lib/rate-limit";
+
+/**
+ * Settings the shorten form offers, sent from the loader because route components can't import engine values
+ */
+function linkFormOptions() {
+  return {
+    redirectStatuses: REDIRECT_STATUSES.map((status) => ({ status, permanent: isPermanentRedirect(status) })),
+    defaultRedirectStatus: DEFAULT_REDIRECT_STATUS,
+    socialTitleMaxLength: SOCIAL_TITLE_MAX_LENGTH,
+    socialDescriptionMaxLength: SOCIAL_DESCRIPTION_MAX_LENGTH,
+  };
+}
 
 export async function loader({ request }: Route.LoaderArgs) {
+  const formOptions = linkFormOptions();
+
   try {
     const origin = new URL(request.url).origin;
     const url = new URL(request.url);
     
     // Get shortCodes from query params (sent from client-side localStorage)
-    const shortCodesParam = url.searchParams.get('shortCodes');
-    const shortCodes = shortCodesParam ? shortCodesParam.split(',').filter(Boolean) : [];
+    const shortCodes = parseShortCodeList(url.searchParams.get('shortCodes'));
     
     // Only fetch URLs that match the user's shortCodes from localStorage
-    let urls: Awaited<ReturnType<typeof repository.findAllWithStats>> = [];
-    if (shortCodes.length > 0) {
-      const allUrls = await repository.findAllWithStats();
-      urls = allUrls.filter(url => shortCodes.includes(url.shortCode));
-    }
+    const urls = await repository.findManyWithStatsByShortCodes(shortCodes);
     
     return {
-      urls,
+      urls: urls.map(({ passwordHash, managementSecretHash, apiKeyId, normalizedUrlHash, ...url }) => ({
+        ...url,
+        // Anyone can ask for any code here, so protected destinations stay hidden
+        originalUrl: passwordHash != null ? null : url.originalUrl,
+        expired: isLinkExpired(url, url.visitCount),
+        isProtected: passwordHash != null,
+        isDeleted: url.deletedAt != null,
+      })),
       baseUrl: `${origin}/s/`,
+      formOptions,
     };
   } catch (error) {
     console.error('Loader error:', error);
+
+    // A malformed or oversized shortCodes parameter
+    if (error instanceof ValidationError) {
+      return {
+        urls: [],
+        baseUrl: '',
+        formOptions,
+        error: getErrorMessage(error),
+        errorCode: getErrorCode(error),
+      };
+    }
     
     // Check if it's a database connection error
     if (isDatabaseError(error)) {
       return {
         urls: [],
         baseUrl: '',
+        formOptions,
         error: getErrorMessage(error),
         errorCode: getErrorCode(error),
       };
@@ -68,14 +119,29 @@ export async function loader({ request }: Route.LoaderArgs) {
     return {
       urls: [],
       baseUrl: '',
+      formOptions,
       error: 'Failed to load URLs. Please try again.',
     };
   }
 }
 
-export async function action({ request }: Route.ActionArgs) {
+export async function action({ request, context }: Route.ActionArgs) {
   const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "update" || intent === "delete" || intent === "restore") {
+    return manageLink(intent, formData);
+  }
+
   const url = formData.get("url") as string;
+  const alias = ((formData.get("alias") as string | null) ?? "").trim();
+  const expiresAtValue = ((formData.get("expiresAt") as string | null) ?? "").trim();
+  const maxClicksValue = ((formData.get("maxClicks") as string | null) ?? "").trim();
+  const password = (formData.get("password") as string | null) ?? "";
+  const redirectStatusValue = ((formData.get("redirectStatus") as string | null) ?? "").trim();
+  const ogTitle = ((formData.get("ogTitle") as string | null) ?? "").trim();
+  const ogDescription = ((formData.get("ogDescription") as string | null) ?? "").trim();
+  const ogImage = ((formData.get("ogImage") as string | null) ?? "").trim();
 
   if (!url) {
     return { error: "URL is required" };
@@ -87,13 +153,36 @@ export async function action({ request }: Route.ActionArgs) {
     return { error: "Please enter a valid URL (e.g., https://example.com)" };
   }
 
+  const expiresAt = expiresAtValue ? new Date(expiresAtValue) : undefined;
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+    return { error: "Please enter a valid expiration date", field: "expiresAt" };
+  }
+
+  const maxClicks = maxClicksValue ? Number(maxClicksValue) : undefined;
+
+  const redirectStatus = redirectStatusValue ? Number(redirectStatusValue) : undefined;
+  if (redirectStatus !== undefined && !isRedirectStatus(redirectStatus)) {
+    return { error: "Please choose a supported redirect type", field: "redirectStatus" };
+  }
+
   try {
-    const shortUrl = await shortenUrlUseCase.execute(url);
+    const shortUrl = await shortenUrlUseCase.execute(url, {
+      alias: alias || undefined,
+      expiresAt,
+      maxClicks,
+      password: password || undefined,
+      redirectStatus,
+      ogTitle: ogTitle || undefined,
+      ogDescription: ogDescription || undefined,
+      ogImage: ogImage || undefined,
+      clientKey: getClientIp(request, context),
+    });
     const origin = new URL(request.url).origin;
     
     return {
       shortenedUrl: `${origin}/s/${shortUrl.shortCode}`,
       shortCode: shortUrl.shortCode,
+      managementSecret: shortUrl.managementSecret,
       success: true,
     };
   } catch (error) {
@@ -103,6 +192,17 @@ export async function action({ request }: Route.ActionArgs) {
     if (error instanceof InvalidUrlError) {
       return { error: error.message };
     }
+
+    if (error instanceof ValidationError) {
+      return { error: error.message, field: error.field };
+    }
+
+    if (error instanceof RateLimitError) {
+      return data(
+        { error: error.message, errorCode: getErrorCode(error) },
+        { status: 429, headers: retryAfterHeaders(error) }
+      );
+    }
     
     if (isDatabaseError(error)) {
       const message = getErrorMessage(error);
@@ -130,6 +230,44 @@ export async function action({ request }: Route.ActionArgs) {
   }
 }
 
+/**
+ * Edit, delete or restore a link on behalf of the holder of its management secret
+ */
+async function manageLink(intent: "update" | "delete" | "restore", formData: FormData) {
+  const shortCode = (formData.get("shortCode") as string | null) ?? "";
+  const managementSecret = (formData.get("managementSecret") as string | null) ?? "";
+
+  try {
+    if (intent === "update") {
+      const url = (formData.get("url") as string | null) ?? "";
+      await updateUrlDestinationUseCase.execute(shortCode, url, managementSecret);
+    } else if (intent === "delete") {
+      await deleteUrlUseCase.execute(shortCode, managementSecret);
+    } else {
+      await restoreUrlUseCase.execute(shortCode, managementSecret);
+    }
+
+    return { intent, ok: true };
+  } catch (error) {
+    console.error('Manage link error:', error);
+
+    if (
+      error instanceof InvalidUrlError ||
+      error instanceof ValidationError ||
+      error instanceof ForbiddenError ||
+      error instanceof NotFoundError
+    ) {
+      return { intent, error: error.message };
+    }
+
+    if (isDatabaseError(error)) {
+      return { intent, error: getErrorMessage(error), errorCode: getErrorCode(error) };
+    }
+
+    return { intent, error: "Failed to update the link. Please try again." };
+  }
+}
+
 export function meta({}: Route.MetaArgs) {
   return [
     { title: "URL Shortener" },
@@ -137,7 +275,15 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
+const REDIRECT_STATUS_LABELS: Record<RedirectStatus, string> = {
+  301: '301 Moved Permanently',
+  302: '302 Found (default)',
+  307: '307 Temporary Redirect',
+  308: '308 Permanent Redirect',
+};
+
 const STORAGE_KEY = 'url-shortener-codes';
+const SECRETS_STORAGE_KEY = 'url-shortener-secrets';
 
 // Helper functions for localStorage
 function getStoredShortCodes(): string[] {
@@ -163,9 +309,30 @@ function addShortCode(shortCode: string) {
   }
 }
 
+function getStoredManagementSecrets(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(SECRETS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function addManagementSecret(shortCode: string, secret: string) {
+  if (typeof window === 'undefined') return;
+  try {
+    const secrets = getStoredManagementSecrets();
+    secrets[shortCode] = secret;
+    localStorage.setItem(SECRETS_STORAGE_KEY, JSON.stringify(secrets));
+  } catch (e) {
+    console.error('Failed to save to localStorage:', e);
+  }
+}
+
 export default function Index({ loaderData }: Route.ComponentProps) {
   const actionData = useActionData<typeof action>();
-  const { urls, baseUrl, error: loaderError, errorCode: loaderErrorCode } = loaderData;
+  const { urls, baseUrl, formOptions, error: loaderError, errorCode: loaderErrorCode } = loaderData;
   const navigation = useNavigation();
   const navigate = useNavigate();
   const revalidator = useRevalidator();
@@ -183,6 +350,17 @@ export default function Index({ loaderData }: Route.ComponentProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [lastShortenedUrl, setLastShortenedUrl] = useState<string | null>(null);
+  const [lastShortCode, setLastShortCode] = useState<string | null>(null);
+  const [alias, setAlias] = useState('');
+  const [expiresAtLocal, setExpiresAtLocal] = useState('');
+  const [maxClicks, setMaxClicks] = useState('');
+  const [password, setPassword] = useState('');
+  const [redirectStatus, setRedirectStatus] = useState(String(formOptions.defaultRedirectStatus));
+  const [ogTitle, setOgTitle] = useState('');
+  const [ogDescription, setOgDescription] = useState('');
+  const [ogImage, setOgImage] = useState('');
+  const [managementSecrets, setManagementSecrets] = useState<Record<string, string>>({});
+  const aliasAvailability = useAliasAvailability(alias);
 
   const handleCopy = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -202,10 +380,16 @@ export default function Index({ loaderData }: Route.ComponentProps) {
       event.preventDefault();
       return;
     }
+
+    // Don't submit an alias we already know cannot be used
+    if (alias.trim() && aliasAvailability.isAvailable === false) {
+      event.preventDefault();
+    }
   };
 
   // On mount and when actionData changes, ensure we load the user's links
   useEffect(() => {
+    setManagementSecrets(getStoredManagementSecrets());
     const codes = getStoredShortCodes();
     const searchParams = new URLSearchParams(window.location.search);
     const hasShortCodesParam = searchParams.has('shortCodes');
@@ -225,8 +409,13 @@ export default function Index({ loaderData }: Route.ComponentProps) {
 
   // When a new URL is shortened, save it to localStorage and revalidate
   useEffect(() => {
-    if (actionData?.success && actionData?.shortCode && actionData?.shortenedUrl) {
+    if (actionData && "success" in actionData && actionData.success && actionData.shortCode && actionData.shortenedUrl) {
       addShortCode(actionData.shortCode);
+      // Only newly created links come with a secret; it cannot be recovered later
+      if (actionData.managementSecret) {
+        addManagementSecret(actionData.shortCode, actionData.managementSecret);
+        setManagementSecrets(getStoredManagementSecrets());
+      }
       // Revalidate to fetch the updated list with the new shortCode
       const codes = getStoredShortCodes();
       const params = new URLSearchParams({ shortCodes: codes.join(',') });
@@ -239,9 +428,18 @@ export default function Index({ loaderData }: Route.ComponentProps) {
       // Clear input manually if needed (Form usually does this on successful non-JS navigation but we're in SPA mode)
       const input = document.getElementById('url') as HTMLInputElement;
       if (input) input.value = '';
+      setAlias('');
+      setExpiresAtLocal('');
+      setMaxClicks('');
+      setPassword('');
+      setRedirectStatus(String(formOptions.defaultRedirectStatus));
+      setOgTitle('');
+      setOgDescription('');
+      setOgImage('');
 
       // Set state and auto copy
       setLastShortenedUrl(actionData.shortenedUrl);
+      setLastShortCode(actionData.shortCode);
       navigator.clipboard.writeText(actionData.shortenedUrl);
       setIsDialogOpen(true);
       setCopiedCode('new-url');
@@ -264,6 +462,19 @@ export default function Index({ loaderData }: Route.ComponentProps) {
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
              Enter a long URL to generate a short, shareable link instantly. Track your link's performance with built-in analytics.
           </p>
+          {/* Admin pages ask for a password with HTTP Basic auth, which only a full page load prompts for */}
+          <RouterLink to="/api-keys" reloadDocument className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="api-keys-link">
+            <KeyRound className="w-4 h-4" />
+            Manage API keys
+          </RouterLink>
+          <RouterLink to="/bulk" className="ml-4 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="bulk-link">
+            <Upload className="w-4 h-4" />
+            Bulk shorten from CSV
+          </RouterLink>
+          <RouterLink to="/import" reloadDocument className="ml-4 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground" data-testid="import-link">
+            <FileInput className="w-4 h-4" />
+            Import from another shortener
+          </RouterLink>
         </div>
 
         {/* Database Error Alert */}
@@ -336,6 +547,155 @@ export default function Index({ loaderData }: Route.ComponentProps) {
                   <p className="text-sm text-destructive font-medium" data-testid="action-error">{actionData.error}</p>
                 )}
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="alias">Custom alias (optional)</Label>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground font-mono">/s/</span>
+                  <Input
+                    id="alias"
+                    name="alias"
+                    placeholder="q3-launch"
+                    autoComplete="off"
+                    value={alias}
+                    data-testid="alias-input"
+                    className={`flex-1 font-mono ${aliasAvailability.isAvailable === false ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+                    aria-invalid={aliasAvailability.isAvailable === false ? true : undefined}
+                    aria-describedby={alias.trim() ? "alias-status" : undefined}
+                    onChange={(e) => setAlias(e.target.value)}
+                  />
+                </div>
+                {alias.trim() && (
+                  <p id="alias-status" className="text-sm" data-testid="alias-status">
+                    {aliasAvailability.isChecking ? (
+                      <span className="text-muted-foreground">Checking availability...</span>
+                    ) : aliasAvailability.isAvailable ? (
+                      <span className="text-green-600 font-medium">This alias is available</span>
+                    ) : aliasAvailability.reason ? (
+                      <span className="text-destructive font-medium">{aliasAvailability.reason}</span>
+                    ) : null}
+                  </p>
+                )}
+              </div>
+              <details className="group rounded-md border px-3 py-2" data-testid="link-options">
+                <summary className="cursor-pointer text-sm font-medium text-muted-foreground select-none">
+                  Expiration &amp; protection (optional)
+                </summary>
+                <div className="grid gap-4 pt-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="expiresAtLocal">Expires at</Label>
+                    <Input
+                      id="expiresAtLocal"
+                      type="datetime-local"
+                      value={expiresAtLocal}
+                      data-testid="expires-at-input"
+                      onChange={(e) => setExpiresAtLocal(e.target.value)}
+                    />
+                    {/* Send an absolute timestamp so the server doesn't need the browser's timezone */}
+                    <input
+                      type="hidden"
+                      name="expiresAt"
+                      value={expiresAtLocal ? new Date(expiresAtLocal).toISOString() : ''}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxClicks">Max clicks</Label>
+                    <Input
+                      id="maxClicks"
+                      name="maxClicks"
+                      type="number"
+                      min={1}
+                      step={1}
+                      placeholder="Unlimited"
+                      value={maxClicks}
+                      data-testid="max-clicks-input"
+                      onChange={(e) => setMaxClicks(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input
+                      id="password"
+                      name="password"
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Leave empty for a public link"
+                      value={password}
+                      data-testid="password-input"
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Visitors must enter this password before being redirected.
+                    </p>
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="redirectStatus">Redirect type</Label>
+                    <select
+                      id="redirectStatus"
+                      name="redirectStatus"
+                      value={redirectStatus}
+                      data-testid="redirect-status-select"
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                      onChange={(e) => setRedirectStatus(e.target.value)}
+                    >
+                      {formOptions.redirectStatuses.map(({ status }) => (
+                        <option key={status} value={status}>
+                          {REDIRECT_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                    {formOptions.redirectStatuses.some(({ status, permanent }) => permanent && String(status) === redirectStatus) && (
+                      <p className="text-xs text-amber-600 dark:text-amber-500" data-testid="permanent-redirect-warning">
+                        Browsers remember permanent redirects and skip this short link on repeat clicks, so those
+                        clicks won't be counted. Permanent redirects can't be combined with a click limit or password.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </details>
+              <details className="group rounded-md border px-3 py-2" data-testid="social-card-options">
+                <summary className="cursor-pointer text-sm font-medium text-muted-foreground select-none">
+                  Social preview (optional)
+                </summary>
+                <div className="grid gap-4 pt-3">
+                  <p className="text-xs text-muted-foreground">
+                    Shown when the link is pasted into chat apps and social networks, instead of what they find on their own.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="ogTitle">Title</Label>
+                    <Input
+                      id="ogTitle"
+                      name="ogTitle"
+                      maxLength={formOptions.socialTitleMaxLength}
+                      value={ogTitle}
+                      data-testid="og-title-input"
+                      onChange={(e) => setOgTitle(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ogDescription">Description</Label>
+                    <Input
+                      id="ogDescription"
+                      name="ogDescription"
+                      maxLength={formOptions.socialDescriptionMaxLength}
+                      value={ogDescription}
+                      data-testid="og-description-input"
+                      onChange={(e) => setOgDescription(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ogImage">Image URL</Label>
+                    <Input
+                      id="ogImage"
+                      name="ogImage"
+                      type="url"
+                      placeholder="https://example.com/card.png"
+                      value={ogImage}
+                      data-testid="og-image-input"
+                      onChange={(e) => setOgImage(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </details>
             </Form>
           </CardContent>
         </Card>
@@ -377,6 +737,11 @@ export default function Index({ loaderData }: Route.ComponentProps) {
               </a>
             </Button>
           </div>
+          {lastShortenedUrl && lastShortCode && (
+            <div className="pb-4">
+              <QrCodePreview shortUrl={lastShortenedUrl} shortCode={lastShortCode} />
+            </div>
+          )}
           <DialogFooter>
             <Button onClick={() => setIsDialogOpen(false)}>Close</Button>
           </DialogFooter>
@@ -385,24 +750,57 @@ export default function Index({ loaderData }: Route.ComponentProps) {
         {/* Recent URLs Table */}
         {urls.length > 0 && (
           <div className="space-y-4" data-testid="recent-links-section">
-            <h2 className="text-2xl font-semibold tracking-tight">Your Recent Links</h2>
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-2xl font-semibold tracking-tight">Your Recent Links</h2>
+              <ExportButton shortCodes={urls.map((url) => url.shortCode)} />
+            </div>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
               {urls.map((url) => (
-                <Card key={url.shortCode} className="flex flex-col" data-testid={`link-card-${url.shortCode}`}>
+                <Card key={url.shortCode} className={`flex flex-col ${url.isDeleted ? 'opacity-60' : ''}`} data-testid={`link-card-${url.shortCode}`}>
                   <CardHeader className="pb-2">
                     <CardTitle className="flex items-center justify-between text-base">
                       <span className="font-mono text-primary" data-testid="short-code-display">{url.shortCode}</span>
-                      <div className="flex items-center gap-1 text-sm text-muted-foreground bg-muted px-2 py-0.5 rounded-full" data-testid="visit-count">
-                        <BarChart className="w-3 h-3" />
-                        <span>{url.visitCount} visits</span>
+                      <div className="flex items-center gap-1">
+                        {url.isProtected && (
+                          <span className="flex items-center text-muted-foreground bg-muted p-1 rounded-full" title="Password protected" data-testid="protected-badge">
+                            <Lock className="w-3 h-3" />
+                          </span>
+                        )}
+                        {url.isDeleted && (
+                          <span className="flex items-center gap-1 text-xs font-medium text-muted-foreground bg-muted px-2 py-0.5 rounded-full" data-testid="deleted-badge">
+                            <Trash2 className="w-3 h-3" />
+                            Deleted
+                          </span>
+                        )}
+                        {url.expired && (
+                          <span className="flex items-center gap-1 text-xs font-medium text-destructive bg-destructive/10 px-2 py-0.5 rounded-full" data-testid="expired-badge">
+                            <Clock className="w-3 h-3" />
+                            Expired
+                          </span>
+                        )}
+                        <div className="flex items-center gap-1 text-sm text-muted-foreground bg-muted px-2 py-0.5 rounded-full" data-testid="visit-count">
+                          <BarChart className="w-3 h-3" />
+                          <span>{url.maxClicks != null ? `${url.visitCount}/${url.maxClicks}` : url.visitCount} visits</span>
+                        </div>
                       </div>
                     </CardTitle>
-                    <CardDescription className="text-xs truncate" title={url.originalUrl} data-testid="original-url-display">
-                      {url.originalUrl}
-                    </CardDescription>
+                    {url.originalUrl === null ? (
+                      <CardDescription className="flex items-center gap-1 text-xs" data-testid="original-url-display">
+                        <Lock className="w-3 h-3" />
+                        Password protected link
+                      </CardDescription>
+                    ) : (
+                      <CardDescription className="text-xs truncate" title={url.originalUrl} data-testid="original-url-display">
+                        {url.originalUrl}
+                      </CardDescription>
+                    )}
                   </CardHeader>
                   <CardContent className="pb-2 flex-1">
-                   {/* Spacer if needed or more stats */}
+                    {url.expiresAt && (
+                      <p className="text-xs text-muted-foreground" data-testid="expires-at-display" suppressHydrationWarning>
+                        {url.expired ? 'Expired' : 'Expires'} {new Date(url.expiresAt).toLocaleString()}
+                      </p>
+                    )}
                   </CardContent>
                   <CardFooter className="pt-2 border-t bg-muted/20">
                     <div className="flex items-center justify-between w-full gap-2">
@@ -431,6 +829,31 @@ export default function Index({ loaderData }: Route.ComponentProps) {
                                <ExternalLink className="h-3 w-3" />
                             </a>
                           </Button>
+                          {!url.isDeleted && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              asChild
+                              title="View statistics"
+                            >
+                              <RouterLink to={`/links/${url.shortCode}`} data-testid="stats-link">
+                                <BarChart className="h-3 w-3" />
+                              </RouterLink>
+                            </Button>
+                          )}
+                          {!url.isDeleted && (
+                            <QrCodeButton shortUrl={baseUrl + url.shortCode} shortCode={url.shortCode} />
+                          )}
+                          {/* Links handed to other people who shortened the same URL can't be managed */}
+                          {managementSecrets[url.shortCode] && !url.sharedAt && (
+                            <ManageLinkActions
+                              shortCode={url.shortCode}
+                              originalUrl={url.originalUrl}
+                              isDeleted={url.isDeleted}
+                              managementSecret={managementSecrets[url.shortCode]}
+                            />
+                          )}
                        </div>
                     </div>
                   </CardFooter>
@@ -0,0 +1,278 @@
+import { Form, Link as RouterLink, useActionData, useLoaderData, useNavigation } from "react-router";
+import { ArrowLeft, Check, Copy, KeyRound, Loader2 } from "lucide-react";
+import type { Route } from "./+types/api-keys";
+import {
+  apiKeys,
+  createApiKeyUseCase,
+  revokeApiKeyUseCase,
+  API_KEY_SCOPES,
+  ValidationError,
+  NotFoundError,
+  isDatabaseError,
+  getErrorMessage,
+  getErrorCode,
+  type ApiKeyScope,
+} from "@url-shortener/engine";
+import { useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { requireAdmin } from "~/lib/admin-auth";
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "links:write": "Create short links",
+  "links:read": "Look up links",
+  "stats:read": "Read visit statistics",
+};
+
+export async function loader({ request }: Route.LoaderArgs) {
+  requireAdmin(request);
+
+  try {
+    const keys = await apiKeys.findAllWithUsage();
+
+    return {
+      scopes: API_KEY_SCOPES,
+      // Never send key hashes to the browser
+      keys: keys.map(({ keyHash, ...apiKey }) => apiKey),
+    };
+  } catch (error) {
+    console.error('API keys loader error:', error);
+
+    if (isDatabaseError(error)) {
+      return { scopes: API_KEY_SCOPES, keys: [], error: getErrorMessage(error), errorCode: getErrorCode(error) };
+    }
+
+    return { scopes: API_KEY_SCOPES, keys: [], error: 'Failed to load API keys. Please try again.' };
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  requireAdmin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "revoke") {
+      const id = (formData.get("id") as string | null) ?? "";
+      await revokeApiKeyUseCase.execute(id);
+      return { intent, ok: true };
+    }
+
+    const dailyQuotaValue = ((formData.get("dailyQuota") as string | null) ?? "").trim();
+    const { apiKey, key } = await createApiKeyUseCase.execute({
+      name: (formData.get("name") as string | null) ?? "",
+      scopes: formData.getAll("scopes").map(String),
+      dailyQuota: dailyQuotaValue ? Number(dailyQuotaValue) : null,
+    });
+
+    return { intent: "create", key, name: apiKey.name };
+  } catch (error) {
+    console.error('API keys action error:', error);
+
+    if (error instanceof ValidationError) {
+      return { intent, error: error.message, field: error.field };
+    }
+
+    if (error instanceof NotFoundError || isDatabaseError(error)) {
+      return { intent, error: getErrorMessage(error) };
+    }
+
+    return { intent, error: "Failed to update API keys. Please try again." };
+  }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "API Keys | URL Shortener" },
+    { name: "description", content: "Manage keys for the URL shortener API" },
+  ];
+}
+
+export default function ApiKeys() {
+  // Scopes come from the loader because route components can't import engine values
+  const { scopes, keys, error: loaderError } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [copied, setCopied] = useState(false);
+
+  const isCreating = navigation.state === "submitting" && navigation.formData?.get("intent") === "create";
+  const createdKey = actionData && "key" in actionData && actionData.key
+    ? { key: actionData.key, name: actionData.name }
+    : null;
+  const createError = actionData?.intent === "create" && "error" in actionData ? actionData.error : null;
+  const revokeError = actionData?.intent === "revoke" && "error" in actionData ? actionData.error : null;
+
+  const handleCopy = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans">
+      <div className="container mx-auto max-w-4xl py-12 space-y-8">
+        <div className="space-y-2">
+          <RouterLink to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back to shortener
+          </RouterLink>
+          <div className="flex items-center gap-2">
+            <div className="p-3 bg-primary/10 rounded-xl">
+              <KeyRound className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold tracking-tight">API Keys</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Keys authenticate requests to <code className="font-mono text-sm">/api/v1</code>. Send them as{" "}
+            <code className="font-mono text-sm">Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+        </div>
+
+        {loaderError && (
+          <Card className="border-destructive/50 bg-destructive/5" data-testid="error-alert">
+            <CardContent className="pt-6">
+              <p className="text-sm text-destructive" data-testid="error-message">{loaderError}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="shadow-lg border-muted">
+          <CardHeader>
+            <CardTitle>Create a key</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="space-y-4" data-testid="create-api-key-form">
+              <input type="hidden" name="intent" value="create" />
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" name="name" placeholder="CI pipeline" required data-testid="api-key-name-input" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dailyQuota">Daily link quota</Label>
+                  <Input
+                    id="dailyQuota"
+                    name="dailyQuota"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
+                    data-testid="api-key-quota-input"
+                  />
+                </div>
+              </div>
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">Scopes</legend>
+                {scopes.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" name="scopes" value={scope} defaultChecked={scope === "links:write"} />
+                    <code className="font-mono">{scope}</code>
+                    <span className="text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                  </label>
+                ))}
+              </fieldset>
+              {createError && (
+                <p className="text-sm text-destructive font-medium" data-testid="action-error">{createError}</p>
+              )}
+              <Button type="submit" disabled={isCreating} data-testid="create-api-key-button">
+                {isCreating ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  "Create key"
+                )}
+              </Button>
+            </Form>
+
+            {createdKey && (
+              <div className="mt-6 space-y-2 rounded-md border border-green-600/40 bg-green-600/5 p-4" data-testid="created-api-key">
+                <p className="text-sm font-medium">
+                  Key for "{createdKey.name}" created. Copy it now — it won't be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Input
+                    readOnly
+                    value={createdKey.key}
+                    className="bg-muted font-mono text-sm"
+                    onClick={(e) => e.currentTarget.select()}
+                    data-testid="created-api-key-input"
+                  />
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    type="button"
+                    title="Copy to clipboard"
+                    onClick={() => handleCopy(createdKey.key)}
+                  >
+                    {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4" data-testid="api-keys-section">
+          <h2 className="text-2xl font-semibold tracking-tight">Existing keys</h2>
+          {revokeError && (
+            <p className="text-sm text-destructive font-medium">{revokeError}</p>
+          )}
+          {keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No API keys yet.</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {keys.map((apiKey) => (
+                <Card key={apiKey.id} className={apiKey.revokedAt ? "opacity-60" : ""} data-testid={`api-key-${apiKey.id}`}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center justify-between text-base">
+                      <span>{apiKey.name}</span>
+                      {apiKey.revokedAt && (
+                        <span className="text-xs font-medium text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
+                          Revoked
+                        </span>
+                      )}
+                    </CardTitle>
+                    <CardDescription className="font-mono text-xs">{apiKey.prefix}…</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-xs text-muted-foreground" suppressHydrationWarning>
+                    <p>Scopes: <span className="font-mono">{apiKey.scopes.join(", ")}</span></p>
+                    <p>
+                      Links created: {apiKey.linkCount}
+                      {apiKey.dailyQuota != null && ` (quota ${apiKey.dailyQuota}/day)`}
+                    </p>
+                    <p>Created {apiKey.createdAt ? new Date(apiKey.createdAt).toLocaleString() : "—"}</p>
+                    <p>Last used {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "never"}</p>
+                    {!apiKey.revokedAt && (
+                      <Form method="post" className="pt-2">
+                        <input type="hidden" name="intent" value="revoke" />
+                        <input type="hidden" name="id" value={apiKey.id} />
+                        <Button type="submit" variant="destructive" size="sm" data-testid="revoke-api-key-button">
+                          Revoke
+                        </Button>
+                      </Form>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
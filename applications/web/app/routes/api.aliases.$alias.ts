@@ -0,0 +1,23 @@
+import type { Route } from "./+types/api.aliases.$alias";
+import {
+  checkAliasAvailabilityUseCase,
+  getErrorMessage,
+  getStatusCode,
+} from "@url-shortener/engine";
+
+/**
+ * Reports whether a custom alias can be used, so the form can give
+ * feedback before submitting
+ */
+export async function loader({ params }: Route.LoaderArgs) {
+  try {
+    const availability = await checkAliasAvailabilityUseCase.execute(params.alias);
+    return Response.json(availability);
+  } catch (error) {
+    console.error('Alias availability error:', error);
+    return Response.json(
+      { alias: params.alias, available: false, reason: getErrorMessage(error) },
+      { status: getStatusCode(error) }
+    );
+  }
+}
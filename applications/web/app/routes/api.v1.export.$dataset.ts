@@ -0,0 +1,22 @@
+import type { Route } from "./+types/api.v1.export.$dataset";
+import { NotFoundError } from "@url-shortener/engine";
+import { apiErrorResponse, authenticateRequest } from "~/lib/api";
+import { EXPORT_DATASETS, exportResponse, isExportDataset } from "~/lib/export";
+
+/**
+ * GET /api/v1/export/links and /api/v1/export/visits
+ * Streams the links created with the caller's key (links:read) or their raw visits (stats:read)
+ * Query: format (csv or ndjson); for visits also since and until
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  try {
+    if (!isExportDataset(params.dataset)) {
+      throw new NotFoundError("Unknown export");
+    }
+
+    const apiKey = await authenticateRequest(request, EXPORT_DATASETS[params.dataset]);
+    return await exportResponse(params.dataset, { apiKeyId: apiKey.id ?? "" }, new URL(request.url));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
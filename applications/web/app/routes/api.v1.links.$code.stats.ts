@@ -0,0 +1,28 @@
+import type { Route } from "./+types/api.v1.links.$code.stats";
+import { getLinkStatsUseCase, getVisitBreakdownUseCase } from "@url-shortener/engine";
+import { apiErrorResponse, authenticateRequest } from "~/lib/api";
+
+/**
+ * GET /api/v1/links/:code/stats
+ * Requires an API key with the stats:read scope; bot visits are left out unless ?includeBots=true
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  try {
+    await authenticateRequest(request, "stats:read");
+    const includeBots = new URL(request.url).searchParams.get("includeBots") === "true";
+    const { url, visitCount, uniqueVisitors } = await getLinkStatsUseCase.execute(params.code, { includeBots });
+    const breakdown = await getVisitBreakdownUseCase.execute(params.code, 10, { includeBots });
+
+    return Response.json({
+      code: url.shortCode,
+      visitCount,
+      uniqueVisitors,
+      maxClicks: url.maxClicks ?? null,
+      remainingClicks: url.maxClicks != null ? Math.max(url.maxClicks - visitCount, 0) : null,
+      importedClicks: url.importedClicks ?? null,
+      ...breakdown,
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
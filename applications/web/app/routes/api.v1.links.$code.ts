@@ -0,0 +1,20 @@
+import type { Route } from "./+types/api.v1.links.$code";
+import { getLinkStatsUseCase } from "@url-shortener/engine";
+import { apiErrorResponse, authenticateRequest, serializeLink } from "~/lib/api";
+
+/**
+ * GET /api/v1/links/:code
+ * Looks up a link without counting a visit
+ * Requires an API key with the links:read scope
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  try {
+    await authenticateRequest(request, "links:read");
+    const { url, visitCount } = await getLinkStatsUseCase.execute(params.code);
+    const origin = new URL(request.url).origin;
+
+    return Response.json(serializeLink(url, origin, visitCount));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
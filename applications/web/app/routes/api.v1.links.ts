@@ -0,0 +1,64 @@
+import type { Route } from "./+types/api.v1.links";
+import { shortenUrlUseCase, ValidationError, type RedirectStatus } from "@url-shortener/engine";
+import {
+  apiErrorResponse,
+  authenticateRequest,
+  methodNotAllowed,
+  optionalDate,
+  optionalNumber,
+  optionalString,
+  readJsonBody,
+  serializeLink,
+} from "~/lib/api";
+import { getClientIp } from "~/lib/client-ip";
+
+export async function loader() {
+  return methodNotAllowed(["POST"]);
+}
+
+/**
+ * POST /api/v1/links
+ * Requires an API key with the links:write scope
+ * Body: { url, alias?, expiresAt?, maxClicks?, password?, redirectStatus?, ogTitle?, ogDescription?, ogImage? }
+ */
+export async function action({ request, context }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return methodNotAllowed(["POST"]);
+  }
+
+  try {
+    const apiKey = await authenticateRequest(request, "links:write");
+    const body = await readJsonBody(request);
+    const url = optionalString(body, "url");
+    if (!url) {
+      throw new ValidationError("url is required", "url");
+    }
+
+    const created = await shortenUrlUseCase.execute(url, {
+      alias: optionalString(body, "alias"),
+      expiresAt: optionalDate(body, "expiresAt"),
+      maxClicks: optionalNumber(body, "maxClicks"),
+      password: optionalString(body, "password"),
+      redirectStatus: optionalNumber(body, "redirectStatus") as RedirectStatus | undefined,
+      ogTitle: optionalString(body, "ogTitle"),
+      ogDescription: optionalString(body, "ogDescription"),
+      ogImage: optionalString(body, "ogImage"),
+      apiKey,
+      clientKey: getClientIp(request, context),
+    });
+    const origin = new URL(request.url).origin;
+
+    // Existing links are returned as-is; only new ones carry a management secret
+    const isNew = created.managementSecret !== undefined;
+
+    return Response.json(
+      {
+        ...serializeLink(created, origin, 0),
+        ...(isNew ? { managementSecret: created.managementSecret } : {}),
+      },
+      { status: isNew ? 201 : 200 }
+    );
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
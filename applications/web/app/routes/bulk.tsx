@@ -0,0 +1,240 @@
+import { Form, Link as RouterLink, data, useActionData, useLoaderData, useNavigation } from "react-router";
+import { ArrowLeft, Download, Loader2, Upload } from "lucide-react";
+import type { Route } from "./+types/bulk";
+import {
+  bulkShortenUrlsUseCase,
+  parseCsvRecords,
+  parseTagList,
+  formatCsv,
+  ValidationError,
+  RateLimitError,
+  isDatabaseError,
+  getErrorMessage,
+  getErrorCode,
+  BULK_SHORTEN_MAX_ROWS,
+  type BulkShortenStatus,
+} from "@url-shortener/engine";
+
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { getClientIp } from "~/lib/client-ip";
+import { retryAfterHeaders } from "~/lib/rate-limit";
+
+const MAX_UPLOAD_BYTES = 1024 * 1024;
+
+const STATUS_LABELS: Record<BulkShortenStatus, string> = {
+  created: "Created",
+  existing: "Already shortened",
+  duplicate: "Repeated row",
+  failed: "Failed",
+};
+
+export function loader() {
+  return { maxRows: BULK_SHORTEN_MAX_ROWS };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Choose a CSV file to upload." };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { error: "The file is too large. Uploads are limited to 1 MB." };
+  }
+
+  const records = parseCsvRecords(await file.text());
+  if (records.length > 0 && !("url" in records[0])) {
+    return { error: 'The CSV needs a header row with a "url" column.' };
+  }
+
+  try {
+    const results = await bulkShortenUrlsUseCase.execute(
+      records.map((record) => ({
+        url: record.url.trim(),
+        alias: record.alias,
+        tags: parseTagList(record.tags),
+      })),
+      { clientKey: getClientIp(request, context) }
+    );
+    const origin = new URL(request.url).origin;
+
+    const rows = results.map((result) => ({
+      ...result,
+      shortUrl: result.shortCode ? `${origin}/s/${result.shortCode}` : undefined,
+    }));
+    const csv = formatCsv([
+      ["row", "url", "status", "short_url", "short_code", "management_secret", "error"],
+      ...rows.map((row) => [row.row, row.url, row.status, row.shortUrl, row.shortCode, row.managementSecret, row.error]),
+    ]);
+
+    return { results: rows, csv, fileName: file.name };
+  } catch (error) {
+    console.error('Bulk shorten action error:', error);
+
+    if (error instanceof ValidationError) {
+      return { error: error.message };
+    }
+
+    if (error instanceof RateLimitError) {
+      return data(
+        { error: error.message, errorCode: getErrorCode(error) },
+        { status: 429, headers: retryAfterHeaders(error) }
+      );
+    }
+
+    if (isDatabaseError(error)) {
+      return { error: getErrorMessage(error), errorCode: getErrorCode(error) };
+    }
+
+    return { error: "Failed to shorten the uploaded URLs. Please try again." };
+  }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Bulk Shorten | URL Shortener" },
+    { name: "description", content: "Shorten many URLs at once from a CSV file" },
+  ];
+}
+
+export default function BulkShorten() {
+  const { maxRows } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  const isUploading = navigation.state === "submitting";
+  const error = actionData && "error" in actionData ? actionData.error : null;
+  const report = actionData && "results" in actionData && actionData.results
+    ? { results: actionData.results, csv: actionData.csv ?? "", fileName: actionData.fileName ?? "upload.csv" }
+    : null;
+  const counts = report
+    ? report.results.reduce<Partial<Record<BulkShortenStatus, number>>>((acc, result) => {
+        acc[result.status] = (acc[result.status] ?? 0) + 1;
+        return acc;
+      }, {})
+    : {};
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans">
+      <div className="container mx-auto max-w-5xl py-12 space-y-8">
+        <div className="space-y-2">
+          <RouterLink to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back to shortener
+          </RouterLink>
+          <div className="flex items-center gap-2">
+            <div className="p-3 bg-primary/10 rounded-xl">
+              <Upload className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold tracking-tight">Bulk Shorten</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Upload a CSV with a <code className="font-mono text-sm">url</code> column and optional{" "}
+            <code className="font-mono text-sm">alias</code> and <code className="font-mono text-sm">tags</code>{" "}
+            columns. Up to {maxRows} rows per file.
+          </p>
+        </div>
+
+        <Card className="shadow-lg border-muted">
+          <CardHeader>
+            <CardTitle>Upload a CSV</CardTitle>
+            <CardDescription>
+              Separate several tags with commas or semicolons, e.g. <code className="font-mono">spring;email</code>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" encType="multipart/form-data" className="space-y-4" data-testid="bulk-upload-form">
+              <div className="space-y-2">
+                <Label htmlFor="file">CSV file</Label>
+                <Input id="file" name="file" type="file" accept=".csv,text/csv" required data-testid="bulk-file-input" />
+              </div>
+              {error && (
+                <p className="text-sm text-destructive font-medium" data-testid="action-error">{error}</p>
+              )}
+              <Button type="submit" disabled={isUploading} data-testid="bulk-upload-button">
+                {isUploading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Shortening...
+                  </>
+                ) : (
+                  "Shorten all"
+                )}
+              </Button>
+            </Form>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <div className="space-y-4" data-testid="bulk-results">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-2xl font-semibold tracking-tight">Results</h2>
+              <Button asChild variant="secondary">
+                <a
+                  href={`data:text/csv;charset=utf-8,${encodeURIComponent(report.csv)}`}
+                  download={`${report.fileName.replace(/\.csv$/i, "")}-results.csv`}
+                  data-testid="bulk-download-link"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download results CSV
+                </a>
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground" data-testid="bulk-summary">
+              {(Object.keys(STATUS_LABELS) as BulkShortenStatus[])
+                .filter((status) => counts[status])
+                .map((status) => `${STATUS_LABELS[status]}: ${counts[status]}`)
+                .join(" · ")}
+            </p>
+            {report.results.some((result) => result.managementSecret) && (
+              <p className="text-sm font-medium">
+                Download the results now — the management secrets for new links won't be shown again.
+              </p>
+            )}
+            <div className="overflow-x-auto rounded-md border bg-background">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">URL</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Short link</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.results.map((result) => (
+                    <tr key={result.row} className="border-t" data-testid={`bulk-row-${result.row}`}>
+                      <td className="px-3 py-2 text-muted-foreground">{result.row}</td>
+                      <td className="px-3 py-2 max-w-xs truncate" title={result.url}>{result.url}</td>
+                      <td className={`px-3 py-2 ${result.status === "failed" ? "text-destructive" : ""}`}>
+                        {STATUS_LABELS[result.status]}
+                        {result.error && <span className="block text-xs">{result.error}</span>}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs">
+                        {result.shortUrl ? (
+                          <a href={result.shortUrl} className="text-primary hover:underline">{result.shortUrl}</a>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
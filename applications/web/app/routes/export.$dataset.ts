@@ -0,0 +1,23 @@
+import type { Route } from "./+types/export.$dataset";
+import { parseShortCodeList, getErrorMessage, getStatusCode } from "@url-shortener/engine";
+import { exportResponse, isExportDataset } from "~/lib/export";
+
+/**
+ * GET /export/links and /export/visits
+ * Download for the links remembered by this browser, passed as ?shortCodes= like on the home page
+ * Query: format (csv or ndjson); for visits also since and until
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  if (!isExportDataset(params.dataset)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  try {
+    const url = new URL(request.url);
+    const shortCodes = parseShortCodeList(url.searchParams.get("shortCodes"));
+    return await exportResponse(params.dataset, { shortCodes }, url);
+  } catch (error) {
+    console.error('Export error:', error);
+    return new Response(getErrorMessage(error), { status: getStatusCode(error) });
+  }
+}
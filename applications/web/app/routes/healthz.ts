@@ -0,0 +1,16 @@
+import { checkComponent, healthReport } from "@url-shortener/engine";
+
+/**
+ * GET /healthz
+ * Liveness: answers as long as the server process is responsive. The database is not checked,
+ * so an outage doesn't get every instance restarted; see /readyz for that.
+ */
+export async function loader() {
+  // A turn of the event loop; if it's blocked, this request doesn't get answered at all
+  const eventLoop = await checkComponent(() => new Promise((resolve) => setImmediate(resolve)));
+
+  return Response.json(
+    { ...healthReport({ eventLoop }), uptimeSeconds: Math.round(process.uptime()) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,272 @@
+import { Form, Link as RouterLink, data, useActionData, useNavigation } from "react-router";
+import { ArrowLeft, Download, FileInput, Loader2 } from "lucide-react";
+import type { Route } from "./+types/import";
+import {
+  importLinksUseCase,
+  parseImportFile,
+  formatCsv,
+  ValidationError,
+  RateLimitError,
+  isDatabaseError,
+  getErrorMessage,
+  getErrorCode,
+  type ImportStatus,
+} from "@url-shortener/engine";
+
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { requireAdmin } from "~/lib/admin-auth";
+import { getClientIp } from "~/lib/client-ip";
+import { retryAfterHeaders } from "~/lib/rate-limit";
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const MAX_LISTED_PROBLEMS = 100;
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  imported: "Imported",
+  existing: "Already imported",
+  conflict: "Code taken",
+  failed: "Invalid",
+};
+
+export async function loader({ request }: Route.LoaderArgs) {
+  requireAdmin(request);
+  return null;
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  requireAdmin(request);
+
+  // Counted before the upload is read, so a client over its limit can't make the server buffer more files
+  try {
+    await importLinksUseCase.enforceRateLimit(getClientIp(request, context));
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return data(
+        { error: error.message, errorCode: getErrorCode(error) },
+        { status: 429, headers: retryAfterHeaders(error) }
+      );
+    }
+    throw error;
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+  const dryRun = formData.get("dryRun") === "on";
+
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Choose an export file to upload." };
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { error: "The file is too large. Uploads are limited to 10 MB; use the import script for larger files." };
+  }
+
+  try {
+    const records = parseImportFile(await file.text());
+    if (records.length === 0) {
+      return { error: "The file has no links in it." };
+    }
+
+    const results = await importLinksUseCase.execute(records, {
+      importClicks: formData.get("importClicks") === "on",
+      dryRun,
+    });
+    const csv = formatCsv([
+      ["row", "code", "url", "status", "error"],
+      ...results.map((result) => [result.row, result.code, result.url, result.status, result.error]),
+    ]);
+
+    const problems = results.filter((result) => result.status === "conflict" || result.status === "failed");
+
+    return {
+      dryRun,
+      counts: countByStatus(results.map((result) => result.status)),
+      // Only the first rows that need attention are listed on the page; the CSV has all of them
+      problems: problems.slice(0, MAX_LISTED_PROBLEMS),
+      unlistedProblems: Math.max(problems.length - MAX_LISTED_PROBLEMS, 0),
+      csv,
+      fileName: file.name,
+    };
+  } catch (error) {
+    console.error('Import action error:', error);
+
+    if (error instanceof ValidationError) {
+      return { error: error.message };
+    }
+
+    if (isDatabaseError(error)) {
+      return { error: getErrorMessage(error), errorCode: getErrorCode(error) };
+    }
+
+    return { error: "Failed to import links. Please try again." };
+  }
+}
+
+function countByStatus(statuses: ImportStatus[]): Record<ImportStatus, number> {
+  const counts: Record<ImportStatus, number> = { imported: 0, existing: 0, conflict: 0, failed: 0 };
+  for (const status of statuses) {
+    counts[status]++;
+  }
+  return counts;
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Import Links | URL Shortener" },
+    { name: "description", content: "Import links exported from another URL shortener" },
+  ];
+}
+
+export default function ImportLinks() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  const isUploading = navigation.state === "submitting";
+  const error = actionData && "error" in actionData ? actionData.error : null;
+  const report = actionData && "counts" in actionData && actionData.counts
+    ? {
+        counts: actionData.counts,
+        problems: actionData.problems ?? [],
+        unlistedProblems: actionData.unlistedProblems ?? 0,
+        csv: actionData.csv ?? "",
+        fileName: actionData.fileName ?? "import",
+        dryRun: actionData.dryRun ?? false,
+      }
+    : null;
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans">
+      <div className="container mx-auto max-w-5xl py-12 space-y-8">
+        <div className="space-y-2">
+          <RouterLink to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back to shortener
+          </RouterLink>
+          <div className="flex items-center gap-2">
+            <div className="p-3 bg-primary/10 rounded-xl">
+              <FileInput className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold tracking-tight">Import Links</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Move links from another shortener and keep their short codes. Upload a Bitly-style CSV export, a JSON
+            array or NDJSON with <code className="font-mono text-sm">code</code>,{" "}
+            <code className="font-mono text-sm">url</code> and optionally{" "}
+            <code className="font-mono text-sm">created_at</code>, <code className="font-mono text-sm">clicks</code> and{" "}
+            <code className="font-mono text-sm">tags</code>.
+          </p>
+        </div>
+
+        <Card className="shadow-lg border-muted">
+          <CardHeader>
+            <CardTitle>Upload an export</CardTitle>
+            <CardDescription>
+              Codes that are already taken here are reported and skipped, so importing the same file twice is safe.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" encType="multipart/form-data" className="space-y-4" data-testid="import-form">
+              <div className="space-y-2">
+                <Label htmlFor="file">Export file</Label>
+                <Input
+                  id="file"
+                  name="file"
+                  type="file"
+                  accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json"
+                  required
+                  data-testid="import-file-input"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="importClicks" data-testid="import-clicks-checkbox" />
+                Keep click counts from the previous shortener
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" name="dryRun" data-testid="import-dry-run-checkbox" />
+                Dry run: check the file without importing anything
+              </label>
+              {error && (
+                <p className="text-sm text-destructive font-medium" data-testid="action-error">{error}</p>
+              )}
+              <Button type="submit" disabled={isUploading} data-testid="import-button">
+                {isUploading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  "Import"
+                )}
+              </Button>
+            </Form>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <div className="space-y-4" data-testid="import-results">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-2xl font-semibold tracking-tight">
+                {report.dryRun ? "Dry run results" : "Results"}
+              </h2>
+              <Button asChild variant="secondary">
+                <a
+                  href={`data:text/csv;charset=utf-8,${encodeURIComponent(report.csv)}`}
+                  download={`${report.fileName.replace(/\.[^.]+$/, "")}-import-report.csv`}
+                  data-testid="import-report-link"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download report CSV
+                </a>
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground" data-testid="import-summary">
+              {(Object.keys(STATUS_LABELS) as ImportStatus[])
+                .map((status) => `${STATUS_LABELS[status]}: ${report.counts[status]}`)
+                .join(" · ")}
+            </p>
+            {report.problems.length > 0 && (
+              <div className="overflow-x-auto rounded-md border bg-background">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-left">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Code</th>
+                      <th className="px-3 py-2 font-medium">URL</th>
+                      <th className="px-3 py-2 font-medium">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.problems.map((problem) => (
+                      <tr key={problem.row} className="border-t" data-testid={`import-row-${problem.row}`}>
+                        <td className="px-3 py-2 text-muted-foreground">{problem.row}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{problem.code || "—"}</td>
+                        <td className="px-3 py-2 max-w-xs truncate" title={problem.url}>{problem.url}</td>
+                        <td className="px-3 py-2 text-destructive">
+                          {STATUS_LABELS[problem.status]}
+                          {problem.error && <span className="block text-xs">{problem.error}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {report.unlistedProblems > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {report.unlistedProblems} more rows need attention; see the report CSV.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
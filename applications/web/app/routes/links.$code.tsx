@@ -0,0 +1,338 @@
+import { Link as RouterLink, isRouteErrorResponse } from "react-router";
+import { ArrowLeft, BarChart, Lock } from "lucide-react";
+import type { Route } from "./+types/links.$code";
+import {
+  getLinkStatsUseCase,
+  getVisitTimeSeriesUseCase,
+  getVisitBreakdownUseCase,
+  isTimeBucket,
+  NotFoundError,
+  isDatabaseError,
+  getErrorMessage,
+  getErrorCode,
+  type TimeBucket,
+  type BreakdownEntry,
+} from "@url-shortener/engine";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+
+const BUCKET_LABELS: Record<TimeBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+};
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { code } = params;
+  const searchParams = new URL(request.url).searchParams;
+  const requestedBucket = searchParams.get("bucket");
+  const bucket: TimeBucket = requestedBucket && isTimeBucket(requestedBucket) ? requestedBucket : "day";
+  const includeBots = searchParams.get("bots") === "include";
+
+  try {
+    const { url, visitCount, uniqueVisitors } = await getLinkStatsUseCase.execute(code, { includeBots });
+    const [timeSeries, breakdown] = await Promise.all([
+      getVisitTimeSeriesUseCase.execute(code, bucket, { includeBots }),
+      getVisitBreakdownUseCase.execute(code, 10, { includeBots }),
+    ]);
+    const isProtected = url.passwordHash != null;
+
+    return {
+      code: url.shortCode,
+      // Anyone with the code can open this page, so protected destinations stay hidden
+      originalUrl: isProtected ? null : url.originalUrl,
+      isProtected,
+      createdAt: url.createdAt,
+      maxClicks: url.maxClicks ?? null,
+      importedClicks: url.importedClicks ?? null,
+      visitCount,
+      uniqueVisitors,
+      includeBots,
+      ...timeSeries,
+      ...breakdown,
+    };
+  } catch (error) {
+    console.error('Link stats loader error:', error);
+
+    if (error instanceof NotFoundError) {
+      throw new Response("Short URL not found", { status: 404, statusText: "Not Found" });
+    }
+
+    if (isDatabaseError(error)) {
+      const status = getErrorCode(error) === 'DATABASE_TIMEOUT_ERROR' ? 504 : 503;
+      throw new Response(getErrorMessage(error), { status });
+    }
+
+    throw new Response("Failed to load statistics. Please try again.", { status: 500 });
+  }
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  return [
+    { title: `Statistics for ${params.code} | URL Shortener` },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+function statsSearch(bucket: TimeBucket, includeBots: boolean): string {
+  return includeBots ? `?bucket=${bucket}&bots=include` : `?bucket=${bucket}`;
+}
+
+function formatBucketStart(value: Date | string, bucket: TimeBucket): string {
+  const date = new Date(value);
+
+  if (bucket === "hour") {
+    return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  }
+
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function BreakdownList({
+  title,
+  entries,
+  emptyLabel,
+  testId,
+}: {
+  title: string;
+  entries: BreakdownEntry[];
+  emptyLabel: string;
+  testId: string;
+}) {
+  const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No visits yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.value ?? ""} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{entry.value ?? emptyLabel}</span>
+                  <span className="text-muted-foreground tabular-nums">{entry.count}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted">
+                  <div
+                    className="h-1.5 rounded-full bg-primary"
+                    style={{ width: `${total > 0 ? (entry.count / total) * 100 : 0}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LinkStats({ loaderData }: Route.ComponentProps) {
+  const {
+    code,
+    originalUrl,
+    isProtected,
+    createdAt,
+    maxClicks,
+    importedClicks,
+    visitCount,
+    uniqueVisitors,
+    includeBots,
+    bucket,
+    points,
+    firstVisitAt,
+    lastVisitAt,
+    referrers,
+    devices,
+    browsers,
+    operatingSystems,
+  } = loaderData;
+  const peak = Math.max(1, ...points.map((point) => point.count));
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans">
+      <div className="container mx-auto max-w-4xl py-12 space-y-8">
+        <div className="space-y-2">
+          <RouterLink to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back to shortener
+          </RouterLink>
+          <div className="flex items-center gap-2">
+            <div className="p-3 bg-primary/10 rounded-xl">
+              <BarChart className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-3xl font-bold tracking-tight">
+              Statistics for <span className="font-mono text-primary">{code}</span>
+            </h1>
+          </div>
+          {isProtected ? (
+            <p className="flex items-center gap-1 text-muted-foreground" data-testid="stats-destination">
+              <Lock className="w-4 h-4" />
+              Password protected link
+            </p>
+          ) : (
+            <p className="text-muted-foreground truncate" title={originalUrl ?? undefined} data-testid="stats-destination">
+              {originalUrl}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground" data-testid="bot-filter">
+          <span>
+            {includeBots
+              ? "Showing all visits, including crawlers and link previews."
+              : "Crawlers and link-preview fetchers are not counted."}
+          </span>
+          <RouterLink
+            to={statsSearch(bucket, !includeBots)}
+            preventScrollReset
+            className="font-medium text-primary underline-offset-4 hover:underline"
+            data-testid="bot-filter-toggle"
+          >
+            {includeBots ? "Hide bots" : "Include bots"}
+          </RouterLink>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4" suppressHydrationWarning>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total clicks</CardDescription>
+              <CardTitle className="text-2xl" data-testid="stats-total">
+                {maxClicks != null && !includeBots ? `${visitCount}/${maxClicks}` : visitCount}
+              </CardTitle>
+              <p className="text-xs text-muted-foreground" data-testid="stats-unique-visitors">
+                {uniqueVisitors} unique {uniqueVisitors === 1 ? "visitor" : "visitors"}
+              </p>
+              {importedClicks != null && (
+                <p className="text-xs text-muted-foreground" data-testid="stats-imported-clicks">
+                  plus {importedClicks} counted before the link was imported
+                </p>
+              )}
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Created</CardDescription>
+              <CardTitle className="text-sm" suppressHydrationWarning>
+                {createdAt ? new Date(createdAt).toLocaleString() : "—"}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>First click</CardDescription>
+              <CardTitle className="text-sm" data-testid="stats-first-click" suppressHydrationWarning>
+                {firstVisitAt ? new Date(firstVisitAt).toLocaleString() : "Never"}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Last click</CardDescription>
+              <CardTitle className="text-sm" data-testid="stats-last-click" suppressHydrationWarning>
+                {lastVisitAt ? new Date(lastVisitAt).toLocaleString() : "Never"}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card className="shadow-lg border-muted" data-testid="stats-time-series">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-base">
+              <span>Clicks over time</span>
+              <nav className="flex gap-1 text-sm font-normal" aria-label="Time bucket">
+                {(Object.keys(BUCKET_LABELS) as TimeBucket[]).map((option) => (
+                  <RouterLink
+                    key={option}
+                    to={statsSearch(option, includeBots)}
+                    preventScrollReset
+                    aria-current={option === bucket ? "page" : undefined}
+                    className={`px-2 py-0.5 rounded-md ${option === bucket ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-muted"}`}
+                    data-testid={`bucket-${option}`}
+                  >
+                    {BUCKET_LABELS[option]}
+                  </RouterLink>
+                ))}
+              </nav>
+            </CardTitle>
+            <CardDescription>
+              {`Last ${points.length} ${bucket}s, in UTC`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex h-40 items-end gap-px" role="img" aria-label={`${BUCKET_LABELS[bucket]} clicks`}>
+              {points.map((point) => (
+                <div
+                  key={new Date(point.start).toISOString()}
+                  className="relative flex-1 rounded-t-sm bg-primary/30 hover:bg-primary/40 min-h-px"
+                  style={{ height: `${(point.count / peak) * 100}%` }}
+                  title={`${formatBucketStart(point.start, bucket)}: ${point.count} clicks, ${point.uniqueVisitors} unique visitors`}
+                  suppressHydrationWarning
+                >
+                  <div
+                    className="absolute inset-x-0 bottom-0 rounded-t-sm bg-primary"
+                    style={{ height: `${point.count > 0 ? (point.uniqueVisitors / point.count) * 100 : 0}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="mt-2 flex gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-primary/30" /> Clicks
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-primary" /> Unique visitors
+              </span>
+            </div>
+            {points.length > 0 && (
+              <div className="mt-2 flex justify-between text-xs text-muted-foreground" suppressHydrationWarning>
+                <span>{formatBucketStart(points[0].start, bucket)}</span>
+                <span>{formatBucketStart(points[points.length - 1].start, bucket)}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <BreakdownList title="Referrers" entries={referrers} emptyLabel="Direct / unknown" testId="stats-referrers" />
+          <BreakdownList title="Devices" entries={devices} emptyLabel="Unknown" testId="stats-devices" />
+          <BreakdownList title="Browsers" entries={browsers} emptyLabel="Unknown" testId="stats-browsers" />
+          <BreakdownList title="Operating systems" entries={operatingSystems} emptyLabel="Unknown" testId="stats-operating-systems" />
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  let title = "Something went wrong";
+  let details = "An unexpected error occurred.";
+
+  if (isRouteErrorResponse(error)) {
+    title = error.status === 404 ? "Link not found" : "Statistics unavailable";
+    details = typeof error.data === "string" ? error.data : error.statusText || details;
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans flex items-center justify-center" data-testid="stats-error">
+      <div className="text-center space-y-4 max-w-md">
+        <h1 className="text-3xl font-bold tracking-tight">{title}</h1>
+        <p className="text-muted-foreground">{details}</p>
+        <a href="/" className="inline-block text-sm font-medium text-primary underline-offset-4 hover:underline">
+          Back to shortener
+        </a>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,21 @@
+import type { Route } from "./+types/metrics";
+import { metrics, PROMETHEUS_CONTENT_TYPE } from "@url-shortener/engine";
+
+/**
+ * GET /metrics
+ * Prometheus scrape endpoint. Values are kept per process, so scrape every instance.
+ * When METRICS_TOKEN is set, scrapers must send it as a bearer token.
+ */
+export function loader({ request }: Route.LoaderArgs) {
+  const token = process.env.METRICS_TOKEN;
+  if (token && request.headers.get("Authorization") !== `Bearer ${token}`) {
+    return new Response("Unauthorized\n", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="metrics"' },
+    });
+  }
+
+  return new Response(metrics.render(), {
+    headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE, "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,133 @@
+import { isRouteErrorResponse } from "react-router";
+import { Clock, ExternalLink, Lock, ShieldCheck } from "lucide-react";
+import type { Route } from "./+types/p.$code";
+import {
+  getLinkPreviewUseCase,
+  NotFoundError,
+  isDatabaseError,
+  getErrorMessage,
+  getErrorCode,
+} from "@url-shortener/engine";
+
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+
+/**
+ * GET /p/:code (also reached as /s/:code+)
+ * Shows where a link goes without redirecting or counting a visit
+ */
+export async function loader({ params }: Route.LoaderArgs) {
+  try {
+    return await getLinkPreviewUseCase.execute(params.code);
+  } catch (error) {
+    console.error('Link preview loader error:', error);
+
+    if (error instanceof NotFoundError) {
+      throw new Response("Short URL not found", { status: 404, statusText: "Not Found" });
+    }
+
+    if (isDatabaseError(error)) {
+      const status = getErrorCode(error) === 'DATABASE_TIMEOUT_ERROR' ? 504 : 503;
+      throw new Response(getErrorMessage(error), { status });
+    }
+
+    throw new Response("Failed to load the link preview. Please try again.", { status: 500 });
+  }
+}
+
+export function meta({ params }: Route.MetaArgs) {
+  return [
+    { title: `Preview of ${params.code} | URL Shortener` },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export default function LinkPreview({ loaderData }: Route.ComponentProps) {
+  const { shortCode, originalUrl, domain, createdAt, visitCount, isProtected, expirationReason } = loaderData;
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans flex items-center justify-center">
+      <Card className="w-full max-w-lg shadow-lg border-muted" data-testid="preview-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            Where does this link go?
+          </CardTitle>
+          <CardDescription>
+            You haven't been redirected yet. Check where <span className="font-mono">/s/{shortCode}</span> leads before you continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isProtected ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="preview-destination">
+              <Lock className="w-4 h-4" />
+              This link is password protected. Its destination is shown after unlocking.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-lg font-semibold" data-testid="preview-domain">{domain}</p>
+              <p className="text-sm text-muted-foreground break-all" data-testid="preview-destination">
+                {originalUrl}
+              </p>
+            </div>
+          )}
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            <dt className="text-muted-foreground">Created</dt>
+            <dd data-testid="preview-created-at" suppressHydrationWarning>
+              {createdAt ? new Date(createdAt).toLocaleDateString() : "Unknown"}
+            </dd>
+            <dt className="text-muted-foreground">Clicks</dt>
+            <dd className="tabular-nums" data-testid="preview-visit-count">{visitCount}</dd>
+          </dl>
+          {expirationReason && (
+            <p className="flex items-center gap-2 text-sm text-destructive font-medium" data-testid="preview-expired">
+              <Clock className="w-4 h-4" />
+              {expirationReason === "exhausted"
+                ? "This link has reached its click limit and no longer redirects."
+                : "This link has expired and no longer redirects."}
+            </p>
+          )}
+        </CardContent>
+        {!expirationReason && (
+          <CardFooter>
+            <Button asChild className="w-full" data-testid="preview-continue">
+              <a href={`/s/${shortCode}`} rel="noreferrer">
+                Continue to {isProtected ? "link" : domain}
+                <ExternalLink className="ml-2 h-4 w-4" />
+              </a>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </main>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  let title = "Something went wrong";
+  let details = "An unexpected error occurred.";
+
+  if (isRouteErrorResponse(error)) {
+    title = error.status === 404 ? "Link not found" : "Preview unavailable";
+    details = typeof error.data === "string" ? error.data : error.statusText || details;
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans flex items-center justify-center" data-testid="preview-error">
+      <div className="text-center space-y-4 max-w-md">
+        <h1 className="text-3xl font-bold tracking-tight">{title}</h1>
+        <p className="text-muted-foreground">{details}</p>
+        <a href="/" className="inline-block text-sm font-medium text-primary underline-offset-4 hover:underline">
+          Create your own short link
+        </a>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,18 @@
+import { databaseHealth } from "@url-shortener/engine";
+
+/** Checks slower than this count as failing, so a stuck database doesn't stall the probe */
+const READINESS_TIMEOUT_MS = 2000;
+
+/**
+ * GET /readyz
+ * Readiness: the database answers within the timeout and its schema is applied.
+ * 200 when every component is ok, 503 otherwise, with each component's status and latency.
+ */
+export async function loader() {
+  const report = await databaseHealth.readiness(READINESS_TIMEOUT_MS);
+
+  return Response.json(report, {
+    status: report.status === "ok" ? 200 : 503,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
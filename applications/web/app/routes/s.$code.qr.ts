@@ -0,0 +1,68 @@
+import type { Route } from "./+types/s.$code.qr";
+import {
+  generateQrCodeUseCase,
+  isQrCodeFormat,
+  getErrorMessage,
+  getStatusCode,
+  type QrCodeOptions,
+  type QrErrorCorrectionLevel,
+} from "@url-shortener/engine";
+
+/**
+ * GET /s/:code/qr.svg and /s/:code/qr.png
+ * Query: ec (L, M, Q, H), size (pixels), margin (modules), dark and light (hex colors, # optional), download
+ * Serving the image doesn't count a visit
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  const format = url.pathname.slice(url.pathname.lastIndexOf(".") + 1);
+
+  if (!isQrCodeFormat(format)) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  try {
+    const qr = await generateQrCodeUseCase.execute(
+      params.code,
+      `${url.origin}/s/${params.code}`,
+      format,
+      qrCodeOptions(url.searchParams)
+    );
+
+    const headers = new Headers({
+      "Content-Type": qr.contentType,
+      // The image depends only on the short URL and options; a deleted link drops out once this runs out
+      "Cache-Control": "public, max-age=3600",
+    });
+    if (url.searchParams.has("download")) {
+      headers.set("Content-Disposition", `attachment; filename="${params.code}-qr.${format}"`);
+    }
+
+    return new Response(qr.body, { headers });
+  } catch (error) {
+    return new Response(getErrorMessage(error), { status: getStatusCode(error) });
+  }
+}
+
+/**
+ * Read rendering options from the query string; the engine validates them
+ */
+function qrCodeOptions(searchParams: URLSearchParams): QrCodeOptions {
+  const number = (name: string) => {
+    const value = searchParams.get(name);
+    return value ? Number(value) : undefined;
+  };
+  const color = (name: string) => {
+    const value = searchParams.get(name);
+    // "#" has to be escaped in URLs, so it may be left out
+    return value ? (value.startsWith("#") ? value : `#${value}`) : undefined;
+  };
+
+  return {
+    errorCorrectionLevel: (searchParams.get("ec")?.toUpperCase() || undefined) as QrErrorCorrectionLevel | undefined,
+    size: number("size"),
+    margin: number("margin"),
+    darkColor: color("dark"),
+    lightColor: color("light"),
+  };
+}
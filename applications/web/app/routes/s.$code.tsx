@@ -1,64 +1,275 @@
-import { redirect } from "react-router";
+import { Form, data, redirect, isRouteErrorResponse, useNavigation, type AppLoadContext } from "react-router";
+import { Clock, Lock, Loader2 } from "lucide-react";
 import type { Route } from "./+types/s.$code";
 import { 
   getOriginalUrlUseCase,
+  LinkExpiredError,
+  PasswordRequiredError,
+  InvalidPasswordError,
+  RateLimitError,
   isDatabaseError,
   getErrorMessage,
   getErrorCode,
+  isBotUserAgent,
 } from "@url-shortener/engine";
 
-export async function loader({ params, request }: Route.LoaderArgs) {
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { getClientIp } from "~/lib/client-ip";
+import { redirectTo } from "~/lib/link-redirect";
+import { retryAfterHeaders } from "~/lib/rate-limit";
+import { socialCardHtml } from "~/lib/social-card";
+
+export async function loader({ params, request, context }: Route.LoaderArgs) {
   const { code } = params;
 
+  // A trailing "+" asks for the preview page instead of the redirect
+  if (code.endsWith("+")) {
+    return redirect(`/p/${encodeURIComponent(code.slice(0, -1))}`);
+  }
+
   try {
-    const url = await getOriginalUrlUseCase.execute(
-      code, 
-      request.headers.get("user-agent") || undefined
-    );
+    const link = await getOriginalUrlUseCase.resolve(code, visitOptions(request, context));
 
-    if (!url) {
+    if (!link) {
       throw new Response("Short URL not found", { 
         status: 404,
         statusText: "Not Found" 
       });
     }
 
-    return redirect(url);
+    // Chat apps and social networks unfurl the link from the card instead of following the redirect
+    if (link.socialCard && isBotUserAgent(request.headers.get("user-agent"))) {
+      const shortUrl = `${new URL(request.url).origin}/s/${code}`;
+      return new Response(socialCardHtml(link.socialCard, shortUrl, link.originalUrl), {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": link.cacheControl,
+          "Vary": "User-Agent",
+        },
+      });
+    }
+
+    return redirectTo(link, request);
   } catch (error) {
-    // If it's already a Response (404), rethrow it
-    if (error instanceof Response) {
-      throw error;
+    // Protected links render the unlock form instead of redirecting
+    if (error instanceof PasswordRequiredError) {
+      return { code };
     }
 
-    // Handle database errors
-    if (isDatabaseError(error)) {
-      const message = getErrorMessage(error);
-      const code = getErrorCode(error);
-      
-      if (code === 'DATABASE_CONNECTION_ERROR') {
-        throw new Response(
-          "Database is currently unavailable. Please try again later.", 
-          { status: 503, statusText: "Service Unavailable" }
-        );
-      }
-      
-      if (code === 'DATABASE_TIMEOUT_ERROR') {
-        throw new Response(
-          "Request timed out. Please try again.", 
-          { status: 504, statusText: "Gateway Timeout" }
-        );
-      }
-      
-      throw new Response(message, { 
-        status: 500, 
-        statusText: "Internal Server Error" 
+    throw toErrorResponse(error);
+  }
+}
+
+export async function action({ params, request, context }: Route.ActionArgs) {
+  const { code } = params;
+  const formData = await request.formData();
+  const password = (formData.get("password") as string | null) ?? "";
+
+  if (!password) {
+    return { error: "Please enter the password" };
+  }
+
+  try {
+    const link = await getOriginalUrlUseCase.resolve(code, {
+      ...visitOptions(request, context),
+      password,
+      clientKey: getClientIp(request, context),
+    });
+
+    if (!link) {
+      throw new Response("Short URL not found", { 
+        status: 404,
+        statusText: "Not Found" 
       });
     }
 
-    // Generic error
-    throw new Response("An error occurred while processing your request", { 
-      status: 500,
+    return redirectTo(link, request);
+  } catch (error) {
+    if (error instanceof InvalidPasswordError) {
+      return data({ error: "Incorrect password. Please try again." }, { status: 403 });
+    }
+
+    if (error instanceof RateLimitError) {
+      return data(
+        { error: error.message },
+        { status: 429, headers: retryAfterHeaders(error) }
+      );
+    }
+
+    throw toErrorResponse(error);
+  }
+}
+
+/**
+ * Request details the engine records with a visit and uses to spot bots
+ */
+function visitOptions(request: Request, context: AppLoadContext) {
+  const { headers } = request;
+  const clientIp = getClientIp(request, context);
+
+  return {
+    userAgent: headers.get("user-agent") || undefined,
+    referrer: headers.get("referer") || undefined,
+    method: request.method,
+    purpose: headers.get("sec-purpose") || headers.get("purpose") || headers.get("x-purpose") || undefined,
+    // Hashed by the engine with a daily salt; the IP itself is never stored
+    clientIp: clientIp !== "unknown" ? clientIp : undefined,
+  };
+}
+
+/**
+ * Convert errors raised while resolving a link into HTTP responses
+ */
+function toErrorResponse(error: unknown): Response {
+  // If it's already a Response (404), rethrow it
+  if (error instanceof Response) {
+    return error;
+  }
+
+  // Expired or exhausted links are gone for good, not missing
+  if (error instanceof LinkExpiredError) {
+    return new Response(error.message, {
+      status: 410,
+      statusText: "Gone",
+    });
+  }
+
+  // Handle database errors
+  if (isDatabaseError(error)) {
+    const message = getErrorMessage(error);
+    const code = getErrorCode(error);
+    
+    if (code === 'DATABASE_CONNECTION_ERROR') {
+      return new Response(
+        "Database is currently unavailable. Please try again later.", 
+        { status: 503, statusText: "Service Unavailable" }
+      );
+    }
+    
+    if (code === 'DATABASE_TIMEOUT_ERROR') {
+      return new Response(
+        "Request timed out. Please try again.", 
+        { status: 504, statusText: "Gateway Timeout" }
+      );
+    }
+    
+    return new Response(message, { 
+      status: 500, 
       statusText: "Internal Server Error" 
     });
   }
+
+  // Generic error
+  return new Response("An error occurred while processing your request", { 
+    status: 500,
+    statusText: "Internal Server Error" 
+  });
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Protected link | URL Shortener" },
+    { name: "robots", content: "noindex" },
+  ];
+}
+
+export default function UnlockLink({ loaderData, actionData }: Route.ComponentProps) {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans flex items-center justify-center">
+      <Card className="w-full max-w-md shadow-lg border-muted" data-testid="unlock-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5 text-primary" />
+            This link is password protected
+          </CardTitle>
+          <CardDescription>
+            Enter the password for <span className="font-mono">/s/{loaderData.code}</span> to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form method="post" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="off"
+                autoFocus
+                required
+                data-testid="unlock-password-input"
+                aria-invalid={actionData?.error ? true : undefined}
+                aria-describedby={actionData?.error ? "unlock-error" : undefined}
+              />
+              {actionData?.error && (
+                <p id="unlock-error" className="text-sm text-destructive font-medium" data-testid="unlock-error">
+                  {actionData.error}
+                </p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting} data-testid="unlock-button">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Unlocking...
+                </>
+              ) : (
+                "Unlock"
+              )}
+            </Button>
+          </Form>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  let title = "Oops!";
+  let details = "An unexpected error occurred.";
+
+  if (isRouteErrorResponse(error)) {
+    if (error.status === 410) {
+      // Expired or exhausted links get a dedicated page
+      title = "Link no longer available";
+      details = typeof error.data === "string" ? error.data : "This link has expired.";
+    } else if (error.status === 404) {
+      title = "404";
+      details = "The requested page could not be found.";
+    } else {
+      title = "Error";
+      details = typeof error.data === "string" ? error.data : error.statusText || details;
+    }
+  }
+
+  const isGone = isRouteErrorResponse(error) && error.status === 410;
+
+  return (
+    <main className="min-h-screen bg-gray-50/50 p-4 dark:bg-gray-900 font-sans flex items-center justify-center" data-testid={isGone ? "link-gone" : "link-error"}>
+      <div className="text-center space-y-4 max-w-md">
+        {isGone && (
+          <div className="mx-auto w-fit p-3 bg-muted rounded-xl">
+            <Clock className="w-8 h-8 text-muted-foreground" />
+          </div>
+        )}
+        <h1 className="text-3xl font-bold tracking-tight">{title}</h1>
+        <p className="text-muted-foreground">{details}</p>
+        <a href="/" className="inline-block text-sm font-medium text-primary underline-offset-4 hover:underline">
+          Create your own short link
+        </a>
+      </div>
+    </main>
+  );
 }
@@ -70,8 +70,11 @@ test.describe('URL Shortener', () => {
     // Go back to the shortener and check visit count
     await page.goto('/');
     
-    // Wait for the links to load from localStorage and show the updated visit count
-    await expect(page.locator('[data-testid="visit-count"]')).toContainText('1 visits');
+    // Visits are buffered and written up to a second later, so reload until the count catches up
+    await expect(async () => {
+      await page.reload();
+      await expect(page.locator('[data-testid="visit-count"]')).toContainText('1 visits', { timeout: 1000 });
+    }).toPass({ timeout: 10000 });
   });
 
   test('should clear "Your Recent Links" when local storage is cleared', async ({ page }) => {
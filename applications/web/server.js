@@ -0,0 +1,45 @@
+/**
+ * Production server
+ *
+ * Serves the React Router build like react-router-serve, and also hands route handlers the
+ * address of the connection's peer, which is what rate limits key on unless TRUST_PROXY says
+ * there are proxies in front of the app (see app/lib/client-ip.ts).
+ */
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { createRequestHandler } from "@react-router/express";
+import compression from "compression";
+import express from "express";
+import morgan from "morgan";
+
+const BUILD_PATH = path.resolve("build/server/index.js");
+const port = Number(process.env.PORT) || 3000;
+
+const build = await import(pathToFileURL(BUILD_PATH).href);
+
+const app = express();
+app.disable("x-powered-by");
+app.use(compression());
+app.use("/assets", express.static("build/client/assets", { immutable: true, maxAge: "1y" }));
+app.use(express.static("build/client"));
+app.use(express.static("public", { maxAge: "1h" }));
+app.use(morgan("tiny"));
+
+app.all(
+  "*",
+  createRequestHandler({
+    build,
+    mode: process.env.NODE_ENV,
+    getLoadContext: (req) => ({ clientAddress: req.socket.remoteAddress }),
+  })
+);
+
+const server = process.env.HOST ? app.listen(port, process.env.HOST, onListen) : app.listen(port, onListen);
+
+function onListen() {
+  console.log(`Server listening on http://${process.env.HOST ?? "localhost"}:${port}`);
+}
+
+for (const signal of ["SIGTERM", "SIGINT"]) {
+  process.once(signal, () => server.close(console.error));
+}
@@ -0,0 +1,95 @@
+/**
+ * Backfills `Url.normalizedUrlHash` for links created before duplicate detection was indexed.
+ *
+ * Only links that new requests may be handed get a hash, by the same rule ShortenUrlUseCase
+ * uses (see isShareableLink): a generated code, none of the per-link settings, no API key,
+ * tags or import, and not deleted. When several links share a URL, the newest one keeps
+ * being handed out, matching the previous in-memory scan.
+ *
+ * Usage: pnpm --filter @url-shortener/engine db:backfill-url-hashes
+ */
+import { PrismaClient } from '@prisma/client';
+import { normalizeUrl, hashNormalizedUrl } from '../src/domain/url-validation';
+import { isShareableSavedLink } from '../src/domain/link-sharing';
+
+const BATCH_SIZE = 1000;
+
+const prisma = new PrismaClient();
+
+function hashUrl(originalUrl: string): string {
+  try {
+    return hashNormalizedUrl(normalizeUrl(originalUrl));
+  } catch {
+    return hashNormalizedUrl(originalUrl);
+  }
+}
+
+async function main() {
+  // Keyset position of the last processed link; updated rows drop out of the filter,
+  // so paginating by offset would skip links
+  let after: { createdAt: Date; id: string } | undefined;
+  let updated = 0;
+  let skipped = 0;
+  let unshareable = 0;
+
+  for (;;) {
+    const batch = await prisma.url.findMany({
+      where: {
+        normalizedUrlHash: null,
+        deletedAt: null,
+        ...(after
+          ? {
+              OR: [
+                { createdAt: { lt: after.createdAt } },
+                { createdAt: after.createdAt, id: { lt: after.id } },
+              ],
+            }
+          : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: BATCH_SIZE,
+    });
+
+    if (batch.length === 0) break;
+    after = batch[batch.length - 1];
+
+    const shareable = batch.filter(url => isShareableSavedLink({ ...url, tags: url.tags ? url.tags.split(',') : [] }));
+    unshareable += batch.length - shareable.length;
+
+    const hashes = shareable.map(url => ({ id: url.id, hash: hashUrl(url.originalUrl) }));
+    const claimed = new Set(
+      (
+        await prisma.url.findMany({
+          where: { normalizedUrlHash: { in: hashes.map(({ hash }) => hash) } },
+          select: { normalizedUrlHash: true },
+        })
+      ).map(url => url.normalizedUrlHash)
+    );
+
+    const updates = [];
+    for (const { id, hash } of hashes) {
+      // An older duplicate of a URL that already has a shared link stays unshared
+      if (claimed.has(hash)) {
+        skipped++;
+        continue;
+      }
+      claimed.add(hash);
+      updates.push(prisma.url.update({ where: { id }, data: { normalizedUrlHash: hash } }));
+    }
+
+    await prisma.$transaction(updates);
+    updated += updates.length;
+    console.log(
+      `Processed ${updated + skipped + unshareable} links (${updated} hashed, ${skipped} duplicates, ${unshareable} not shareable)`
+    );
+  }
+
+  console.log(`Done. ${updated} links hashed, ${skipped} duplicates and ${unshareable} links with their own settings left unshared.`);
+}
+
+main()
+  .catch(error => {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,88 @@
+/**
+ * Imports links exported from another shortener, keeping their short codes.
+ *
+ * Reads Bitly-style CSV, a JSON array or NDJSON with `code` and `url` and optional
+ * `created_at`, `clicks` and `tags` fields (see src/domain/link-import.ts for the accepted
+ * column names). Codes that are already taken are reported as conflicts and skipped, so the
+ * import can be re-run safely. Exits with code 2 when some rows were not imported.
+ *
+ * Usage: pnpm --filter @url-shortener/engine db:import-links <file> [--clicks] [--dry-run] [--report results.csv]
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { PrismaClient } from '@prisma/client';
+import { PrismaUrlRepository } from '../src/adapters/prisma-repository';
+import { ImportLinksUseCase, type ImportStatus } from '../src/use-cases/import-links';
+import { parseImportFile } from '../src/domain/link-import';
+import { formatCsv } from '../src/domain/csv';
+
+const MAX_LISTED_PROBLEMS = 20;
+
+const prisma = new PrismaClient();
+
+// pnpm runs scripts from the package directory; paths are relative to where it was invoked
+const fromInvocationDir = (path: string) => resolve(process.env.INIT_CWD ?? process.cwd(), path);
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      clicks: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      report: { type: 'string' },
+    },
+  });
+
+  const [file] = positionals;
+  if (!file) {
+    console.error('Usage: db:import-links <file> [--clicks] [--dry-run] [--report results.csv]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const records = parseImportFile(await readFile(fromInvocationDir(file), 'utf8'));
+  const results = await new ImportLinksUseCase(new PrismaUrlRepository(prisma)).execute(records, {
+    importClicks: values.clicks,
+    dryRun: values['dry-run'],
+  });
+
+  const counts: Record<ImportStatus, number> = { imported: 0, existing: 0, conflict: 0, failed: 0 };
+  for (const result of results) {
+    counts[result.status]++;
+  }
+
+  const problems = results.filter(result => result.status === 'conflict' || result.status === 'failed');
+  for (const result of problems.slice(0, MAX_LISTED_PROBLEMS)) {
+    console.log(`Row ${result.row} (${result.code || 'no code'}): ${result.status}, ${result.error}`);
+  }
+  if (problems.length > MAX_LISTED_PROBLEMS) {
+    console.log(`...and ${problems.length - MAX_LISTED_PROBLEMS} more`);
+  }
+
+  if (values.report) {
+    await writeFile(
+      fromInvocationDir(values.report),
+      formatCsv([
+        ['row', 'code', 'url', 'status', 'error'],
+        ...results.map(result => [result.row, result.code, result.url, result.status, result.error]),
+      ])
+    );
+  }
+
+  const verb = values['dry-run'] ? 'Would import' : 'Imported';
+  console.log(
+    `${verb} ${counts.imported} of ${results.length} links (${counts.existing} already here, ` +
+      `${counts.conflict} conflicts, ${counts.failed} invalid).`
+  );
+  if (problems.length > 0) {
+    process.exitCode = 2;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Import failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
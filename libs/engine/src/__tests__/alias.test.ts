@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { validateAlias, ALIAS_MAX_LENGTH } from '../domain/alias';
+import { ValidationError } from '../domain/errors';
+import { CheckAliasAvailabilityUseCase } from '../use-cases/check-alias-availability';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+describe('validateAlias', () => {
+  it('should accept simple aliases', () => {
+    expect(() => validateAlias('q3-launch')).not.toThrow();
+    expect(() => validateAlias('Summer_Sale2025')).not.toThrow();
+    expect(() => validateAlias('abc')).not.toThrow();
+  });
+
+  it('should reject empty aliases', () => {
+    expect(() => validateAlias('')).toThrow(ValidationError);
+    expect(() => validateAlias('   ')).toThrow(ValidationError);
+  });
+
+  it('should reject aliases that are too short', () => {
+    expect(() => validateAlias('ab')).toThrow(/at least 3 characters/);
+  });
+
+  it('should reject aliases that are too long', () => {
+    expect(() => validateAlias('a'.repeat(ALIAS_MAX_LENGTH + 1))).toThrow(/at most/);
+  });
+
+  it('should reject disallowed characters', () => {
+    for (const alias of ['has space', 'slash/path', 'dot.com', 'émoji', 'q3+launch']) {
+      expect(() => validateAlias(alias)).toThrow(ValidationError);
+    }
+  });
+
+  it('should reject aliases starting or ending with a separator', () => {
+    expect(() => validateAlias('-launch')).toThrow(ValidationError);
+    expect(() => validateAlias('launch_')).toThrow(ValidationError);
+  });
+
+  it('should reject reserved words regardless of case', () => {
+    expect(() => validateAlias('api')).toThrow(/reserved/);
+    expect(() => validateAlias('Admin')).toThrow(/reserved/);
+  });
+
+  it('should flag the alias field on the error', () => {
+    try {
+      validateAlias('a');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).field).toBe('alias');
+    }
+  });
+});
+
+describe('CheckAliasAvailabilityUseCase', () => {
+  const takenRepo = new InMemoryUrlRepository();
+  const useCase = new CheckAliasAvailabilityUseCase(takenRepo);
+
+  beforeAll(async () => {
+    await takenRepo.save({ originalUrl: 'https://example.com', shortCode: 'taken', createdAt: new Date() });
+  });
+
+  it('should report free aliases as available', async () => {
+    await expect(useCase.execute('free-alias')).resolves.toEqual({
+      alias: 'free-alias',
+      available: true,
+    });
+  });
+
+  it('should report taken aliases as unavailable', async () => {
+    const result = await useCase.execute('taken');
+
+    expect(result.available).toBe(false);
+    expect(result.reason).toMatch(/already taken/);
+  });
+
+  it('should report invalid aliases with the validation message', async () => {
+    const result = await useCase.execute('s');
+
+    expect(result.available).toBe(false);
+    expect(result.reason).toMatch(/at least/);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  generateApiKey,
+  hashApiKey,
+  validateScopes,
+  hasScope,
+  type ApiKey,
+} from '../domain/api-key';
+import type { ApiKeyRepository } from '../ports/repository';
+import { CreateApiKeyUseCase } from '../use-cases/create-api-key';
+import { AuthenticateApiKeyUseCase } from '../use-cases/authenticate-api-key';
+import { RevokeApiKeyUseCase } from '../use-cases/revoke-api-key';
+import { ShortenUrlUseCase } from '../use-cases/shorten-url';
+import {
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  UnauthorizedError,
+  ValidationError,
+} from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+class InMemoryApiKeyRepository implements ApiKeyRepository {
+  private apiKeys: Map<string, ApiKey> = new Map();
+  private nextId = 1;
+
+  async create(apiKey: ApiKey): Promise<ApiKey> {
+    const created = { ...apiKey, id: String(this.nextId++), createdAt: new Date() };
+    this.apiKeys.set(created.id, created);
+    return created;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash) ?? null;
+  }
+
+  async findAllWithUsage(): Promise<(ApiKey & { linkCount: number })[]> {
+    return Array.from(this.apiKeys.values()).map(apiKey => ({ ...apiKey, linkCount: 0 }));
+  }
+
+  async markUsed(id: string, usedAt: Date): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) {
+      this.apiKeys.set(id, { ...apiKey, lastUsedAt: usedAt });
+    }
+  }
+
+  async revoke(id: string, revokedAt: Date): Promise<ApiKey> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey) {
+      throw new NotFoundError('API key not found');
+    }
+    const revoked = { ...apiKey, revokedAt };
+    this.apiKeys.set(id, revoked);
+    return revoked;
+  }
+
+  get(id: string): ApiKey | undefined {
+    return this.apiKeys.get(id);
+  }
+}
+
+describe('API Keys', () => {
+  it('should generate prefixed keys with a display prefix', () => {
+    const { key, prefix } = generateApiKey();
+
+    expect(key).toMatch(/^usk_[A-Za-z0-9]{40}$/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(prefix.length).toBeLessThan(key.length);
+  });
+
+  it('should hash keys without revealing them', () => {
+    const { key } = generateApiKey();
+    const hash = hashApiKey(key);
+
+    expect(hash).not.toContain(key);
+    expect(hashApiKey(key)).toBe(hash);
+    expect(hashApiKey(generateApiKey().key)).not.toBe(hash);
+  });
+
+  it('should validate and deduplicate scopes', () => {
+    expect(validateScopes(['links:write', 'links:write', 'stats:read'])).toEqual([
+      'links:write',
+      'stats:read',
+    ]);
+    expect(() => validateScopes([])).toThrow(ValidationError);
+    expect(() => validateScopes(['links:admin'])).toThrow(/Unknown scope/);
+  });
+
+  it('should check scopes', () => {
+    expect(hasScope({ scopes: ['stats:read'] }, 'stats:read')).toBe(true);
+    expect(hasScope({ scopes: ['stats:read'] }, 'links:write')).toBe(false);
+  });
+});
+
+describe('API Key Use Cases', () => {
+  let apiKeyRepository: InMemoryApiKeyRepository;
+  let createApiKey: CreateApiKeyUseCase;
+  let authenticate: AuthenticateApiKeyUseCase;
+
+  beforeEach(() => {
+    apiKeyRepository = new InMemoryApiKeyRepository();
+    createApiKey = new CreateApiKeyUseCase(apiKeyRepository);
+    authenticate = new AuthenticateApiKeyUseCase(apiKeyRepository);
+  });
+
+  it('should store only the hash of a created key', async () => {
+    const { apiKey, key } = await createApiKey.execute({ name: 'CI', scopes: ['links:write'] });
+
+    expect(apiKey.keyHash).toBe(hashApiKey(key));
+    expect(JSON.stringify(apiKey)).not.toContain(key);
+  });
+
+  it('should reject missing names and invalid quotas', async () => {
+    await expect(createApiKey.execute({ name: '  ', scopes: ['links:write'] }))
+      .rejects
+      .toThrow(ValidationError);
+    await expect(createApiKey.execute({ name: 'CI', scopes: ['links:write'], dailyQuota: 0 }))
+      .rejects
+      .toThrow(ValidationError);
+  });
+
+  it('should authenticate a key with the required scope and record its use', async () => {
+    const { apiKey, key } = await createApiKey.execute({ name: 'CI', scopes: ['links:write'] });
+
+    const authenticated = await authenticate.execute(key, 'links:write');
+
+    expect(authenticated.id).toBe(apiKey.id);
+    expect(apiKeyRepository.get(apiKey.id!)?.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject missing and unknown keys', async () => {
+    await expect(authenticate.execute(undefined, 'links:write')).rejects.toThrow(UnauthorizedError);
+    await expect(authenticate.execute(generateApiKey().key, 'links:write'))
+      .rejects
+      .toThrow(UnauthorizedError);
+  });
+
+  it('should reject keys without the required scope', async () => {
+    const { key } = await createApiKey.execute({ name: 'Dashboard', scopes: ['stats:read'] });
+
+    await expect(authenticate.execute(key, 'links:write')).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should reject revoked keys', async () => {
+    const { apiKey, key } = await createApiKey.execute({ name: 'CI', scopes: ['links:write'] });
+
+    await new RevokeApiKeyUseCase(apiKeyRepository).execute(apiKey.id!);
+
+    await expect(authenticate.execute(key, 'links:write')).rejects.toThrow(UnauthorizedError);
+  });
+});
+
+describe('API Key Quotas', () => {
+  let repository: InMemoryUrlRepository;
+  let shortenUrl: ShortenUrlUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryUrlRepository();
+    shortenUrl = new ShortenUrlUseCase(repository);
+  });
+
+  it('should attribute new links to the API key', async () => {
+    const result = await shortenUrl.execute('https://example.com', {
+      apiKey: { id: 'key-1', dailyQuota: null },
+    });
+
+    expect(result.apiKeyId).toBe('key-1');
+  });
+
+  it('should give API keys their own link instead of a shared one', async () => {
+    const shared = await shortenUrl.execute('https://example.com');
+    const result = await shortenUrl.execute('https://example.com', {
+      apiKey: { id: 'key-1', dailyQuota: null },
+    });
+
+    expect(result.shortCode).not.toBe(shared.shortCode);
+    expect(result.apiKeyId).toBe('key-1');
+    expect(result.managementSecret).toBeDefined();
+    expect(result.normalizedUrlHash).toBeUndefined();
+  });
+
+  it('should not share links created with an API key', async () => {
+    const apiKey = { id: 'key-1', dailyQuota: null };
+    const first = await shortenUrl.execute('https://example.com', { apiKey });
+    const second = await shortenUrl.execute('https://example.com', { apiKey });
+    const anonymous = await shortenUrl.execute('https://example.com');
+
+    expect(second.shortCode).not.toBe(first.shortCode);
+    expect(anonymous.shortCode).not.toBe(first.shortCode);
+  });
+
+  it('should reject links beyond the daily quota', async () => {
+    const apiKey = { id: 'key-1', dailyQuota: 2 };
+
+    await shortenUrl.execute('https://example.com/1', { apiKey });
+    await shortenUrl.execute('https://example.com/2', { apiKey });
+
+    await expect(shortenUrl.execute('https://example.com/3', { apiKey }))
+      .rejects
+      .toThrow(RateLimitError);
+  });
+
+  it('should count quotas per API key', async () => {
+    await shortenUrl.execute('https://example.com/1', { apiKey: { id: 'key-1', dailyQuota: 1 } });
+
+    const result = await shortenUrl.execute('https://example.com/2', {
+      apiKey: { id: 'key-2', dailyQuota: 1 },
+    });
+
+    expect(result.apiKeyId).toBe('key-2');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { isBotRequest, isBotUserAgent } from '../domain/bot-detection';
+
+const CHROME =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+describe('isBotUserAgent', () => {
+  it.each([
+    'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+    'Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)',
+    'Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)',
+    'Slack-ImgProxy (+https://api.slack.com/robots)',
+    'Twitterbot/1.0',
+    'Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)',
+    'facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)',
+    'LinkedInBot/1.0 (compatible; Mozilla/5.0; Apache-HttpClient +http://www.linkedin.com)',
+    'TelegramBot (like TwitterBot)',
+    'WhatsApp/2.23.20.0',
+    'WhatsApp/2.2407.3 A',
+    'http.rb/5.1.1 (Mastodon/4.2.8; +https://mastodon.social/)',
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.0.0 Safari/537.36',
+    'curl/8.5.0',
+    'python-requests/2.31.0',
+    'Go-http-client/1.1',
+  ])('should recognise %s', (userAgent) => {
+    expect(isBotUserAgent(userAgent)).toBe(true);
+  });
+
+  it.each([
+    CHROME,
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+    'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+  ])('should not flag browsers: %s', (userAgent) => {
+    expect(isBotUserAgent(userAgent)).toBe(false);
+  });
+
+  it.each([
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Slack/4.37.94 Chrome/122.0.6261.156 Electron/29.2.0 Safari/537.36 Sonic Slack_SSB/4.37.94',
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8 Build/AP1A.240405.002; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/123.0.6312.118 Mobile Safari/537.36 WhatsApp/2.24.8.85',
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Mastodon/2024.3',
+  ])('should not flag in-app browsers: %s', (userAgent) => {
+    expect(isBotUserAgent(userAgent)).toBe(false);
+  });
+});
+
+describe('isBotRequest', () => {
+  it('should treat browser GET requests as people', () => {
+    expect(isBotRequest({ userAgent: CHROME, method: 'GET' })).toBe(false);
+  });
+
+  it('should flag requests without a user agent', () => {
+    expect(isBotRequest({})).toBe(true);
+    expect(isBotRequest({ userAgent: '  ' })).toBe(true);
+  });
+
+  it('should flag HEAD requests from link checkers', () => {
+    expect(isBotRequest({ userAgent: CHROME, method: 'HEAD' })).toBe(true);
+  });
+
+  it('should flag prefetches and previews', () => {
+    expect(isBotRequest({ userAgent: CHROME, purpose: 'prefetch' })).toBe(true);
+    expect(isBotRequest({ userAgent: CHROME, purpose: 'prefetch;prerender' })).toBe(true);
+    expect(isBotRequest({ userAgent: CHROME, purpose: 'preview' })).toBe(true);
+  });
+});
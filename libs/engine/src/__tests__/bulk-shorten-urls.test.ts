@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BulkShortenUrlsUseCase, BULK_SHORTEN_MAX_ROWS } from '../use-cases/bulk-shorten-urls';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import { hashManagementSecret } from '../domain/management-secret';
+import { hashNormalizedUrl } from '../domain/url-validation';
+import { RateLimitError, ValidationError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+describe('BulkShortenUrlsUseCase', () => {
+  let repository: InMemoryUrlRepository;
+  let useCase: BulkShortenUrlsUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryUrlRepository();
+    useCase = new BulkShortenUrlsUseCase(repository);
+  });
+
+  it('should create a link for every valid row', async () => {
+    const results = await useCase.execute([
+      { url: 'https://example.com/a' },
+      { url: 'https://example.com/b', alias: 'spring-b', tags: ['Spring', 'email', 'spring'] },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['created', 'created']);
+    expect(results[1].shortCode).toBe('spring-b');
+    expect(repository.size()).toBe(2);
+
+    const tagged = await repository.findByShortCode('spring-b');
+    expect(tagged?.tags).toEqual(['spring', 'email']);
+    expect(tagged?.managementSecretHash).toBe(hashManagementSecret(results[1].managementSecret!));
+  });
+
+  it('should report invalid rows and still create the others', async () => {
+    await repository.save({ originalUrl: 'https://example.com/taken', shortCode: 'taken' });
+
+    const results = await useCase.execute([
+      { url: 'not a url' },
+      { url: 'https://example.com/ok' },
+      { url: 'https://example.com/alias', alias: 'taken' },
+      { url: 'https://example.com/tags', tags: ['no spaces allowed!'] },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['failed', 'created', 'failed', 'failed']);
+    expect(results[0]).toMatchObject({ row: 1, url: 'not a url' });
+    expect(results[0].error).toBeDefined();
+    expect(results[2].error).toMatch(/already taken/);
+    expect(results[3].error).toMatch(/Tag/);
+    expect(repository.size()).toBe(2);
+  });
+
+  it('should create repeated URLs once and point the later rows at the first', async () => {
+    const results = await useCase.execute([
+      { url: 'https://example.com/same' },
+      { url: 'https://EXAMPLE.com/same' },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['created', 'duplicate']);
+    expect(results[1].shortCode).toBe(results[0].shortCode);
+    expect(results[1].managementSecret).toBeUndefined();
+    expect(repository.size()).toBe(1);
+  });
+
+  it('should reuse links shortened before', async () => {
+    const [first] = await useCase.execute([{ url: 'https://example.com/again' }]);
+
+    const [second] = await useCase.execute([{ url: 'https://example.com/again' }]);
+
+    expect(second).toMatchObject({ status: 'existing', shortCode: first.shortCode });
+    expect(second.managementSecret).toBeUndefined();
+  });
+
+  it('should not let two rows claim the same alias', async () => {
+    const results = await useCase.execute([
+      { url: 'https://example.com/1', alias: 'promo' },
+      { url: 'https://example.com/2', alias: 'promo' },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['created', 'failed']);
+    expect(results[1].error).toMatch(/earlier row/);
+  });
+
+  it('should save the links in one batch', async () => {
+    const saveMany = vi.spyOn(repository, 'saveMany');
+
+    await useCase.execute([{ url: 'https://example.com/1' }, { url: 'https://example.com/2' }]);
+
+    expect(saveMany).toHaveBeenCalledTimes(1);
+    expect(saveMany.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('should reject empty and oversized uploads', async () => {
+    await expect(useCase.execute([])).rejects.toThrow(ValidationError);
+
+    const rows = Array.from({ length: BULK_SHORTEN_MAX_ROWS + 1 }, (_, i) => ({ url: `https://example.com/${i}` }));
+    await expect(useCase.execute(rows)).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject uploads that would exceed the API key quota', async () => {
+    const apiKey = { id: 'key-1', dailyQuota: 2 };
+    await repository.save({ originalUrl: 'https://example.com/old', shortCode: 'old12345', apiKeyId: 'key-1' });
+
+    await expect(useCase.execute(
+      [{ url: 'https://example.com/1' }, { url: 'https://example.com/2' }],
+      { apiKey }
+    )).rejects.toThrow(RateLimitError);
+    expect(repository.size()).toBe(1);
+  });
+
+  it('should give API keys their own links instead of shared ones', async () => {
+    await repository.save({
+      originalUrl: 'https://example.com/shared',
+      shortCode: 'shared12',
+      normalizedUrlHash: hashNormalizedUrl('https://example.com/shared'),
+    });
+
+    const results = await useCase.execute(
+      [{ url: 'https://example.com/shared' }, { url: 'https://example.com/shared' }],
+      { apiKey: { id: 'key-1', dailyQuota: null } }
+    );
+
+    expect(results.map(result => result.status)).toEqual(['created', 'created']);
+    expect(results[0].shortCode).not.toBe('shared12');
+    expect(results[1].shortCode).not.toBe(results[0].shortCode);
+    expect((await repository.findByShortCode(results[0].shortCode!))?.apiKeyId).toBe('key-1');
+  });
+
+  it('should rate limit uploads rather than rows', async () => {
+    useCase = new BulkShortenUrlsUseCase(repository, new InMemoryRateLimiter(), { limit: 1, windowMs: 60_000 });
+
+    await useCase.execute([{ url: 'https://example.com/1' }, { url: 'https://example.com/2' }], { clientKey: 'ip' });
+
+    await expect(useCase.execute([{ url: 'https://example.com/3' }], { clientKey: 'ip' }))
+      .rejects
+      .toThrow(RateLimitError);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CachedUrlRepository } from '../adapters/cached-url-repository';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+describe('CachedUrlRepository', () => {
+  let now: number;
+  let inner: InMemoryUrlRepository;
+  let repository: CachedUrlRepository;
+
+  beforeEach(async () => {
+    now = 0;
+    inner = new InMemoryUrlRepository();
+    await inner.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+    vi.spyOn(inner, 'findByShortCode');
+    repository = new CachedUrlRepository(
+      inner,
+      { maxEntries: 2, ttlMs: 1000, negativeTtlMs: 100 },
+      () => now
+    );
+  });
+
+  it('should serve repeated lookups from memory', async () => {
+    const first = await repository.findByShortCode('abc12345');
+    const second = await repository.findByShortCode('abc12345');
+
+    expect(second).toEqual(first);
+    expect(inner.findByShortCode).toHaveBeenCalledTimes(1);
+    expect(repository.stats()).toEqual({ hits: 1, misses: 1, evictions: 0, size: 1 });
+  });
+
+  it('should look links up again once the TTL runs out', async () => {
+    await repository.findByShortCode('abc12345');
+    now = 1000;
+    await repository.findByShortCode('abc12345');
+
+    expect(inner.findByShortCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remember unknown codes for the shorter negative TTL', async () => {
+    await expect(repository.findByShortCode('missing1')).resolves.toBeNull();
+    await expect(repository.findByShortCode('missing1')).resolves.toBeNull();
+    expect(inner.findByShortCode).toHaveBeenCalledTimes(1);
+
+    now = 100;
+    await repository.findByShortCode('missing1');
+    expect(inner.findByShortCode).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forget a cached miss when the code is saved', async () => {
+    await repository.findByShortCode('new12345');
+    await repository.save({ originalUrl: 'https://example.org', shortCode: 'new12345' });
+
+    await expect(repository.findByShortCode('new12345')).resolves.toMatchObject({
+      originalUrl: 'https://example.org',
+    });
+  });
+
+  it('should invalidate on update, including soft deletes', async () => {
+    await repository.findByShortCode('abc12345');
+    await repository.update('abc12345', { originalUrl: 'https://example.com/new' });
+
+    await expect(repository.findByShortCode('abc12345')).resolves.toMatchObject({
+      originalUrl: 'https://example.com/new',
+    });
+
+    const deletedAt = new Date();
+    await repository.update('abc12345', { deletedAt });
+    await expect(repository.findByShortCode('abc12345')).resolves.toMatchObject({ deletedAt });
+  });
+
+  it('should invalidate on conditional updates', async () => {
+    await repository.findByShortCode('abc12345');
+    const sharedAt = new Date();
+    await repository.updateIf('abc12345', { sharedAt: null }, { sharedAt });
+
+    await expect(repository.findByShortCode('abc12345')).resolves.toMatchObject({ sharedAt });
+    await expect(repository.updateIf('abc12345', { sharedAt: null }, { deletedAt: new Date() })).resolves.toBeNull();
+  });
+
+  it('should evict the least recently used code when full', async () => {
+    await inner.save({ originalUrl: 'https://example.org', shortCode: 'def12345' });
+    await inner.save({ originalUrl: 'https://example.net', shortCode: 'ghi12345' });
+
+    await repository.findByShortCode('abc12345');
+    await repository.findByShortCode('def12345');
+    await repository.findByShortCode('abc12345'); // abc is now the most recently used
+    await repository.findByShortCode('ghi12345');
+
+    expect(repository.stats()).toMatchObject({ evictions: 1, size: 2 });
+    vi.mocked(inner.findByShortCode).mockClear();
+    await repository.findByShortCode('abc12345');
+    await repository.findByShortCode('def12345');
+    expect(inner.findByShortCode).toHaveBeenCalledTimes(1);
+    expect(inner.findByShortCode).toHaveBeenCalledWith('def12345');
+  });
+
+  it('should pass other queries straight through', async () => {
+    vi.spyOn(inner, 'findManyWithStatsByShortCodes');
+
+    await repository.findManyWithStatsByShortCodes(['abc12345']);
+
+    expect(inner.findManyWithStatsByShortCodes).toHaveBeenCalledWith(['abc12345']);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvRecords, formatCsv, formatCsvRow } from '../domain/csv';
+
+describe('CSV', () => {
+  it('should parse quoted fields with commas, quotes and line breaks', () => {
+    const text = 'url,title\r\n"https://example.com/?a=1,2","She said ""hi""\nthen left"\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['url', 'title'],
+      ['https://example.com/?a=1,2', 'She said "hi"\nthen left'],
+    ]);
+  });
+
+  it('should ignore a byte order mark, blank lines and a missing final newline', () => {
+    expect(parseCsv('﻿a,b\n\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('should key records by lowercased header', () => {
+    expect(parseCsvRecords('URL, Alias\nhttps://example.com\n')).toEqual([
+      { url: 'https://example.com', alias: '' },
+    ]);
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+
+  it('should quote only fields that need it', () => {
+    const date = new Date('2026-01-02T03:04:05.000Z');
+
+    expect(formatCsvRow(['plain', 'a,b', 'say "hi"', 3, null, undefined, date])).toBe(
+      'plain,"a,b","say ""hi""",3,,,2026-01-02T03:04:05.000Z'
+    );
+  });
+
+  it('should round-trip its own output', () => {
+    const rows = [['url', 'note'], ['https://example.com', 'line one\nline "two"']];
+
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
 import { DatabaseHealthCheck } from '../adapters/database-health';
-import { DatabaseConnectionError, DatabaseTimeoutError } from '../domain/errors';
+import { DatabaseConnectionError, DatabaseSchemaError, DatabaseTimeoutError } from '../domain/errors';
+
+const table = () => ({ findFirst: vi.fn().mockResolvedValue(null) });
 
 describe('DatabaseHealthCheck', () => {
   let mockPrisma: any;
@@ -10,6 +13,11 @@ describe('DatabaseHealthCheck', () => {
     mockPrisma = {
       $queryRaw: vi.fn(),
       $disconnect: vi.fn(),
+      url: table(),
+      visit: table(),
+      apiKey: table(),
+      rateLimitHit: table(),
+      visitorSalt: table(),
     };
     healthCheck = new DatabaseHealthCheck(mockPrisma);
   });
@@ -54,6 +62,50 @@ describe('DatabaseHealthCheck', () => {
     });
   });
 
+  describe('checkSchema', () => {
+    it('should read every table', async () => {
+      await expect(healthCheck.checkSchema()).resolves.toBe(true);
+
+      expect(mockPrisma.url.findFirst).toHaveBeenCalled();
+      expect(mockPrisma.visitorSalt.findFirst).toHaveBeenCalled();
+    });
+
+    it('should throw DatabaseSchemaError for a missing table or column', async () => {
+      mockPrisma.visit.findFirst.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('The column `Url.importedClicks` does not exist', {
+          code: 'P2022',
+          clientVersion: '5.22.0',
+        })
+      );
+
+      await expect(healthCheck.checkSchema()).rejects.toThrow(DatabaseSchemaError);
+    });
+  });
+
+  describe('readiness', () => {
+    it('should report each component with its latency', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([{ '1': 1 }]);
+
+      const report = await healthCheck.readiness();
+
+      expect(report.status).toBe('ok');
+      expect(report.components.database).toEqual({ status: 'ok', latencyMs: expect.any(Number) });
+      expect(report.components.schema.status).toBe('ok');
+    });
+
+    it('should report failures without throwing', async () => {
+      mockPrisma.$queryRaw.mockImplementation(
+        () => new Promise((resolve) => setTimeout(resolve, 10000))
+      );
+
+      const report = await healthCheck.readiness(100);
+
+      expect(report.status).toBe('error');
+      expect(report.components.database.error?.code).toBe('DATABASE_TIMEOUT_ERROR');
+      expect(report.components.schema.status).toBe('ok');
+    });
+  });
+
   describe('isHealthy', () => {
     it('should return true when database is accessible', async () => {
       mockPrisma.$queryRaw.mockResolvedValue([{ '1': 1 }]);
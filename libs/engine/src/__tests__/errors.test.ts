@@ -4,6 +4,8 @@ import {
   DatabaseError,
   DatabaseConnectionError,
   DatabaseTimeoutError,
+  DatabaseSchemaError,
+  DuplicateEntryError,
   ValidationError,
   NotFoundError,
   ShortCodeGenerationError,
@@ -102,6 +104,34 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('DatabaseSchemaError', () => {
+    it('should create schema error with its own code', () => {
+      const error = new DatabaseSchemaError();
+
+      expect(error.message).toBe('Database schema is out of date');
+      expect(error.code).toBe('DATABASE_SCHEMA_ERROR');
+      expect(error.statusCode).toBe(503);
+      expect(error).toBeInstanceOf(DatabaseError);
+    });
+  });
+
+  describe('DuplicateEntryError', () => {
+    it('should create duplicate entry error with conflict status', () => {
+      const error = new DuplicateEntryError();
+
+      expect(error.message).toBe('Duplicate entry detected');
+      expect(error.code).toBe('DUPLICATE_ENTRY');
+      expect(error.statusCode).toBe(409);
+    });
+
+    it('should still be a database error', () => {
+      const error = new DuplicateEntryError('Short code taken');
+
+      expect(error).toBeInstanceOf(DatabaseError);
+      expect(isDatabaseError(error)).toBe(true);
+    });
+  });
+
   describe('ValidationError', () => {
     it('should create validation error', () => {
       const error = new ValidationError('Invalid input', 'email');
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ExportLinksUseCase } from '../use-cases/export-links';
+import { ExportVisitsUseCase } from '../use-cases/export-visits';
+import { formatExport, validateExportFormat, validateExportRange } from '../domain/export';
+import { parseCsvRecords } from '../domain/csv';
+import { ValidationError } from '../domain/errors';
+import type { ExportedVisit } from '../domain/export';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+async function collect(lines: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const line of lines) {
+    text += line;
+  }
+  return text;
+}
+
+describe('Export', () => {
+  describe('validateExportFormat', () => {
+    it('should default to CSV and accept NDJSON', () => {
+      expect(validateExportFormat(null)).toBe('csv');
+      expect(validateExportFormat('NDJSON')).toBe('ndjson');
+    });
+
+    it('should reject other formats', () => {
+      expect(() => validateExportFormat('xml')).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateExportRange', () => {
+    it('should reject ranges that end before they start', () => {
+      expect(() => validateExportRange({
+        since: new Date('2026-02-01T00:00:00Z'),
+        until: new Date('2026-01-01T00:00:00Z'),
+      })).toThrow(ValidationError);
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => validateExportRange({ since: new Date('soon') })).toThrow(/since must be a valid date/);
+    });
+  });
+
+  describe('formatExport', () => {
+    it('should not write the header before the first record has been read', async () => {
+      const failing: AsyncIterable<{ id: string }> = {
+        [Symbol.asyncIterator]: () => ({
+          next: () => Promise.reject(new Error('Database unavailable')),
+        }),
+      };
+      const lines = formatExport(failing, 'csv', [{ name: 'id', header: 'id', value: record => record.id }]);
+
+      await expect(lines.next()).rejects.toThrow('Database unavailable');
+    });
+  });
+
+  describe('ExportLinksUseCase', () => {
+    let repository: InMemoryUrlRepository;
+    let useCase: ExportLinksUseCase;
+
+    beforeEach(async () => {
+      repository = new InMemoryUrlRepository();
+      useCase = new ExportLinksUseCase(repository);
+
+      await repository.save({
+        originalUrl: 'https://example.com/a',
+        shortCode: 'abc123',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        apiKeyId: 'key-1',
+        tags: ['spring', 'email'],
+      });
+      await repository.save({
+        originalUrl: 'https://example.com/secret',
+        shortCode: 'locked',
+        createdAt: new Date('2026-01-02T00:00:00Z'),
+        apiKeyId: 'key-1',
+        passwordHash: 'hash',
+      });
+      await repository.save({
+        originalUrl: 'https://example.com/other',
+        shortCode: 'other1',
+        apiKeyId: 'key-2',
+      });
+      repository.setVisitCount('abc123', 7);
+    });
+
+    it('should export the selected links as CSV with visit counts', async () => {
+      const csv = await collect(useCase.execute({ apiKeyId: 'key-1' }, 'csv', 'https://sho.rt/s/'));
+      const records = parseCsvRecords(csv);
+
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({
+        short_code: 'abc123',
+        short_url: 'https://sho.rt/s/abc123',
+        original_url: 'https://example.com/a',
+        created_at: '2026-01-01T00:00:00.000Z',
+        tags: 'spring;email',
+        is_protected: 'false',
+        visit_count: '7',
+      });
+    });
+
+    it('should hide the destination of password-protected links', async () => {
+      const ndjson = await collect(useCase.execute({ shortCodes: ['locked'] }, 'ndjson', 'https://sho.rt/s/'));
+      const [link] = ndjson.trim().split('\n').map(line => JSON.parse(line));
+
+      expect(link).toMatchObject({ code: 'locked', originalUrl: null, isProtected: true, tags: [] });
+    });
+
+    it('should export every link when all are selected', async () => {
+      const ndjson = await collect(useCase.execute({ all: true }, 'ndjson', 'https://sho.rt/s/'));
+
+      expect(ndjson.trim().split('\n').map(line => JSON.parse(line).code)).toEqual(['abc123', 'locked', 'other1']);
+    });
+
+    it('should write only a header when nothing is selected', async () => {
+      const csv = await collect(useCase.execute({ shortCodes: [] }, 'csv', 'https://sho.rt/s/'));
+
+      expect(csv.split('\r\n')).toEqual([expect.stringMatching(/^short_code,short_url,/), '']);
+    });
+  });
+
+  describe('ExportVisitsUseCase', () => {
+    const visit: ExportedVisit = {
+      id: 'v1',
+      shortCode: 'abc123',
+      timestamp: new Date('2026-01-05T12:00:00Z'),
+      referrer: 'news.example',
+      browser: 'Firefox',
+      os: 'Linux',
+      deviceClass: 'desktop',
+      isBot: false,
+      visitorHash: null,
+    };
+
+    it('should stream visits as NDJSON', async () => {
+      const analytics = createMockAnalyticsRepository({
+        streamVisits: vi.fn(async function* () {
+          yield visit;
+        }),
+      });
+      const useCase = new ExportVisitsUseCase(analytics);
+      const range = { since: new Date('2026-01-01T00:00:00Z') };
+
+      const ndjson = await collect(useCase.execute({ apiKeyId: 'key-1' }, 'ndjson', range));
+
+      expect(JSON.parse(ndjson)).toEqual({
+        id: 'v1',
+        code: 'abc123',
+        timestamp: '2026-01-05T12:00:00.000Z',
+        referrer: 'news.example',
+        browser: 'Firefox',
+        os: 'Linux',
+        deviceClass: 'desktop',
+        isBot: false,
+        visitorHash: null,
+      });
+      expect(analytics.streamVisits).toHaveBeenCalledWith({ apiKeyId: 'key-1' }, range);
+    });
+
+    it('should validate the range before streaming', () => {
+      const analytics = createMockAnalyticsRepository();
+      const useCase = new ExportVisitsUseCase(analytics);
+
+      expect(() => useCase.execute({ apiKeyId: 'key-1' }, 'csv', {
+        since: new Date('2026-02-01T00:00:00Z'),
+        until: new Date('2026-01-01T00:00:00Z'),
+      })).toThrow(ValidationError);
+      expect(analytics.streamVisits).not.toHaveBeenCalled();
+    });
+  });
+});
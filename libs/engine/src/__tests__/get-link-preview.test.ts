@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetLinkPreviewUseCase } from '../use-cases/get-link-preview';
+import type { AnalyticsRepository } from '../ports/repository';
+import { NotFoundError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+describe('GetLinkPreviewUseCase', () => {
+  let urlRepository: InMemoryUrlRepository;
+  let analyticsRepository: AnalyticsRepository;
+  let useCase: GetLinkPreviewUseCase;
+
+  beforeEach(() => {
+    urlRepository = new InMemoryUrlRepository();
+    analyticsRepository = createMockAnalyticsRepository({
+      getVisits: vi.fn(async () => 3),
+    });
+    useCase = new GetLinkPreviewUseCase(urlRepository, analyticsRepository);
+  });
+
+  it('should show the destination, its domain and the click count', async () => {
+    const createdAt = new Date('2026-01-02T03:04:05Z');
+    await urlRepository.save({ originalUrl: 'https://docs.example.com/guide?x=1', shortCode: 'abc12345', createdAt });
+
+    const preview = await useCase.execute('abc12345');
+
+    expect(preview).toEqual({
+      shortCode: 'abc12345',
+      originalUrl: 'https://docs.example.com/guide?x=1',
+      domain: 'docs.example.com',
+      createdAt,
+      visitCount: 3,
+      isProtected: false,
+      expirationReason: null,
+    });
+  });
+
+  it('should not count a visit', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    await useCase.execute('abc12345');
+
+    expect(analyticsRepository.trackVisit).not.toHaveBeenCalled();
+    expect(analyticsRepository.recordVisits).not.toHaveBeenCalled();
+  });
+
+  it('should hide the destination of protected links', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com/secret', shortCode: 'locked12', passwordHash: 'hash' });
+
+    const preview = await useCase.execute('locked12');
+
+    expect(preview.isProtected).toBe(true);
+    expect(preview.originalUrl).toBeNull();
+    expect(preview.domain).toBeNull();
+  });
+
+  it('should report links whose click budget is used up', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'budget12', maxClicks: 3 });
+
+    const preview = await useCase.execute('budget12');
+
+    expect(preview.expirationReason).toBe('exhausted');
+  });
+
+  it('should throw NotFoundError for unknown or deleted links', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'gone1234', deletedAt: new Date() });
+
+    await expect(useCase.execute('missing')).rejects.toThrow(NotFoundError);
+    await expect(useCase.execute('gone1234')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetLinkStatsUseCase } from '../use-cases/get-link-stats';
+import type { AnalyticsRepository } from '../ports/repository';
+import { NotFoundError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+describe('GetLinkStatsUseCase', () => {
+  let urlRepository: InMemoryUrlRepository;
+  let analyticsRepository: AnalyticsRepository;
+  let useCase: GetLinkStatsUseCase;
+
+  beforeEach(() => {
+    urlRepository = new InMemoryUrlRepository();
+    analyticsRepository = createMockAnalyticsRepository({
+      getVisits: vi.fn(async () => 7),
+      getUniqueVisitors: vi.fn(async () => 5),
+    });
+    useCase = new GetLinkStatsUseCase(urlRepository, analyticsRepository);
+  });
+
+  it('should return the link with its visit count', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    const stats = await useCase.execute('abc12345');
+
+    expect(stats.url.originalUrl).toBe('https://example.com');
+    expect(stats.visitCount).toBe(7);
+    expect(stats.uniqueVisitors).toBe(5);
+  });
+
+  it('should not count a visit', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    await useCase.execute('abc12345');
+
+    expect(analyticsRepository.trackVisit).not.toHaveBeenCalled();
+  });
+
+  it('should throw NotFoundError for unknown or deleted links', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'gone1234', deletedAt: new Date() });
+
+    await expect(useCase.execute('missing')).rejects.toThrow(NotFoundError);
+    await expect(useCase.execute('gone1234')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GetOriginalUrlUseCase } from '../use-cases/get-original-url';
+import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import type { VisitQueue } from '../ports/visit-queue';
+import type { NewVisit } from '../domain/visit';
+import { VisitorHasher } from '../domain/visitor-id';
+import { InMemoryVisitorSaltStore } from '../adapters/in-memory-visitor-salt-store';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+import {
+  LinkExpiredError,
+  PasswordRequiredError,
+  InvalidPasswordError,
+  RateLimitError,
+  DatabaseError,
+} from '../domain/errors';
+import { hashPassword } from '../domain/password';
+import { UnlockAttemptThrottle } from '../domain/unlock-attempt-throttle';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import { MetricsRegistry, createShortenerMetrics } from '../domain/metrics';
+
+describe('GetOriginalUrlUseCase', () => {
+  let visits: Map<string, number>;
+  let urlRepository: UrlRepository;
+  let analyticsRepository: AnalyticsRepository;
+  let visitQueue: VisitQueue;
+  let useCase: GetOriginalUrlUseCase;
+
+  beforeEach(() => {
+    visits = new Map();
+
+    urlRepository = new InMemoryUrlRepository();
+
+    // Visits are counted per link id, as they are stored
+    analyticsRepository = createMockAnalyticsRepository({
+      recordVisits: vi.fn(async (batch: NewVisit[]) => {
+        for (const visit of batch) {
+          visits.set(visit.urlId, (visits.get(visit.urlId) ?? 0) + 1);
+        }
+      }),
+      getVisits: vi.fn(async (shortCode: string) => {
+        const url = await urlRepository.findByShortCode(shortCode);
+        return visits.get(url?.id ?? '') ?? 0;
+      }),
+    });
+    visitQueue = { enqueue: vi.fn() };
+
+    useCase = new GetOriginalUrlUseCase(
+      urlRepository,
+      analyticsRepository,
+      new UnlockAttemptThrottle(new InMemoryRateLimiter()),
+      new VisitorHasher(new InMemoryVisitorSaltStore()),
+      visitQueue
+    );
+  });
+
+  it('should return null for unknown short codes', async () => {
+    await expect(useCase.execute('missing')).resolves.toBeNull();
+    expect(visitQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should return the original URL and queue the visit', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    await expect(useCase.execute('abc12345', { userAgent: 'Mozilla/5.0' })).resolves.toBe('https://example.com');
+    expect(visitQueue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ urlId: 'url-abc12345', userAgent: 'Mozilla/5.0', timestamp: expect.any(Date) })
+    );
+    // The redirect itself only pays for the link lookup
+    expect(analyticsRepository.trackVisit).not.toHaveBeenCalled();
+    expect(analyticsRepository.recordVisits).not.toHaveBeenCalled();
+  });
+
+  it('should record the referrer host and parsed user agent', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    await useCase.execute('abc12345', {
+      userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+      referrer: 'https://www.google.com/search?q=secret',
+    });
+
+    expect(visitQueue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        referrer: 'google.com',
+        browser: 'Safari',
+        os: 'iOS',
+        deviceClass: 'mobile',
+      })
+    );
+  });
+
+  it('should still redirect bots but flag their visits', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    await expect(
+      useCase.execute('abc12345', { userAgent: 'Twitterbot/1.0' })
+    ).resolves.toBe('https://example.com');
+    expect(visitQueue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ isBot: true })
+    );
+  });
+
+  it('should resolve with the link\'s redirect status and cache header', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'temp1234' });
+    await urlRepository.save({ originalUrl: 'https://example.org', shortCode: 'perm1234', redirectStatus: 301 });
+
+    await expect(useCase.resolve('temp1234')).resolves.toEqual({
+      originalUrl: 'https://example.com',
+      redirectStatus: 302,
+      cacheControl: 'private, no-store',
+      socialCard: null,
+    });
+    await expect(useCase.resolve('perm1234')).resolves.toMatchObject({
+      redirectStatus: 301,
+      cacheControl: 'public, max-age=86400',
+    });
+  });
+
+  it('should resolve with the link\'s social card overrides', async () => {
+    await urlRepository.save({
+      originalUrl: 'https://example.com',
+      shortCode: 'card1234',
+      ogTitle: 'Spring sale',
+      ogImage: 'https://example.com/sale.png',
+    });
+
+    const link = await useCase.resolve('card1234');
+
+    expect(link?.socialCard).toEqual({
+      title: 'Spring sale',
+      description: null,
+      imageUrl: 'https://example.com/sale.png',
+    });
+  });
+
+  it('should treat deleted links as missing', async () => {
+    await urlRepository.save({
+      originalUrl: 'https://example.com',
+      shortCode: 'deleted1',
+      deletedAt: new Date(),
+    });
+
+    await expect(useCase.execute('deleted1')).resolves.toBeNull();
+    expect(visitQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should not look up visit counts for links without a click budget', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    await useCase.execute('abc12345');
+
+    expect(analyticsRepository.getVisits).not.toHaveBeenCalled();
+  });
+
+  it('should reject links past their expiry date', async () => {
+    await urlRepository.save({
+      originalUrl: 'https://example.com',
+      shortCode: 'expired1',
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(useCase.execute('expired1')).rejects.toThrow(LinkExpiredError);
+    expect(visitQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should stop redirecting once the click budget is used up', async () => {
+    await urlRepository.save({
+      originalUrl: 'https://example.com',
+      shortCode: 'limited1',
+      maxClicks: 2,
+    });
+
+    await expect(useCase.execute('limited1')).resolves.toBe('https://example.com');
+    await expect(useCase.execute('limited1')).resolves.toBe('https://example.com');
+
+    const error = await useCase.execute('limited1').catch((e) => e);
+    expect(error).toBeInstanceOf(LinkExpiredError);
+    expect(error.reason).toBe('exhausted');
+    expect(error.statusCode).toBe(410);
+    // Budgeted links write visits straight away so the next count sees them
+    expect(analyticsRepository.recordVisits).toHaveBeenCalledTimes(2);
+    expect(visitQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  describe('Password-protected links', () => {
+    beforeEach(async () => {
+      await urlRepository.save({
+        originalUrl: 'https://example.com/internal',
+        shortCode: 'secret01',
+        passwordHash: await hashPassword('open sesame'),
+      });
+    });
+
+    it('should require a password without tracking a visit', async () => {
+      await expect(useCase.execute('secret01')).rejects.toThrow(PasswordRequiredError);
+      expect(visitQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should reject an incorrect password', async () => {
+      await expect(useCase.execute('secret01', { password: 'wrong' }))
+        .rejects
+        .toThrow(InvalidPasswordError);
+      expect(visitQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should resolve and track the visit with the correct password', async () => {
+      await expect(useCase.execute('secret01', { password: 'open sesame' }))
+        .resolves
+        .toBe('https://example.com/internal');
+      expect(visitQueue.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throttle repeated failures per client', async () => {
+      const throttledUseCase = new GetOriginalUrlUseCase(
+        urlRepository,
+        analyticsRepository,
+        new UnlockAttemptThrottle(new InMemoryRateLimiter(), { maxFailures: 2 })
+      );
+
+      for (let i = 0; i < 2; i++) {
+        await expect(throttledUseCase.execute('secret01', { password: 'wrong', clientKey: '1.2.3.4' }))
+          .rejects
+          .toThrow(InvalidPasswordError);
+      }
+
+      // Even the right password is refused while throttled
+      await expect(throttledUseCase.execute('secret01', { password: 'open sesame', clientKey: '1.2.3.4' }))
+        .rejects
+        .toThrow(RateLimitError);
+
+      // Other clients are unaffected
+      await expect(throttledUseCase.execute('secret01', { password: 'open sesame', clientKey: '5.6.7.8' }))
+        .resolves
+        .toBe('https://example.com/internal');
+    });
+
+    it('should not let concurrent guesses past the limit', async () => {
+      const throttledUseCase = new GetOriginalUrlUseCase(
+        urlRepository,
+        analyticsRepository,
+        new UnlockAttemptThrottle(new InMemoryRateLimiter(), { maxFailures: 2 })
+      );
+
+      const guesses = await Promise.allSettled(
+        Array.from({ length: 6 }, () => throttledUseCase.execute('secret01', { password: 'wrong', clientKey: '1.2.3.4' }))
+      );
+      const reasons = guesses.map(guess => (guess.status === 'rejected' ? guess.reason : null));
+
+      expect(reasons.filter(reason => reason instanceof InvalidPasswordError)).toHaveLength(2);
+      expect(reasons.filter(reason => reason instanceof RateLimitError)).toHaveLength(4);
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should count redirects by status, unknown codes and refused redirects by reason', async () => {
+      const metrics = createShortenerMetrics(new MetricsRegistry());
+      const instrumented = new GetOriginalUrlUseCase(
+        urlRepository,
+        analyticsRepository,
+        new UnlockAttemptThrottle(new InMemoryRateLimiter()),
+        new VisitorHasher(new InMemoryVisitorSaltStore()),
+        visitQueue,
+        metrics
+      );
+      await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345', redirectStatus: 301 });
+      await urlRepository.save({
+        originalUrl: 'https://example.com/old',
+        shortCode: 'expired1',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await urlRepository.save({
+        originalUrl: 'https://example.com/secret',
+        shortCode: 'locked12',
+        passwordHash: await hashPassword('open sesame'),
+      });
+
+      await instrumented.execute('abc12345');
+      await instrumented.execute('missing');
+      await expect(instrumented.execute('expired1')).rejects.toThrow(LinkExpiredError);
+      await expect(instrumented.execute('locked12')).rejects.toThrow(PasswordRequiredError);
+      await expect(instrumented.execute('locked12', { password: 'wrong' })).rejects.toThrow(InvalidPasswordError);
+
+      expect(metrics.redirects.get({ status: '301' })).toBe(1);
+      expect(metrics.notFound.get()).toBe(1);
+      expect(metrics.refusedRedirects.get({ reason: 'expired' })).toBe(1);
+      expect(metrics.refusedRedirects.get({ reason: 'password_required' })).toBe(1);
+      expect(metrics.refusedRedirects.get({ reason: 'invalid_password' })).toBe(1);
+      expect(metrics.errors.samples()).toEqual([]);
+    });
+
+    it('should count failures by error code', async () => {
+      const metrics = createShortenerMetrics(new MetricsRegistry());
+      vi.spyOn(urlRepository, 'findByShortCode').mockRejectedValue(new DatabaseError('Database is down'));
+      const instrumented = new GetOriginalUrlUseCase(
+        urlRepository,
+        analyticsRepository,
+        new UnlockAttemptThrottle(new InMemoryRateLimiter()),
+        new VisitorHasher(new InMemoryVisitorSaltStore()),
+        visitQueue,
+        metrics
+      );
+
+      await expect(instrumented.execute('abc12345')).rejects.toThrow(DatabaseError);
+
+      expect(metrics.errors.get({ operation: 'redirect', code: 'DATABASE_ERROR' })).toBe(1);
+    });
+  });
+});
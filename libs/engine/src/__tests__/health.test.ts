@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { checkComponent, healthReport } from '../domain/health';
+import { DatabaseConnectionError } from '../domain/errors';
+
+describe('Health reports', () => {
+  const clock = (...times: number[]) => () => times.shift() ?? 0;
+
+  it('should time a passing check', async () => {
+    const result = await checkComponent(async () => true, clock(100, 112.4));
+
+    expect(result).toEqual({ status: 'ok', latencyMs: 12 });
+  });
+
+  it('should report a failing check with its error code', async () => {
+    const result = await checkComponent(async () => {
+      throw new DatabaseConnectionError();
+    }, clock(0, 30));
+
+    expect(result).toEqual({
+      status: 'error',
+      latencyMs: 30,
+      error: { code: 'DATABASE_CONNECTION_ERROR', message: 'Unable to connect to the database' },
+    });
+  });
+
+  it('should be ok only when every component is', () => {
+    const ok = { status: 'ok' as const, latencyMs: 1 };
+    const failing = { status: 'error' as const, latencyMs: 1 };
+
+    expect(healthReport({ database: ok, schema: ok }).status).toBe('ok');
+    expect(healthReport({ database: ok, schema: failing }).status).toBe('error');
+  });
+});
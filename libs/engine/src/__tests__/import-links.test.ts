@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ImportLinksUseCase, IMPORT_BATCH_SIZE } from '../use-cases/import-links';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import { RateLimitError } from '../domain/errors';
+
+describe('ImportLinksUseCase', () => {
+  let repository: InMemoryUrlRepository;
+  let useCase: ImportLinksUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryUrlRepository();
+    useCase = new ImportLinksUseCase(repository);
+  });
+
+  it('should recreate links under their original codes', async () => {
+    const results = await useCase.execute([
+      { code: '3xYzAbc', url: 'https://example.com/launch', createdAt: '2023-05-01T10:00:00Z', tags: ['Spring'] },
+    ]);
+
+    expect(results).toEqual([
+      { row: 1, code: '3xYzAbc', url: 'https://example.com/launch', status: 'imported' },
+    ]);
+    const link = await repository.findByShortCode('3xYzAbc');
+    expect(link).toMatchObject({
+      originalUrl: 'https://example.com/launch',
+      createdAt: new Date('2023-05-01T10:00:00Z'),
+      tags: ['spring'],
+      importedClicks: null,
+    });
+    expect(link?.managementSecretHash).toBeUndefined();
+    expect(link?.normalizedUrlHash).toBeUndefined();
+  });
+
+  it('should report codes that are already taken and keep the existing link', async () => {
+    await repository.save({ originalUrl: 'https://example.com/mine', shortCode: 'promo' });
+
+    const [result] = await useCase.execute([{ code: 'promo', url: 'https://example.com/theirs' }]);
+
+    expect(result).toMatchObject({ status: 'conflict', error: expect.stringMatching(/already used/) });
+    expect((await repository.findByShortCode('promo'))?.originalUrl).toBe('https://example.com/mine');
+  });
+
+  it('should treat a code that already points at the same URL as imported before', async () => {
+    await useCase.execute([{ code: 'promo', url: 'https://example.com/promo' }]);
+
+    const [result] = await useCase.execute([{ code: 'promo', url: 'https://EXAMPLE.com/promo' }]);
+
+    expect(result.status).toBe('existing');
+  });
+
+  it('should report a code repeated within the file', async () => {
+    const results = await useCase.execute([
+      { code: 'promo', url: 'https://example.com/1' },
+      { code: 'promo', url: 'https://example.com/2' },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['imported', 'conflict']);
+    expect(results[1].error).toMatch(/earlier row/);
+  });
+
+  it('should report invalid rows', async () => {
+    const results = await useCase.execute([
+      { code: '', url: 'https://example.com' },
+      { code: 'api', url: 'https://example.com' },
+      { code: 'promo', url: 'not a url' },
+      { code: 'dated', url: 'https://example.com', createdAt: 'last tuesday' },
+      { code: 'clicky', url: 'https://example.com', clicks: '-4' },
+    ], { importClicks: true });
+
+    expect(results.every(result => result.status === 'failed')).toBe(true);
+    expect(results[0].error).toMatch(/missing/);
+    expect(results[1].error).toMatch(/reserved/);
+    expect(results[3].error).toMatch(/not a valid date/);
+    expect(results[4].error).toMatch(/whole number/);
+    expect(repository.size()).toBe(0);
+  });
+
+  it('should import click counts only when asked', async () => {
+    await useCase.execute([{ code: 'without', url: 'https://example.com/1', clicks: '12' }]);
+    await useCase.execute([{ code: 'with-clicks', url: 'https://example.com/2', clicks: '12' }], { importClicks: true });
+
+    expect((await repository.findByShortCode('without'))?.importedClicks).toBeNull();
+    expect((await repository.findByShortCode('with-clicks'))?.importedClicks).toBe(12);
+  });
+
+  it('should save nothing in a dry run', async () => {
+    const [result] = await useCase.execute([{ code: 'promo', url: 'https://example.com' }], { dryRun: true });
+
+    expect(result.status).toBe('imported');
+    expect(repository.size()).toBe(0);
+  });
+
+  it('should save large files in batches', async () => {
+    const saveMany = vi.spyOn(repository, 'saveMany');
+    const records = Array.from({ length: IMPORT_BATCH_SIZE + 1 }, (_, i) => ({
+      code: `code-${i}`,
+      url: `https://example.com/${i}`,
+    }));
+
+    const results = await useCase.execute(records);
+
+    expect(saveMany).toHaveBeenCalledTimes(2);
+    expect(results[IMPORT_BATCH_SIZE]).toMatchObject({ row: IMPORT_BATCH_SIZE + 1, status: 'imported' });
+    expect(repository.size()).toBe(IMPORT_BATCH_SIZE + 1);
+  });
+
+  it('should rate limit uploads per client', async () => {
+    useCase = new ImportLinksUseCase(repository, new InMemoryRateLimiter(), { limit: 1, windowMs: 60_000 });
+
+    await useCase.enforceRateLimit('1.2.3.4');
+    await expect(useCase.enforceRateLimit('1.2.3.4')).rejects.toThrow(RateLimitError);
+    await expect(useCase.enforceRateLimit('5.6.7.8')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateExpirationSettings,
+  getExpirationReason,
+  isLinkExpired,
+} from '../domain/link-expiration';
+import { ValidationError } from '../domain/errors';
+
+describe('Link Expiration', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  describe('validateExpirationSettings', () => {
+    it('should accept empty settings', () => {
+      expect(() => validateExpirationSettings({}, now)).not.toThrow();
+    });
+
+    it('should accept a future expiry date and positive click limit', () => {
+      expect(() => validateExpirationSettings({
+        expiresAt: new Date('2025-06-02T12:00:00Z'),
+        maxClicks: 10,
+      }, now)).not.toThrow();
+    });
+
+    it('should reject expiry dates in the past', () => {
+      expect(() => validateExpirationSettings({ expiresAt: new Date('2025-05-01T00:00:00Z') }, now))
+        .toThrow(ValidationError);
+      expect(() => validateExpirationSettings({ expiresAt: now }, now))
+        .toThrow(/in the future/);
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => validateExpirationSettings({ expiresAt: new Date('not a date') }, now))
+        .toThrow(/invalid/);
+    });
+
+    it('should reject non-positive or fractional click limits', () => {
+      for (const maxClicks of [0, -1, 1.5, Number.NaN]) {
+        expect(() => validateExpirationSettings({ maxClicks }, now)).toThrow(ValidationError);
+      }
+    });
+  });
+
+  describe('getExpirationReason', () => {
+    it('should return null for links without lifecycle settings', () => {
+      expect(getExpirationReason({}, 1000, now)).toBeNull();
+      expect(getExpirationReason({ expiresAt: null, maxClicks: null }, 1000, now)).toBeNull();
+    });
+
+    it('should report links past their expiry date', () => {
+      expect(getExpirationReason({ expiresAt: new Date('2025-06-01T11:59:59Z') }, 0, now)).toBe('expired');
+    });
+
+    it('should report links that used up their click budget', () => {
+      expect(getExpirationReason({ maxClicks: 5 }, 5, now)).toBe('exhausted');
+      expect(getExpirationReason({ maxClicks: 5 }, 4, now)).toBeNull();
+    });
+
+    it('should prefer the expiry date when both limits are reached', () => {
+      expect(getExpirationReason({
+        expiresAt: new Date('2025-01-01T00:00:00Z'),
+        maxClicks: 1,
+      }, 3, now)).toBe('expired');
+    });
+  });
+
+  describe('isLinkExpired', () => {
+    it('should mirror getExpirationReason', () => {
+      expect(isLinkExpired({ maxClicks: 1 }, 1, now)).toBe(true);
+      expect(isLinkExpired({ expiresAt: new Date('2030-01-01T00:00:00Z') }, 0, now)).toBe(false);
+    });
+  });
+});
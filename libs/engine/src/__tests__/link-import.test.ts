@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { parseImportFile, extractShortCode } from '../domain/link-import';
+import { ValidationError } from '../domain/errors';
+
+describe('Link Import', () => {
+  describe('parseImportFile', () => {
+    it('should read a Bitly-style CSV export', () => {
+      const csv = [
+        'Title,Bitlink,Long URL,Created,Clicks,Tags',
+        'Launch,bit.ly/3xYzAbc,https://example.com/launch,2023-05-01T10:00:00Z,1204,"spring, email"',
+      ].join('\n');
+
+      expect(parseImportFile(csv)).toEqual([
+        {
+          code: '3xYzAbc',
+          url: 'https://example.com/launch',
+          createdAt: '2023-05-01T10:00:00Z',
+          clicks: '1204',
+          tags: ['spring', 'email'],
+        },
+      ]);
+    });
+
+    it('should read a JSON array with code, url and created_at', () => {
+      const json = JSON.stringify([
+        { code: 'promo', url: 'https://example.com/promo', created_at: '2024-01-01' },
+        { code: 'docs', url: 'https://example.com/docs' },
+      ]);
+
+      expect(parseImportFile(json)).toEqual([
+        { code: 'promo', url: 'https://example.com/promo', createdAt: '2024-01-01', clicks: undefined, tags: undefined },
+        { code: 'docs', url: 'https://example.com/docs', createdAt: undefined, clicks: undefined, tags: undefined },
+      ]);
+    });
+
+    it('should read this app\'s NDJSON export', () => {
+      const ndjson = [
+        JSON.stringify({ code: 'abc123', shortUrl: 'https://sho.rt/s/abc123', originalUrl: 'https://example.com', createdAt: '2026-01-01T00:00:00.000Z', tags: ['a'], visitCount: 3 }),
+        JSON.stringify({ code: 'def456', shortUrl: 'https://sho.rt/s/def456', originalUrl: 'https://example.org', createdAt: null, tags: [], visitCount: 0 }),
+      ].join('\n');
+
+      const records = parseImportFile(ndjson);
+
+      expect(records[0]).toEqual({
+        code: 'abc123',
+        url: 'https://example.com',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        clicks: '3',
+        tags: ['a'],
+      });
+      expect(records[1]).toMatchObject({ code: 'def456', createdAt: undefined, clicks: '0' });
+    });
+
+    it('should accept a list wrapped in a links property', () => {
+      const json = JSON.stringify({ links: [{ short_code: 'promo', long_url: 'https://example.com' }] });
+
+      expect(parseImportFile(json)).toMatchObject([{ code: 'promo', url: 'https://example.com' }]);
+    });
+
+    it('should keep rows with missing values so they can be reported', () => {
+      expect(parseImportFile('code,url\n,https://example.com\n')).toMatchObject([
+        { code: '', url: 'https://example.com' },
+      ]);
+    });
+
+    it('should reject files without code and URL columns', () => {
+      expect(() => parseImportFile('name,email\nAda,ada@example.com\n')).toThrow(ValidationError);
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => parseImportFile('[{"code": "abc"')).toThrow(/not valid JSON/);
+    });
+
+    it('should return nothing for an empty file', () => {
+      expect(parseImportFile('  \n')).toEqual([]);
+    });
+  });
+
+  describe('extractShortCode', () => {
+    it('should take the last path segment of short links', () => {
+      expect(extractShortCode('bit.ly/3xYzAbc')).toBe('3xYzAbc');
+      expect(extractShortCode('https://sho.rt/s/promo?utm=x')).toBe('promo');
+      expect(extractShortCode('promo')).toBe('promo');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { isShareableLink, isShareableSavedLink } from '../domain/link-sharing';
+
+describe('Link sharing', () => {
+  it('should share plain links', () => {
+    expect(isShareableLink({})).toBe(true);
+    expect(isShareableLink({ redirectStatus: 302, tags: [] })).toBe(true);
+  });
+
+  it.each([
+    ['an alias', { alias: 'spring-sale' }],
+    ['an expiry', { expiresAt: new Date('2030-01-01') }],
+    ['a click limit', { maxClicks: 10 }],
+    ['a password', { passwordHash: 'hash' }],
+    ['an API key', { apiKeyId: 'key-1' }],
+    ['a custom redirect status', { redirectStatus: 301 }],
+    ['a social card title', { ogTitle: 'Sale' }],
+    ['tags', { tags: ['spring'] }],
+    ['imported clicks', { importedClicks: 0 }],
+  ])('should not share links with %s', (_, settings) => {
+    expect(isShareableLink(settings)).toBe(false);
+  });
+
+  it('should treat saved links without a generated code as aliased or imported', () => {
+    const link = { originalUrl: 'https://example.com', redirectStatus: 302, tags: [] };
+
+    expect(isShareableSavedLink({ ...link, shortCode: 'aB3dE5gH' })).toBe(true);
+    expect(isShareableSavedLink({ ...link, shortCode: 'spring-sale' })).toBe(false);
+    expect(isShareableSavedLink({ ...link, shortCode: 'bit1y7x' })).toBe(false);
+  });
+
+  it('should not share deleted links', () => {
+    expect(isShareableSavedLink({
+      originalUrl: 'https://example.com',
+      shortCode: 'aB3dE5gH',
+      deletedAt: new Date(),
+    })).toBe(false);
+  });
+});
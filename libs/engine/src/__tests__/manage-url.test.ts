@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ShortenUrlUseCase } from '../use-cases/shorten-url';
+import { UpdateUrlDestinationUseCase } from '../use-cases/update-url-destination';
+import { DeleteUrlUseCase } from '../use-cases/delete-url';
+import { RestoreUrlUseCase } from '../use-cases/restore-url';
+import {
+  generateManagementSecret,
+  hashManagementSecret,
+  verifyManagementSecret,
+} from '../domain/management-secret';
+import { ForbiddenError, NotFoundError, ValidationError } from '../domain/errors';
+import { InvalidUrlError } from '../domain/url-validation';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+describe('Management Secrets', () => {
+  it('should generate distinct secrets', () => {
+    expect(generateManagementSecret()).not.toBe(generateManagementSecret());
+  });
+
+  it('should verify a secret against its hash', () => {
+    const secret = generateManagementSecret();
+    const hash = hashManagementSecret(secret);
+
+    expect(hash).not.toContain(secret);
+    expect(verifyManagementSecret(secret, hash)).toBe(true);
+    expect(verifyManagementSecret('wrong', hash)).toBe(false);
+  });
+});
+
+describe('Link Management Use Cases', () => {
+  let repository: InMemoryUrlRepository;
+  let shortCode: string;
+  let secret: string;
+
+  beforeEach(async () => {
+    repository = new InMemoryUrlRepository();
+    const created = await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+    shortCode = created.shortCode;
+    secret = created.managementSecret!;
+  });
+
+  it('should return a management secret only when a link is created', async () => {
+    const shorten = new ShortenUrlUseCase(repository);
+    const again = await shorten.execute('https://example.com/typo');
+
+    expect(secret).toBeTruthy();
+    expect(again.shortCode).toBe(shortCode);
+    expect(again.managementSecret).toBeUndefined();
+  });
+
+  describe('UpdateUrlDestinationUseCase', () => {
+    it('should change the destination', async () => {
+      const useCase = new UpdateUrlDestinationUseCase(repository);
+
+      const updated = await useCase.execute(shortCode, 'https://example.com/fixed/', secret);
+
+      expect(updated.originalUrl).toBe('https://example.com/fixed');
+      expect((await repository.findByShortCode(shortCode))?.originalUrl).toBe('https://example.com/fixed');
+    });
+
+    it('should stop sharing the link for its old URL', async () => {
+      await new UpdateUrlDestinationUseCase(repository).execute(shortCode, 'https://example.com/fixed', secret);
+
+      const fresh = await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+
+      expect(fresh.shortCode).not.toBe(shortCode);
+    });
+
+    it('should reject a wrong secret', async () => {
+      const useCase = new UpdateUrlDestinationUseCase(repository);
+
+      await expect(useCase.execute(shortCode, 'https://example.com/fixed', 'wrong'))
+        .rejects
+        .toThrow(ForbiddenError);
+    });
+
+    it('should reject unknown links', async () => {
+      const useCase = new UpdateUrlDestinationUseCase(repository);
+
+      await expect(useCase.execute('missing', 'https://example.com', secret))
+        .rejects
+        .toThrow(NotFoundError);
+    });
+
+    it('should validate the new destination', async () => {
+      const useCase = new UpdateUrlDestinationUseCase(repository);
+
+      await expect(useCase.execute(shortCode, 'http://example.com', secret))
+        .rejects
+        .toThrow(InvalidUrlError);
+    });
+
+    it('should refuse to edit a deleted link', async () => {
+      await new DeleteUrlUseCase(repository).execute(shortCode, secret);
+
+      await expect(new UpdateUrlDestinationUseCase(repository).execute(shortCode, 'https://example.com/x', secret))
+        .rejects
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('DeleteUrlUseCase / RestoreUrlUseCase', () => {
+    it('should soft-delete and restore a link', async () => {
+      const deleted = await new DeleteUrlUseCase(repository).execute(shortCode, secret);
+      expect(deleted.deletedAt).toBeInstanceOf(Date);
+      expect(repository.has(shortCode)).toBe(true);
+
+      const restored = await new RestoreUrlUseCase(repository).execute(shortCode, secret);
+      expect(restored.deletedAt).toBeNull();
+    });
+
+    it('should give the next request for a deleted URL a new link', async () => {
+      await new DeleteUrlUseCase(repository).execute(shortCode, secret);
+
+      const fresh = await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+
+      expect(fresh.shortCode).not.toBe(shortCode);
+      expect(fresh.deletedAt).toBeUndefined();
+    });
+
+    it('should be idempotent', async () => {
+      const useCase = new DeleteUrlUseCase(repository);
+
+      const first = await useCase.execute(shortCode, secret);
+      const second = await useCase.execute(shortCode, secret);
+
+      expect(second.deletedAt).toEqual(first.deletedAt);
+    });
+
+    it('should reject a wrong secret', async () => {
+      await expect(new DeleteUrlUseCase(repository).execute(shortCode, 'wrong')).rejects.toThrow(ForbiddenError);
+      await expect(new RestoreUrlUseCase(repository).execute(shortCode, 'wrong')).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should not hand out a deleted link when the URL is shortened again', async () => {
+      await new DeleteUrlUseCase(repository).execute(shortCode, secret);
+
+      const fresh = await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+
+      expect(fresh.shortCode).not.toBe(shortCode);
+      expect(fresh.managementSecret).toBeTruthy();
+    });
+
+    it('should let operators delete without the secret', async () => {
+      const deleted = await new DeleteUrlUseCase(repository).executeAsOperator(shortCode);
+
+      expect(deleted.deletedAt).toBeInstanceOf(Date);
+      await expect(new DeleteUrlUseCase(repository).executeAsOperator('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Shared links', () => {
+    it('should lock a link once it is handed to a second creator', async () => {
+      await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+
+      await expect(new UpdateUrlDestinationUseCase(repository).execute(shortCode, 'https://phish.example', secret))
+        .rejects.toThrow(/no longer be changed or deleted/);
+      await expect(new DeleteUrlUseCase(repository).execute(shortCode, secret)).rejects.toThrow(ForbiddenError);
+      expect((await repository.findByShortCode(shortCode))?.originalUrl).toBe('https://example.com/typo');
+    });
+
+    it('should refuse an edit when the link was handed out after it was read', async () => {
+      const stale = await repository.findByShortCode(shortCode);
+      await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+      const findByShortCode = repository.findByShortCode.bind(repository);
+      repository.findByShortCode = async () => stale;
+
+      await expect(new UpdateUrlDestinationUseCase(repository).execute(shortCode, 'https://phish.example', secret))
+        .rejects.toThrow(ForbiddenError);
+      await expect(new DeleteUrlUseCase(repository).execute(shortCode, secret)).rejects.toThrow(ForbiddenError);
+
+      repository.findByShortCode = findByShortCode;
+      expect((await repository.findByShortCode(shortCode))?.deletedAt).toBeUndefined();
+    });
+
+    it('should give a fresh link when the creator edited the link after it was looked up', async () => {
+      const stale = await repository.findByShortCode(shortCode);
+      await new UpdateUrlDestinationUseCase(repository).execute(shortCode, 'https://example.com/fixed', secret);
+      repository.findByNormalizedUrl = async () => stale;
+
+      const fresh = await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+
+      expect(fresh.shortCode).not.toBe(shortCode);
+      expect(fresh.managementSecret).toBeTruthy();
+    });
+
+    it('should let operators delete shared links', async () => {
+      await new ShortenUrlUseCase(repository).execute('https://example.com/typo');
+
+      const deleted = await new DeleteUrlUseCase(repository).executeAsOperator(shortCode);
+
+      expect(deleted.deletedAt).toBeInstanceOf(Date);
+    });
+  });
+});
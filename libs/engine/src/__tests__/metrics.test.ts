@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from '../domain/metrics';
+
+describe('MetricsRegistry', () => {
+  it('should render counters in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const errors = registry.counter('app_errors_total', 'Failed requests, by error code');
+
+    errors.inc({ code: 'NOT_FOUND' });
+    errors.inc({ code: 'NOT_FOUND' });
+    errors.inc({ code: 'DATABASE_ERROR' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP app_errors_total Failed requests, by error code',
+        '# TYPE app_errors_total counter',
+        'app_errors_total{code="NOT_FOUND"} 2',
+        'app_errors_total{code="DATABASE_ERROR"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should treat label sets in any order as the same series', () => {
+    const counter = new MetricsRegistry().counter('app_requests_total', 'Requests');
+
+    counter.inc({ method: 'GET', status: '200' });
+    counter.inc({ status: '200', method: 'GET' });
+
+    expect(counter.get({ method: 'GET', status: '200' })).toBe(2);
+  });
+
+  it('should render histograms with cumulative buckets, sum and count', () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram('app_query_seconds', 'Query time', [0.01, 0.1]);
+
+    duration.observe({ method: 'find' }, 0.005);
+    duration.observe({ method: 'find' }, 0.05);
+    duration.observe({ method: 'find' }, 2);
+
+    expect(registry.render().split('\n').slice(2, 7)).toEqual([
+      'app_query_seconds_bucket{method="find",le="0.01"} 1',
+      'app_query_seconds_bucket{method="find",le="0.1"} 2',
+      'app_query_seconds_bucket{method="find",le="+Inf"} 3',
+      'app_query_seconds_sum{method="find"} 2.055',
+      'app_query_seconds_count{method="find"} 3',
+    ]);
+  });
+
+  it('should read collected metrics when rendering', () => {
+    const registry = new MetricsRegistry();
+    let queued = 4;
+    registry.collect('app_queued', 'Items waiting', 'gauge', () => [{ labels: {}, value: queued }]);
+
+    queued = 7;
+
+    expect(registry.render()).toContain('# TYPE app_queued gauge\napp_queued 7\n');
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('app_events_total', 'Events').inc({ path: 'say "hi"\\now' });
+
+    expect(registry.render()).toContain('app_events_total{path="say \\"hi\\"\\\\now"} 1');
+  });
+
+  it('should refuse to register a name twice', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('app_errors_total', 'Errors');
+
+    expect(() => registry.counter('app_errors_total', 'Errors')).toThrow('already registered');
+  });
+});
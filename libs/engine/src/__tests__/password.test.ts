@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword, validatePassword } from '../domain/password';
+import { UnlockAttemptThrottle } from '../domain/unlock-attempt-throttle';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import { ValidationError, RateLimitError } from '../domain/errors';
+
+describe('Link Passwords', () => {
+  describe('validatePassword', () => {
+    it('should accept reasonable passwords', () => {
+      expect(() => validatePassword('hunter2')).not.toThrow();
+    });
+
+    it('should reject passwords that are too short', () => {
+      expect(() => validatePassword('abc')).toThrow(ValidationError);
+    });
+
+    it('should reject passwords that are too long', () => {
+      expect(() => validatePassword('x'.repeat(129))).toThrow(/at most/);
+    });
+  });
+
+  describe('hashPassword / verifyPassword', () => {
+    it('should never store the password in plain text', async () => {
+      const hash = await hashPassword('correct horse');
+
+      expect(hash).not.toContain('correct horse');
+      expect(hash.startsWith('scrypt$')).toBe(true);
+    });
+
+    it('should salt each hash', async () => {
+      const [first, second] = await Promise.all([hashPassword('same'), hashPassword('same')]);
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should verify the correct password', async () => {
+      const hash = await hashPassword('correct horse');
+
+      await expect(verifyPassword('correct horse', hash)).resolves.toBe(true);
+    });
+
+    it('should reject an incorrect password', async () => {
+      const hash = await hashPassword('correct horse');
+
+      await expect(verifyPassword('battery staple', hash)).resolves.toBe(false);
+    });
+
+    it('should reject malformed hashes', async () => {
+      await expect(verifyPassword('anything', 'not-a-hash')).resolves.toBe(false);
+    });
+  });
+});
+
+describe('UnlockAttemptThrottle', () => {
+  it('should allow attempts below the limit', async () => {
+    const throttle = new UnlockAttemptThrottle(new InMemoryRateLimiter(), { maxFailures: 3 });
+
+    await throttle.beginAttempt('key');
+    await throttle.beginAttempt('key');
+
+    await expect(throttle.beginAttempt('key')).resolves.toBeUndefined();
+  });
+
+  it('should block once the limit is reached', async () => {
+    const throttle = new UnlockAttemptThrottle(new InMemoryRateLimiter(), { maxFailures: 2 });
+
+    await throttle.beginAttempt('key');
+    await throttle.beginAttempt('key');
+
+    await expect(throttle.beginAttempt('key')).rejects.toThrow(RateLimitError);
+  });
+
+  it('should let only as many concurrent attempts through as the limit allows', async () => {
+    const throttle = new UnlockAttemptThrottle(new InMemoryRateLimiter(), { maxFailures: 2 });
+
+    const attempts = await Promise.allSettled(Array.from({ length: 5 }, () => throttle.beginAttempt('key')));
+
+    expect(attempts.filter(attempt => attempt.status === 'fulfilled')).toHaveLength(2);
+  });
+
+  it('should allow attempts again after the window passes', async () => {
+    let now = 0;
+    const throttle = new UnlockAttemptThrottle(
+      new InMemoryRateLimiter(() => now),
+      { maxFailures: 1, windowMs: 1000 }
+    );
+
+    await throttle.beginAttempt('key');
+    await expect(throttle.beginAttempt('key')).rejects.toThrow(RateLimitError);
+
+    now = 1000;
+    await expect(throttle.beginAttempt('key')).resolves.toBeUndefined();
+  });
+
+  it('should clear attempts on reset', async () => {
+    const throttle = new UnlockAttemptThrottle(new InMemoryRateLimiter(), { maxFailures: 1 });
+
+    await throttle.beginAttempt('key');
+    await throttle.reset('key');
+
+    await expect(throttle.beginAttempt('key')).resolves.toBeUndefined();
+  });
+});
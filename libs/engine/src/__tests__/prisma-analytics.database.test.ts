@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PrismaAnalyticsRepository } from '../adapters/prisma-repository';
+import { createTestDatabase, DATABASE_TESTS_ENABLED, type TestDatabase } from './support/sqlite-database';
+
+// A Wednesday
+const now = new Date('2026-03-18T14:35:12Z');
+
+describe.skipIf(!DATABASE_TESTS_ENABLED)('PrismaAnalyticsRepository on SQLite', () => {
+  let database: TestDatabase;
+  let repository: PrismaAnalyticsRepository;
+
+  beforeAll(async () => {
+    database = createTestDatabase();
+    repository = new PrismaAnalyticsRepository(database.prisma);
+
+    // Written through Prisma, so the raw queries read dates stored the way the app stores them
+    const url = await database.prisma.url.create({
+      data: { originalUrl: 'https://example.com', shortCode: 'abc12345' },
+    });
+    await database.prisma.visit.createMany({
+      data: [
+        { timestamp: new Date('2026-03-08T23:59:59Z'), visitorHash: 'old' },
+        { timestamp: new Date('2026-03-16T00:00:00Z'), visitorHash: 'a' },
+        { timestamp: new Date('2026-03-16T08:30:00Z'), visitorHash: 'a' },
+        { timestamp: new Date('2026-03-16T23:59:59.999Z'), visitorHash: 'b' },
+        { timestamp: new Date('2026-03-18T09:00:00Z'), visitorHash: null },
+        { timestamp: new Date('2026-03-18T10:00:00Z'), visitorHash: 'c', isBot: true },
+        { timestamp: new Date('2026-03-18T15:00:00Z'), visitorHash: 'future' },
+      ].map(visit => ({ ...visit, urlId: url.id })),
+    });
+  });
+
+  afterAll(async () => {
+    await database?.drop();
+  });
+
+  it('should count visits and distinct visitors per day inside the window', async () => {
+    const points = await repository.getVisitTimeSeries('abc12345', 'day', new Date('2026-03-16T00:00:00Z'), now);
+
+    expect(points).toEqual([
+      { start: new Date('2026-03-16T00:00:00Z'), count: 3, uniqueVisitors: 2 },
+      { start: new Date('2026-03-17T00:00:00Z'), count: 0, uniqueVisitors: 0 },
+      { start: new Date('2026-03-18T00:00:00Z'), count: 1, uniqueVisitors: 0 },
+    ]);
+  });
+
+  it('should start weeks on Monday and include bots when asked', async () => {
+    const points = await repository.getVisitTimeSeries(
+      'abc12345',
+      'week',
+      new Date('2026-03-02T00:00:00Z'),
+      now,
+      { includeBots: true }
+    );
+
+    expect(points).toEqual([
+      { start: new Date('2026-03-02T00:00:00Z'), count: 1, uniqueVisitors: 1 },
+      { start: new Date('2026-03-09T00:00:00Z'), count: 0, uniqueVisitors: 0 },
+      { start: new Date('2026-03-16T00:00:00Z'), count: 5, uniqueVisitors: 3 },
+    ]);
+  });
+
+  it('should count distinct visitors', async () => {
+    await expect(repository.getUniqueVisitors('abc12345')).resolves.toBe(4);
+    await expect(repository.getUniqueVisitors('abc12345', { includeBots: true })).resolves.toBe(5);
+    await expect(repository.getUniqueVisitors('missing1')).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { PrismaRateLimiter } from '../adapters/prisma-rate-limiter';
+import { RATE_LIMIT_PURGE_INTERVAL_MS } from '../domain/rate-limit';
+import { createTestDatabase, DATABASE_TESTS_ENABLED, type TestDatabase } from './support/sqlite-database';
+
+const rule = { limit: 2, windowMs: 1000 };
+const start = Date.parse('2026-03-18T14:35:12Z');
+
+describe.skipIf(!DATABASE_TESTS_ENABLED)('PrismaRateLimiter on SQLite', () => {
+  let database: TestDatabase;
+  let now: number;
+  let limiter: PrismaRateLimiter;
+
+  beforeAll(() => {
+    database = createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await database.prisma.rateLimitHit.deleteMany();
+    now = start;
+    limiter = new PrismaRateLimiter(database.prisma, () => now);
+  });
+
+  afterAll(async () => {
+    await database?.drop();
+  });
+
+  it('should allow hits up to the limit', async () => {
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: false, remaining: 0 });
+    expect(await database.prisma.rateLimitHit.count()).toBe(2);
+  });
+
+  it('should let hits through again once the oldest leaves the window', async () => {
+    await limiter.consume('key', rule);
+    now = start + 400;
+    await limiter.consume('key', rule);
+
+    now = start + 999;
+    expect(await limiter.consume('key', rule)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1 });
+
+    now = start + 1000;
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await limiter.peek('key', rule)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 400 });
+  });
+
+  it('should count keys separately and forget a key on reset', async () => {
+    await limiter.consume('key', rule);
+    await limiter.consume('key', rule);
+
+    expect(await limiter.consume('other', rule)).toMatchObject({ allowed: true });
+
+    await limiter.reset('key');
+    expect(await limiter.peek('key', rule)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(await limiter.peek('other', rule)).toMatchObject({ remaining: 1 });
+  });
+
+  it('should purge hits that have left their window', async () => {
+    await limiter.consume('key', rule);
+    await limiter.consume('idle', { limit: 2, windowMs: RATE_LIMIT_PURGE_INTERVAL_MS * 2 });
+
+    now = start + RATE_LIMIT_PURGE_INTERVAL_MS;
+    await limiter.consume('key', rule);
+
+    const keys = await database.prisma.rateLimitHit.findMany({ select: { key: true }, orderBy: { createdAt: 'asc' } });
+    expect(keys).toEqual([{ key: 'idle' }, { key: 'key' }]);
+  });
+
+  it('should not let concurrent requests take more than the limit', async () => {
+    const results = await Promise.all(Array.from({ length: 10 }, () => limiter.consume('key', rule)));
+
+    expect(results.filter(result => result.allowed)).toHaveLength(2);
+    expect(await database.prisma.rateLimitHit.count({ where: { key: 'key' } })).toBe(2);
+  });
+});
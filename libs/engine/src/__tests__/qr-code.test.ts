@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encodeQrCode, validateQrCodeOptions, DEFAULT_QR_CODE_OPTIONS } from '../domain/qr-code';
+import { GenerateQrCodeUseCase } from '../use-cases/generate-qr-code';
+import { NotFoundError, ValidationError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('QR Code', () => {
+  it('should fill in defaults', () => {
+    expect(validateQrCodeOptions({})).toEqual(DEFAULT_QR_CODE_OPTIONS);
+    expect(validateQrCodeOptions({ size: 128, errorCorrectionLevel: 'H' })).toMatchObject({
+      size: 128,
+      errorCorrectionLevel: 'H',
+      margin: 4,
+    });
+  });
+
+  it('should reject out-of-range options', () => {
+    expect(() => validateQrCodeOptions({ size: 10 })).toThrow(ValidationError);
+    expect(() => validateQrCodeOptions({ size: 100.5 })).toThrow(ValidationError);
+    expect(() => validateQrCodeOptions({ margin: -1 })).toThrow(ValidationError);
+    expect(() => validateQrCodeOptions({ errorCorrectionLevel: 'X' as never })).toThrow(ValidationError);
+    expect(() => validateQrCodeOptions({ darkColor: 'red' })).toThrow(ValidationError);
+    expect(() => validateQrCodeOptions({ lightColor: '#ffffff00' })).not.toThrow();
+  });
+
+  it('should name the offending field', () => {
+    try {
+      validateQrCodeOptions({ darkColor: 'blue' });
+    } catch (error) {
+      expect((error as ValidationError).field).toBe('darkColor');
+    }
+  });
+
+  it('should encode SVG with the requested size and colors', async () => {
+    const qr = await encodeQrCode('https://sho.rt/s/abc12345', 'svg', { size: 200, darkColor: '#112233' });
+    const svg = new TextDecoder().decode(qr.body);
+
+    expect(qr.contentType).toBe('image/svg+xml');
+    expect(svg).toContain('<svg');
+    expect(svg).toContain('width="200"');
+    expect(svg).toContain('#112233');
+  });
+
+  it('should encode PNG', async () => {
+    const qr = await encodeQrCode('https://sho.rt/s/abc12345', 'png', { size: 64 });
+
+    expect(qr.contentType).toBe('image/png');
+    expect(Array.from(qr.body.slice(0, 8))).toEqual(PNG_SIGNATURE);
+  });
+});
+
+describe('GenerateQrCodeUseCase', () => {
+  let urlRepository: InMemoryUrlRepository;
+  let useCase: GenerateQrCodeUseCase;
+
+  beforeEach(() => {
+    urlRepository = new InMemoryUrlRepository();
+    useCase = new GenerateQrCodeUseCase(urlRepository);
+  });
+
+  it('should encode the short URL of an existing link', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+
+    const qr = await useCase.execute('abc12345', 'https://sho.rt/s/abc12345', 'svg');
+
+    expect(qr.format).toBe('svg');
+    expect(new TextDecoder().decode(qr.body)).toContain('<svg');
+  });
+
+  it('should throw NotFoundError for unknown or deleted links', async () => {
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'gone1234', deletedAt: new Date() });
+
+    await expect(useCase.execute('missing1', 'https://sho.rt/s/missing1', 'png')).rejects.toThrow(NotFoundError);
+    await expect(useCase.execute('gone1234', 'https://sho.rt/s/gone1234', 'png')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { withQueryTiming } from '../adapters/query-timing';
+import { Histogram } from '../domain/metrics';
+
+class FakeAdapter {
+  calls = 0;
+
+  async find(id: string): Promise<string> {
+    this.calls++;
+    return this.format(id);
+  }
+
+  async fail(): Promise<never> {
+    throw new Error('Database unavailable');
+  }
+
+  async *stream(): AsyncGenerator<number> {
+    yield 1;
+  }
+
+  async format(id: string): Promise<string> {
+    return `row ${id}`;
+  }
+}
+
+describe('withQueryTiming', () => {
+  it('should time each call by adapter and method', async () => {
+    const histogram = new Histogram('query_seconds', 'Query time');
+    const adapter = withQueryTiming(new FakeAdapter(), 'fake', histogram);
+
+    await expect(adapter.find('1')).resolves.toBe('row 1');
+    await adapter.find('2');
+
+    expect(histogram.count({ adapter: 'fake', method: 'find' })).toBe(2);
+    // Calls the adapter makes on itself are part of the outer call
+    expect(histogram.count({ adapter: 'fake', method: 'format' })).toBe(0);
+    expect(adapter.calls).toBe(2);
+  });
+
+  it('should time failed calls and pass the error on', async () => {
+    const histogram = new Histogram('query_seconds', 'Query time');
+    const adapter = withQueryTiming(new FakeAdapter(), 'fake', histogram);
+
+    await expect(adapter.fail()).rejects.toThrow('Database unavailable');
+    expect(histogram.count({ adapter: 'fake', method: 'fail' })).toBe(1);
+  });
+
+  it('should pass streams through untimed', async () => {
+    const histogram = new Histogram('query_seconds', 'Query time');
+    const adapter = withQueryTiming(new FakeAdapter(), 'fake', histogram);
+
+    const values: number[] = [];
+    for await (const value of adapter.stream()) {
+      values.push(value);
+    }
+
+    expect(values).toEqual([1]);
+    expect(histogram.count({ adapter: 'fake', method: 'stream' })).toBe(0);
+  });
+});
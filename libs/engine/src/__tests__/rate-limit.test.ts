@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import { rateLimitExceeded, rateLimitKey, RATE_LIMIT_PURGE_INTERVAL_MS } from '../domain/rate-limit';
+import { ShortenUrlUseCase } from '../use-cases/shorten-url';
+import { RateLimitError, ValidationError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+
+const rule = { limit: 2, windowMs: 1000 };
+
+describe('InMemoryRateLimiter', () => {
+  let now: number;
+  let limiter: InMemoryRateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new InMemoryRateLimiter(() => now);
+  });
+
+  it('should allow hits up to the limit', async () => {
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await limiter.consume('key', rule)).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('should report when the oldest hit leaves the window', async () => {
+    await limiter.consume('key', rule);
+    now = 400;
+    await limiter.consume('key', rule);
+    now = 600;
+
+    expect(await limiter.consume('key', rule)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 400,
+    });
+  });
+
+  it('should slide the window instead of resetting it', async () => {
+    await limiter.consume('key', rule);
+    now = 400;
+    await limiter.consume('key', rule);
+
+    now = 1000;
+    expect((await limiter.consume('key', rule)).allowed).toBe(true);
+    expect((await limiter.consume('key', rule)).allowed).toBe(false);
+  });
+
+  it('should not record rejected hits', async () => {
+    await limiter.consume('key', rule);
+    await limiter.consume('key', rule);
+    await limiter.consume('key', rule);
+
+    now = 1000;
+    expect((await limiter.peek('key', rule)).remaining).toBe(2);
+  });
+
+  it('should keep keys independent', async () => {
+    await limiter.consume('a', rule);
+    await limiter.consume('a', rule);
+
+    expect((await limiter.consume('b', rule)).allowed).toBe(true);
+  });
+
+  it('should peek without recording', async () => {
+    await limiter.peek('key', rule);
+    await limiter.peek('key', rule);
+
+    expect((await limiter.peek('key', rule)).remaining).toBe(2);
+  });
+
+  it('should forget hits on reset', async () => {
+    await limiter.consume('key', rule);
+    await limiter.consume('key', rule);
+    await limiter.reset('key');
+
+    expect((await limiter.consume('key', rule)).allowed).toBe(true);
+  });
+
+  it('should only let the limit through when hits arrive together', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => limiter.consume('key', rule)));
+
+    expect(results.filter(result => result.allowed)).toHaveLength(2);
+  });
+
+  it('should drop keys that are not seen again once their hits expire', async () => {
+    await limiter.consume('a', rule);
+    await limiter.consume('b', { limit: 2, windowMs: 10 * 60 * 1000 });
+
+    now = RATE_LIMIT_PURGE_INTERVAL_MS;
+    await limiter.consume('c', rule);
+
+    // b's window is still open
+    expect(limiter.size()).toBe(2);
+    expect((await limiter.peek('b', { limit: 2, windowMs: 10 * 60 * 1000 })).remaining).toBe(1);
+  });
+});
+
+describe('Rate limit helpers', () => {
+  it('should prefer the API key over the client IP', () => {
+    expect(rateLimitKey('shorten', { apiKeyId: 'k1', clientKey: '1.2.3.4' })).toBe('shorten:key:k1');
+    expect(rateLimitKey('shorten', { clientKey: '1.2.3.4' })).toBe('shorten:ip:1.2.3.4');
+    expect(rateLimitKey('shorten', {})).toBe('shorten:ip:anonymous');
+  });
+
+  it('should round the wait up to whole seconds', () => {
+    const error = rateLimitExceeded({ allowed: false, remaining: 0, retryAfterMs: 1200 }, 'Slow down.');
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterSeconds).toBe(2);
+    expect(error.message).toBe('Slow down. Please try again in 2 seconds.');
+  });
+
+  it('should describe long waits in minutes', () => {
+    const error = rateLimitExceeded({ allowed: false, remaining: 0, retryAfterMs: 90_000 }, 'Slow down.');
+
+    expect(error.retryAfterSeconds).toBe(90);
+    expect(error.message).toMatch(/2 minutes/);
+  });
+});
+
+describe('ShortenUrlUseCase rate limiting', () => {
+  let useCase: ShortenUrlUseCase;
+
+  beforeEach(() => {
+    useCase = new ShortenUrlUseCase(new InMemoryUrlRepository(), new InMemoryRateLimiter(), rule);
+  });
+
+  it('should reject clients that create links too quickly', async () => {
+    await useCase.execute('https://example.com/1', { clientKey: '1.2.3.4' });
+    await useCase.execute('https://example.com/2', { clientKey: '1.2.3.4' });
+
+    const attempt = useCase.execute('https://example.com/3', { clientKey: '1.2.3.4' });
+    await expect(attempt).rejects.toThrow(RateLimitError);
+    await expect(attempt).rejects.toMatchObject({ retryAfterSeconds: 1 });
+  });
+
+  it('should count invalid attempts', async () => {
+    await expect(useCase.execute('http://insecure.com', { clientKey: '1.2.3.4' }))
+      .rejects
+      .toThrow(ValidationError);
+    await useCase.execute('https://example.com/1', { clientKey: '1.2.3.4' });
+
+    await expect(useCase.execute('https://example.com/2', { clientKey: '1.2.3.4' }))
+      .rejects
+      .toThrow(RateLimitError);
+  });
+
+  it('should limit API keys separately from IPs', async () => {
+    await useCase.execute('https://example.com/1', { clientKey: '1.2.3.4' });
+    await useCase.execute('https://example.com/2', { clientKey: '1.2.3.4' });
+
+    const result = await useCase.execute('https://example.com/3', {
+      clientKey: '1.2.3.4',
+      apiKey: { id: 'key-1', dailyQuota: null },
+    });
+
+    expect(result.shortCode).toBeDefined();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateRedirectSettings,
+  redirectCacheControl,
+  isRedirectStatus,
+  isPermanentRedirect,
+} from '../domain/redirect-status';
+import { ValidationError } from '../domain/errors';
+
+describe('Redirect Status', () => {
+  it('should recognise supported statuses', () => {
+    expect([301, 302, 307, 308].every(isRedirectStatus)).toBe(true);
+    expect(isRedirectStatus(303)).toBe(false);
+    expect(isRedirectStatus('301')).toBe(false);
+    expect(isPermanentRedirect(308)).toBe(true);
+    expect(isPermanentRedirect(307)).toBe(false);
+  });
+
+  it('should accept temporary redirects with any other settings', () => {
+    expect(() => validateRedirectSettings({ redirectStatus: 307, maxClicks: 3, password: 'letmein' })).not.toThrow();
+    expect(() => validateRedirectSettings({})).not.toThrow();
+  });
+
+  it('should reject permanent redirects on budgeted or protected links', () => {
+    expect(() => validateRedirectSettings({ redirectStatus: 301, maxClicks: 3 })).toThrow(ValidationError);
+    expect(() => validateRedirectSettings({ redirectStatus: 308, password: 'letmein' })).toThrow(ValidationError);
+  });
+
+  it('should keep temporary redirects out of caches', () => {
+    expect(redirectCacheControl(302)).toBe('private, no-store');
+    expect(redirectCacheControl(307)).toBe('private, no-store');
+  });
+
+  it('should cache permanent redirects for a day at most', () => {
+    expect(redirectCacheControl(301)).toBe('public, max-age=86400');
+  });
+
+  it('should not cache permanent redirects past the link\'s expiry', () => {
+    const now = new Date('2026-03-18T10:00:00Z');
+
+    expect(redirectCacheControl(308, new Date('2026-03-18T11:00:00Z'), now)).toBe('public, max-age=3600');
+    expect(redirectCacheControl(308, new Date('2026-03-18T10:00:00Z'), now)).toBe('private, no-store');
+  });
+});
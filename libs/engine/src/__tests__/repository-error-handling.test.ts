@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PrismaUrlRepository, PrismaAnalyticsRepository } from '../adapters/prisma-repository';
 import { DatabaseError, DatabaseConnectionError, DatabaseTimeoutError } from '../domain/errors';
 import type { Url } from '../domain/url';
+import { hashNormalizedUrl } from '../domain/url-validation';
 
 // Mock Prisma errors
 class MockPrismaClientKnownRequestError extends Error {
@@ -28,6 +29,7 @@ describe('PrismaUrlRepository Error Handling', () => {
     mockPrisma = {
       url: {
         create: vi.fn(),
+        update: vi.fn(),
         findUnique: vi.fn(),
         findMany: vi.fn(),
       },
@@ -98,6 +100,63 @@ describe('PrismaUrlRepository Error Handling', () => {
     });
   });
 
+  describe('update', () => {
+    it('should handle connection errors', async () => {
+      const error = new MockPrismaClientInitializationError('Cannot connect to database');
+      mockPrisma.url.update.mockRejectedValue(error);
+
+      await expect(repository.update('abc123', { deletedAt: new Date() })).rejects.toThrow(DatabaseError);
+      await expect(repository.update('abc123', { deletedAt: new Date() })).rejects.toThrow(/Failed to update URL/);
+    });
+
+    it('should update the link by short code', async () => {
+      const updated = {
+        id: 1,
+        originalUrl: 'https://example.com/new',
+        shortCode: 'abc123',
+        createdAt: new Date(),
+        tags: '',
+      };
+      mockPrisma.url.update.mockResolvedValue(updated);
+
+      const result = await repository.update('abc123', { originalUrl: 'https://example.com/new' });
+
+      expect(result).toEqual({ ...updated, tags: [] });
+      expect(mockPrisma.url.update).toHaveBeenCalledWith({
+        where: { shortCode: 'abc123' },
+        data: { originalUrl: 'https://example.com/new' },
+      });
+    });
+  });
+
+  describe('saveMany', () => {
+    it('should create all links in one transaction', async () => {
+      mockPrisma.$transaction = vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations));
+      mockPrisma.url.create.mockImplementation(async ({ data }: any) => ({ id: data.shortCode, ...data }));
+
+      const saved = await repository.saveMany([
+        { originalUrl: 'https://example.com/a', shortCode: 'aaa111', tags: ['spring', 'email'] },
+        { originalUrl: 'https://example.com/b', shortCode: 'bbb222' },
+      ]);
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.url.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ shortCode: 'aaa111', tags: 'spring,email' }),
+      });
+      expect(saved.map(url => url.tags)).toEqual([['spring', 'email'], []]);
+    });
+
+    it('should convert a failed transaction into a DatabaseError', async () => {
+      mockPrisma.$transaction = vi.fn().mockRejectedValue(
+        new MockPrismaClientKnownRequestError('Unique constraint failed', 'P2002')
+      );
+
+      await expect(repository.saveMany([{ originalUrl: 'https://example.com', shortCode: 'abc123' }]))
+        .rejects
+        .toThrow(/Failed to save URLs/);
+    });
+  });
+
   describe('findByShortCode', () => {
     it('should handle connection errors', async () => {
       const error = new MockPrismaClientInitializationError('Cannot connect to database');
@@ -121,13 +180,35 @@ describe('PrismaUrlRepository Error Handling', () => {
         originalUrl: 'https://example.com',
         shortCode: 'abc123',
         createdAt: new Date(),
+        tags: 'spring,email',
       };
 
       mockPrisma.url.findUnique.mockResolvedValue(mockUrl);
 
       const result = await repository.findByShortCode('abc123');
 
-      expect(result).toEqual(mockUrl);
+      expect(result).toEqual({ ...mockUrl, tags: ['spring', 'email'] });
+    });
+  });
+
+  describe('findByNormalizedUrl', () => {
+    it('should look the URL up by its hash', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue(null);
+
+      await repository.findByNormalizedUrl('https://example.com/page');
+
+      expect(mockPrisma.url.findUnique).toHaveBeenCalledWith({
+        where: { normalizedUrlHash: hashNormalizedUrl('https://example.com/page') },
+      });
+    });
+
+    it('should handle connection errors', async () => {
+      const error = new MockPrismaClientInitializationError('Cannot connect to database');
+      mockPrisma.url.findUnique.mockRejectedValue(error);
+
+      await expect(repository.findByNormalizedUrl('https://example.com')).rejects.toThrow(
+        /Failed to find URL by normalized URL/
+      );
     });
   });
 
@@ -170,6 +251,17 @@ describe('PrismaUrlRepository Error Handling', () => {
 
       expect(result).toHaveLength(2);
     });
+
+    it('should fetch only the newest links up to the limit', async () => {
+      mockPrisma.url.findMany.mockResolvedValue([]);
+
+      await repository.findAll(20);
+
+      expect(mockPrisma.url.findMany).toHaveBeenCalledWith({
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      });
+    });
   });
 
   describe('findAllWithStats', () => {
@@ -200,6 +292,84 @@ describe('PrismaUrlRepository Error Handling', () => {
       expect(result[0].visitCount).toBe(5);
     });
   });
+
+  describe('findManyWithStatsByShortCodes', () => {
+    it('should only query the requested short codes', async () => {
+      mockPrisma.url.findMany.mockResolvedValue([
+        {
+          id: 1,
+          originalUrl: 'https://example.com',
+          shortCode: 'abc123',
+          createdAt: new Date(),
+          _count: { visits: 2 },
+        },
+      ]);
+
+      const result = await repository.findManyWithStatsByShortCodes(['abc123', 'def456']);
+
+      expect(mockPrisma.url.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { shortCode: { in: ['abc123', 'def456'] } },
+          include: { _count: { select: { visits: { where: { isBot: false } } } } },
+        })
+      );
+      expect(result[0].visitCount).toBe(2);
+    });
+
+    it('should not query the database for an empty list', async () => {
+      const result = await repository.findManyWithStatsByShortCodes([]);
+
+      expect(result).toEqual([]);
+      expect(mockPrisma.url.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should handle connection errors', async () => {
+      const error = new MockPrismaClientInitializationError('Cannot connect to database');
+      mockPrisma.url.findMany.mockRejectedValue(error);
+
+      await expect(repository.findManyWithStatsByShortCodes(['abc123'])).rejects.toThrow(DatabaseError);
+    });
+  });
+
+  describe('streamWithStats', () => {
+    const record = (id: string) => ({
+      id,
+      originalUrl: 'https://example.com',
+      shortCode: `code-${id}`,
+      createdAt: new Date(),
+      tags: '',
+      _count: { visits: 1 },
+    });
+
+    it('should fetch pages after the last link of the previous page', async () => {
+      mockPrisma.url.findMany
+        .mockResolvedValueOnce([record('a'), record('b')])
+        .mockResolvedValueOnce([record('c')]);
+
+      const codes: string[] = [];
+      for await (const url of repository.streamWithStats({ apiKeyId: 'key-1' }, 2)) {
+        codes.push(url.shortCode);
+      }
+
+      expect(codes).toEqual(['code-a', 'code-b', 'code-c']);
+      expect(mockPrisma.url.findMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.url.findMany.mock.calls[0][0]).toMatchObject({ where: { apiKeyId: 'key-1' }, take: 2 });
+      expect(mockPrisma.url.findMany.mock.calls[0][0].cursor).toBeUndefined();
+      expect(mockPrisma.url.findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: 'b' }, skip: 1, take: 2 });
+    });
+
+    it('should handle connection errors', async () => {
+      mockPrisma.url.findMany.mockRejectedValue(new MockPrismaClientInitializationError('Cannot connect to database'));
+
+      const consume = async () => {
+        for await (const _url of repository.streamWithStats({ shortCodes: ['abc123'] })) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(/Failed to export URLs/);
+    });
+  });
 });
 
 describe('PrismaAnalyticsRepository Error Handling', () => {
@@ -213,7 +383,12 @@ describe('PrismaAnalyticsRepository Error Handling', () => {
       },
       visit: {
         create: vi.fn(),
+        createMany: vi.fn(),
+        groupBy: vi.fn(),
+        findMany: vi.fn(),
+        aggregate: vi.fn(),
       },
+      $queryRaw: vi.fn(),
     };
     repository = new PrismaAnalyticsRepository(mockPrisma);
   });
@@ -238,16 +413,58 @@ describe('PrismaAnalyticsRepository Error Handling', () => {
       mockPrisma.url.findUnique.mockResolvedValue({ id: 1 });
       mockPrisma.visit.create.mockResolvedValue({ id: 1, urlId: 1 });
 
-      await expect(repository.trackVisit('abc123', 'Mozilla/5.0')).resolves.toBeUndefined();
+      await expect(repository.trackVisit('abc123', { userAgent: 'Mozilla/5.0' })).resolves.toBeUndefined();
       expect(mockPrisma.visit.create).toHaveBeenCalledWith({
         data: {
           urlId: 1,
           userAgent: 'Mozilla/5.0',
+          referrer: null,
+          browser: null,
+          os: null,
+          deviceClass: null,
+          isBot: false,
+          visitorHash: null,
         },
       });
     });
   });
 
+  describe('recordVisits', () => {
+    it('should write the batch with a single createMany', async () => {
+      const timestamp = new Date('2026-03-18T10:00:00Z');
+      mockPrisma.visit.createMany.mockResolvedValue({ count: 2 });
+
+      await repository.recordVisits([
+        { urlId: 'u1', timestamp, userAgent: 'Mozilla/5.0', deviceClass: 'desktop' },
+        { urlId: 'u2', timestamp, isBot: true, visitorHash: 'abc' },
+      ]);
+
+      expect(mockPrisma.url.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.visit.createMany).toHaveBeenCalledWith({
+        data: [
+          { urlId: 'u1', timestamp, userAgent: 'Mozilla/5.0', referrer: null, browser: null, os: null, deviceClass: 'desktop', isBot: false, visitorHash: null },
+          { urlId: 'u2', timestamp, userAgent: null, referrer: null, browser: null, os: null, deviceClass: null, isBot: true, visitorHash: 'abc' },
+        ],
+      });
+    });
+
+    it('should skip empty batches', async () => {
+      await repository.recordVisits([]);
+
+      expect(mockPrisma.visit.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should handle connection errors', async () => {
+      mockPrisma.visit.createMany.mockRejectedValue(
+        new MockPrismaClientInitializationError('Cannot connect to database')
+      );
+
+      await expect(
+        repository.recordVisits([{ urlId: 'u1', timestamp: new Date() }])
+      ).rejects.toThrow(/Failed to record visits/);
+    });
+  });
+
   describe('getVisits', () => {
     it('should handle connection errors', async () => {
       const error = new MockPrismaClientInitializationError('Cannot connect to database');
@@ -274,6 +491,191 @@ describe('PrismaAnalyticsRepository Error Handling', () => {
       const result = await repository.getVisits('abc123');
 
       expect(result).toBe(10);
+      expect(mockPrisma.url.findUnique).toHaveBeenCalledWith({
+        where: { shortCode: 'abc123' },
+        include: { _count: { select: { visits: { where: { isBot: false } } } } },
+      });
+    });
+
+    it('should count bot visits only when asked to', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue({ id: 1, _count: { visits: 12 } });
+
+      await repository.getVisits('abc123', { includeBots: true });
+
+      expect(mockPrisma.url.findUnique).toHaveBeenCalledWith({
+        where: { shortCode: 'abc123' },
+        include: { _count: { select: { visits: true } } },
+      });
+    });
+  });
+
+  describe('getUniqueVisitors', () => {
+    it('should count distinct visitor hashes in the database', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.$queryRaw.mockResolvedValue([{ visitors: 2n }]);
+
+      await expect(repository.getUniqueVisitors('abc123')).resolves.toBe(2);
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.visit.groupBy).not.toHaveBeenCalled();
+    });
+
+    it('should return 0 for unknown links', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue(null);
+
+      await expect(repository.getUniqueVisitors('notfound')).resolves.toBe(0);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBreakdown', () => {
+    it('should return an empty breakdown for unknown links', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue(null);
+
+      await expect(repository.getBreakdown('notfound', 'referrer')).resolves.toEqual([]);
+      expect(mockPrisma.visit.groupBy).not.toHaveBeenCalled();
+    });
+
+    it('should sort groups by count and apply the limit', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.visit.groupBy.mockResolvedValue([
+        { deviceClass: 'desktop', _count: { _all: 1 } },
+        { deviceClass: 'mobile', _count: { _all: 4 } },
+        { deviceClass: null, _count: { _all: 2 } },
+      ]);
+
+      const result = await repository.getBreakdown('abc123', 'deviceClass', 2);
+
+      expect(result).toEqual([
+        { value: 'mobile', count: 4 },
+        { value: null, count: 2 },
+      ]);
+      expect(mockPrisma.visit.groupBy).toHaveBeenCalledWith({
+        by: ['deviceClass'],
+        where: { urlId: 1, isBot: false },
+        _count: { _all: true },
+      });
+    });
+
+    it('should handle connection errors', async () => {
+      const error = new MockPrismaClientInitializationError('Cannot connect to database');
+      mockPrisma.url.findUnique.mockRejectedValue(error);
+
+      await expect(repository.getBreakdown('abc123', 'os')).rejects.toThrow(/Failed to get visit breakdown/);
+    });
+  });
+
+  describe('getVisitTimeSeries', () => {
+    const since = new Date('2026-03-16T00:00:00Z');
+    const until = new Date('2026-03-18T14:35:12Z');
+
+    it('should fill the buckets counted in the database', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { start: BigInt(Date.parse('2026-03-16T00:00:00Z')), count: 2n, uniqueVisitors: 1n },
+        { start: BigInt(Date.parse('2026-03-18T00:00:00Z')), count: 1n, uniqueVisitors: 1n },
+      ]);
+
+      const points = await repository.getVisitTimeSeries('abc123', 'day', since, until);
+
+      expect(points).toEqual([
+        { start: new Date('2026-03-16T00:00:00Z'), count: 2, uniqueVisitors: 1 },
+        { start: new Date('2026-03-17T00:00:00Z'), count: 0, uniqueVisitors: 0 },
+        { start: new Date('2026-03-18T00:00:00Z'), count: 1, uniqueVisitors: 1 },
+      ]);
+      expect(mockPrisma.visit.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return empty buckets for unknown links', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue(null);
+
+      const points = await repository.getVisitTimeSeries('notfound', 'day', since, until);
+
+      expect(points.map(point => point.count)).toEqual([0, 0, 0]);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should handle connection errors', async () => {
+      const error = new MockPrismaClientInitializationError('Cannot connect to database');
+      mockPrisma.url.findUnique.mockRejectedValue(error);
+
+      await expect(
+        repository.getVisitTimeSeries('abc123', 'hour', new Date(), new Date())
+      ).rejects.toThrow(/Failed to get visit time series/);
+    });
+  });
+
+  describe('getVisitRange', () => {
+    it('should return the first and last visit', async () => {
+      const first = new Date('2026-01-01T00:00:00Z');
+      const last = new Date('2026-03-01T00:00:00Z');
+      mockPrisma.url.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.visit.aggregate.mockResolvedValue({ _min: { timestamp: first }, _max: { timestamp: last } });
+
+      await expect(repository.getVisitRange('abc123', { includeBots: true })).resolves.toEqual({
+        firstVisitAt: first,
+        lastVisitAt: last,
+      });
+      expect(mockPrisma.visit.aggregate).toHaveBeenCalledWith({
+        where: { urlId: 1 },
+        _min: { timestamp: true },
+        _max: { timestamp: true },
+      });
+    });
+
+    it('should return nulls for unknown links', async () => {
+      mockPrisma.url.findUnique.mockResolvedValue(null);
+
+      await expect(repository.getVisitRange('notfound')).resolves.toEqual({
+        firstVisitAt: null,
+        lastVisitAt: null,
+      });
+    });
+  });
+
+  describe('streamVisits', () => {
+    it('should page through visits within the range, bots included', async () => {
+      const since = new Date('2026-01-01T00:00:00Z');
+      const until = new Date('2026-02-01T00:00:00Z');
+      const visit = (id: string) => ({
+        id,
+        timestamp: since,
+        userAgent: 'Mozilla/5.0',
+        referrer: null,
+        browser: 'Firefox',
+        os: 'Linux',
+        deviceClass: 'desktop',
+        isBot: false,
+        visitorHash: 'hash',
+        urlId: 'url-1',
+        url: { shortCode: 'abc123' },
+      });
+      mockPrisma.visit.findMany
+        .mockResolvedValueOnce([visit('v1')])
+        .mockResolvedValueOnce([]);
+
+      const visits = [];
+      for await (const exported of repository.streamVisits({ shortCodes: ['abc123'] }, { since, until }, 1)) {
+        visits.push(exported);
+      }
+
+      expect(visits).toEqual([
+        {
+          id: 'v1',
+          shortCode: 'abc123',
+          timestamp: since,
+          referrer: null,
+          browser: 'Firefox',
+          os: 'Linux',
+          deviceClass: 'desktop',
+          isBot: false,
+          visitorHash: 'hash',
+        },
+      ]);
+      expect(mockPrisma.visit.findMany.mock.calls[0][0].where).toEqual({
+        url: { shortCode: { in: ['abc123'] } },
+        timestamp: { gte: since, lte: until },
+      });
+      expect(mockPrisma.visit.findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: 'v1' }, skip: 1 });
     });
   });
 });
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseShortCodeList, MAX_SHORT_CODES_PER_QUERY } from '../domain/short-code-list';
+import { ValidationError } from '../domain/errors';
+
+describe('parseShortCodeList', () => {
+  it('should return an empty list for a missing parameter', () => {
+    expect(parseShortCodeList(null)).toEqual([]);
+    expect(parseShortCodeList('')).toEqual([]);
+  });
+
+  it('should split, trim and deduplicate codes', () => {
+    expect(parseShortCodeList('abc123, q3-launch,,abc123')).toEqual(['abc123', 'q3-launch']);
+  });
+
+  it('should reject malformed codes', () => {
+    expect(() => parseShortCodeList('abc123,<script>')).toThrow(ValidationError);
+    expect(() => parseShortCodeList('x'.repeat(33))).toThrow(/Invalid short code/);
+  });
+
+  it('should cap the number of codes', () => {
+    const codes = Array.from({ length: MAX_SHORT_CODES_PER_QUERY + 1 }, (_, i) => `code${i}`);
+
+    expect(parseShortCodeList(codes.slice(0, MAX_SHORT_CODES_PER_QUERY).join(','))).toHaveLength(
+      MAX_SHORT_CODES_PER_QUERY
+    );
+    expect(() => parseShortCodeList(codes.join(','))).toThrow(/At most 50/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { performance } from 'node:perf_hooks';
+import { PrismaUrlRepository } from '../adapters/prisma-repository';
+import { ShortenUrlUseCase } from '../use-cases/shorten-url';
+import { hashNormalizedUrl } from '../domain/url-validation';
+import { createTestDatabase, DATABASE_TESTS_ENABLED, type TestDatabase } from './support/sqlite-database';
+
+const LARGE_TABLE_SIZE = 100_000;
+const SEED_BATCH_SIZE = 5_000;
+const SAMPLE_SIZE = 200;
+
+/**
+ * Fills the database with shared links, as if they had been shortened before
+ */
+async function seed(database: TestDatabase, from: number, to: number): Promise<void> {
+  for (let start = from; start < to; start += SEED_BATCH_SIZE) {
+    const end = Math.min(start + SEED_BATCH_SIZE, to);
+    await database.prisma.url.createMany({
+      data: Array.from({ length: end - start }, (_, offset) => {
+        const originalUrl = `https://seed.example.com/${start + offset}`;
+        return {
+          originalUrl,
+          shortCode: `seed${String(start + offset).padStart(8, '0')}`,
+          normalizedUrlHash: hashNormalizedUrl(originalUrl),
+        };
+      }),
+    });
+  }
+}
+
+/**
+ * Average time of a call, over seeded URLs spread across the table
+ */
+async function measure(existing: number, call: (url: string, i: number) => Promise<unknown>): Promise<number> {
+  const start = performance.now();
+  for (let i = 0; i < SAMPLE_SIZE; i++) {
+    await call(`https://seed.example.com/${(i * 7919) % existing}`, i);
+  }
+  return (performance.now() - start) / SAMPLE_SIZE;
+}
+
+describe.skipIf(!DATABASE_TESTS_ENABLED)('ShortenUrlUseCase benchmark', () => {
+  let database: TestDatabase;
+  let repository: PrismaUrlRepository;
+  let useCase: ShortenUrlUseCase;
+
+  beforeAll(() => {
+    database = createTestDatabase();
+    repository = new PrismaUrlRepository(database.prisma);
+    useCase = new ShortenUrlUseCase(repository);
+  });
+
+  afterAll(async () => {
+    await database?.drop();
+  });
+
+  it(`should find and shorten duplicates in constant time with ${LARGE_TABLE_SIZE.toLocaleString('en-US')} rows`, async () => {
+    const lookUp = (url: string) => repository.findByNormalizedUrl(url);
+    // A mix of new and already shortened URLs, like real traffic
+    const shorten = (round: string) => (url: string, i: number) =>
+      useCase.execute(i % 2 === 0 ? `https://new.example.com/${round}/${i}` : url);
+
+    await seed(database, 0, 1_000);
+    // Warm up so connection setup and JIT compilation don't skew the small-table measurement
+    await measure(1_000, lookUp);
+    const smallLookup = await measure(1_000, lookUp);
+    const smallShorten = await measure(1_000, shorten('small'));
+
+    await seed(database, 1_000, LARGE_TABLE_SIZE);
+    const largeLookup = await measure(LARGE_TABLE_SIZE, lookUp);
+    const largeShorten = await measure(LARGE_TABLE_SIZE, shorten('large'));
+
+    expect(await database.prisma.url.count()).toBeGreaterThanOrEqual(LARGE_TABLE_SIZE);
+    // A table scan would be ~100x slower here; allow generous noise for shared CI machines
+    expect(largeLookup).toBeLessThan(smallLookup * 5 + 1);
+    expect(largeShorten).toBeLessThan(smallShorten * 5 + 1);
+  }, 300_000);
+});
@@ -1,49 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ShortenUrlUseCase } from '../use-cases/shorten-url';
 import type { UrlRepository } from '../ports/repository';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
 import type { Url } from '../domain/url';
-
-/**
- * In-memory repository implementation for testing
- */
-class InMemoryUrlRepository implements UrlRepository {
-  private urls: Map<string, Url> = new Map();
-  private visitCounts: Map<string, number> = new Map();
-
-  async save(url: Url): Promise<Url> {
-    this.urls.set(url.shortCode, url);
-    return url;
-  }
-
-  async findByShortCode(shortCode: string): Promise<Url | null> {
-    return this.urls.get(shortCode) || null;
-  }
-
-  async findAll(): Promise<Url[]> {
-    return Array.from(this.urls.values());
-  }
-
-  async findAllWithStats(): Promise<(Url & { visitCount: number })[]> {
-    return Array.from(this.urls.values()).map(url => ({
-      ...url,
-      visitCount: this.visitCounts.get(url.shortCode) || 0,
-    }));
-  }
-
-  // Helper methods for testing
-  clear(): void {
-    this.urls.clear();
-    this.visitCounts.clear();
-  }
-
-  size(): number {
-    return this.urls.size;
-  }
-
-  has(shortCode: string): boolean {
-    return this.urls.has(shortCode);
-  }
-}
+import { hashNormalizedUrl } from '../domain/url-validation';
+import { DuplicateEntryError, ValidationError } from '../domain/errors';
+import { MetricsRegistry, createShortenerMetrics } from '../domain/metrics';
 
 describe('ShortenUrlUseCase', () => {
   let repository: InMemoryUrlRepository;
@@ -216,6 +178,40 @@ describe('ShortenUrlUseCase', () => {
     });
   });
 
+  describe('Indexed Duplicate Detection', () => {
+    it('should store the normalized URL hash on shared links', async () => {
+      const result = await useCase.execute('https://example.com/page/');
+
+      expect(result.normalizedUrlHash).toBe(hashNormalizedUrl('https://example.com/page'));
+    });
+
+    it('should not store a hash on links with custom settings', async () => {
+      const aliased = await useCase.execute('https://example.com', { alias: 'example' });
+      const limited = await useCase.execute('https://example.com', { maxClicks: 5 });
+
+      expect(aliased.normalizedUrlHash).toBeUndefined();
+      expect(limited.normalizedUrlHash).toBeUndefined();
+    });
+
+    it('should not scan all URLs to find duplicates', async () => {
+      const findAll = vi.spyOn(repository, 'findAll');
+
+      await useCase.execute('https://example.com');
+      await useCase.execute('https://example.com');
+
+      expect(findAll).not.toHaveBeenCalled();
+    });
+
+    it('should return one link when the same URL is shortened concurrently', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => useCase.execute('https://example.com/race'))
+      );
+
+      expect(new Set(results.map(r => r.shortCode)).size).toBe(1);
+      expect(repository.size()).toBe(1);
+    });
+  });
+
   describe('Collision Retry Mechanism', () => {
     it('should retry when collision is detected', async () => {
       // Create a mock repository that simulates collision on first attempt
@@ -224,6 +220,15 @@ describe('ShortenUrlUseCase', () => {
         async save(url: Url) {
           return url;
         },
+        async saveMany() {
+          throw new Error('Not implemented');
+        },
+        async update() {
+          throw new Error('Not implemented');
+        },
+        async updateIf() {
+          throw new Error('Not implemented');
+        },
         async findByShortCode(shortCode: string) {
           callCount++;
           // Simulate collision on first call, then no collision
@@ -236,12 +241,22 @@ describe('ShortenUrlUseCase', () => {
           }
           return null;
         },
+        async findByNormalizedUrl() {
+          return null;
+        },
         async findAll() {
           return [];
         },
         async findAllWithStats() {
           return [];
         },
+        async findManyWithStatsByShortCodes() {
+          return [];
+        },
+        async countCreatedByApiKeySince() {
+          return 0;
+        },
+        async *streamWithStats() {},
       };
 
       const useCaseWithMock = new ShortenUrlUseCase(mockRepo);
@@ -257,6 +272,15 @@ describe('ShortenUrlUseCase', () => {
         async save(url: Url) {
           return url;
         },
+        async saveMany() {
+          throw new Error('Not implemented');
+        },
+        async update() {
+          throw new Error('Not implemented');
+        },
+        async updateIf() {
+          throw new Error('Not implemented');
+        },
         async findByShortCode() {
           return {
             originalUrl: 'https://existing.com',
@@ -264,12 +288,22 @@ describe('ShortenUrlUseCase', () => {
             createdAt: new Date(),
           };
         },
+        async findByNormalizedUrl() {
+          return null;
+        },
         async findAll() {
           return [];
         },
         async findAllWithStats() {
           return [];
         },
+        async findManyWithStatsByShortCodes() {
+          return [];
+        },
+        async countCreatedByApiKeySince() {
+          return 0;
+        },
+        async *streamWithStats() {},
       };
 
       const useCaseWithMock = new ShortenUrlUseCase(alwaysCollisionRepo);
@@ -280,6 +314,207 @@ describe('ShortenUrlUseCase', () => {
     });
   });
 
+  describe('Custom Aliases', () => {
+    it('should use the alias as the short code', async () => {
+      const result = await useCase.execute('https://example.com/launch', { alias: 'q3-launch' });
+
+      expect(result.shortCode).toBe('q3-launch');
+      expect(repository.has('q3-launch')).toBe(true);
+    });
+
+    it('should trim whitespace around the alias', async () => {
+      const result = await useCase.execute('https://example.com', { alias: '  promo  ' });
+
+      expect(result.shortCode).toBe('promo');
+    });
+
+    it('should create a new link even if the URL was already shortened', async () => {
+      const generated = await useCase.execute('https://example.com');
+      const aliased = await useCase.execute('https://example.com', { alias: 'example' });
+
+      expect(aliased.shortCode).not.toBe(generated.shortCode);
+      expect(repository.size()).toBe(2);
+    });
+
+    it('should reject an alias that is already taken', async () => {
+      await useCase.execute('https://example.com', { alias: 'taken' });
+
+      await expect(useCase.execute('https://other.com', { alias: 'taken' }))
+        .rejects
+        .toThrow(ValidationError);
+      await expect(useCase.execute('https://other.com', { alias: 'taken' }))
+        .rejects
+        .toThrow(/already taken/);
+    });
+
+    it('should reject reserved and malformed aliases', async () => {
+      await expect(useCase.execute('https://example.com', { alias: 'api' })).rejects.toThrow(ValidationError);
+      await expect(useCase.execute('https://example.com', { alias: 'no spaces' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should surface a duplicate insert as a validation error', async () => {
+      const racingRepo: UrlRepository = {
+        async save() {
+          throw new DuplicateEntryError('Failed to save URL: Duplicate entry detected');
+        },
+        async saveMany() {
+          throw new Error('Not implemented');
+        },
+        async update() {
+          throw new Error('Not implemented');
+        },
+        async updateIf() {
+          throw new Error('Not implemented');
+        },
+        async findByShortCode() {
+          return null;
+        },
+        async findByNormalizedUrl() {
+          return null;
+        },
+        async findAll() {
+          return [];
+        },
+        async findAllWithStats() {
+          return [];
+        },
+        async findManyWithStatsByShortCodes() {
+          return [];
+        },
+        async countCreatedByApiKeySince() {
+          return 0;
+        },
+        async *streamWithStats() {},
+      };
+
+      const useCaseWithRace = new ShortenUrlUseCase(racingRepo);
+
+      await expect(useCaseWithRace.execute('https://example.com', { alias: 'raced' }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Expiration Settings', () => {
+    it('should store the expiry date and click limit on the link', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      const result = await useCase.execute('https://example.com', { expiresAt, maxClicks: 100 });
+
+      expect(result.expiresAt).toEqual(expiresAt);
+      expect(result.maxClicks).toBe(100);
+    });
+
+    it('should not reuse an existing link when expiration settings are given', async () => {
+      const permanent = await useCase.execute('https://example.com');
+      const limited = await useCase.execute('https://example.com', { maxClicks: 5 });
+
+      expect(limited.shortCode).not.toBe(permanent.shortCode);
+    });
+
+    it('should not hand out an expiring link for a plain request', async () => {
+      const limited = await useCase.execute('https://example.com', { maxClicks: 5 });
+      const permanent = await useCase.execute('https://example.com');
+
+      expect(permanent.shortCode).not.toBe(limited.shortCode);
+      expect(permanent.maxClicks).toBeUndefined();
+    });
+
+    it('should reject expiry dates in the past', async () => {
+      await expect(useCase.execute('https://example.com', { expiresAt: new Date(Date.now() - 1000) }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+
+    it('should reject invalid click limits', async () => {
+      await expect(useCase.execute('https://example.com', { maxClicks: 0 }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Password Protection', () => {
+    it('should store a hash instead of the password', async () => {
+      const result = await useCase.execute('https://example.com/doc', { password: 'letmein' });
+
+      expect(result.passwordHash).toBeTruthy();
+      expect(result.passwordHash).not.toContain('letmein');
+    });
+
+    it('should never share a protected link with other requests', async () => {
+      const open = await useCase.execute('https://example.com/doc');
+      const protectedLink = await useCase.execute('https://example.com/doc', { password: 'letmein' });
+      const openAgain = await useCase.execute('https://example.com/doc');
+
+      expect(protectedLink.shortCode).not.toBe(open.shortCode);
+      expect(openAgain.shortCode).toBe(open.shortCode);
+    });
+
+    it('should reject passwords that are too short', async () => {
+      await expect(useCase.execute('https://example.com', { password: 'abc' }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Redirect Status', () => {
+    it('should store the chosen status on the link', async () => {
+      const result = await useCase.execute('https://example.com/moved', { redirectStatus: 308 });
+
+      expect(result.redirectStatus).toBe(308);
+    });
+
+    it('should only share links that use the default status', async () => {
+      const open = await useCase.execute('https://example.com/moved');
+      const permanent = await useCase.execute('https://example.com/moved', { redirectStatus: 301 });
+      const explicitDefault = await useCase.execute('https://example.com/moved', { redirectStatus: 302 });
+
+      expect(permanent.shortCode).not.toBe(open.shortCode);
+      expect(explicitDefault.shortCode).toBe(open.shortCode);
+    });
+
+    it('should reject unsupported statuses', async () => {
+      await expect(useCase.execute('https://example.com', { redirectStatus: 303 as never }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+
+    it('should reject permanent redirects on links that must count every click', async () => {
+      await expect(useCase.execute('https://example.com', { redirectStatus: 301, maxClicks: 5 }))
+        .rejects
+        .toThrow(/click limit or password/);
+      await expect(useCase.execute('https://example.com', { redirectStatus: 308, password: 'letmein' }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('Social Card', () => {
+    it('should store trimmed overrides on a link of its own', async () => {
+      const open = await useCase.execute('https://example.com/sale');
+      const card = await useCase.execute('https://example.com/sale', {
+        ogTitle: '  Spring sale ',
+        ogDescription: 'Everything must go',
+        ogImage: 'https://example.com/sale.png',
+      });
+
+      expect(card.shortCode).not.toBe(open.shortCode);
+      expect(card).toMatchObject({
+        ogTitle: 'Spring sale',
+        ogDescription: 'Everything must go',
+        ogImage: 'https://example.com/sale.png',
+      });
+    });
+
+    it('should reject invalid overrides', async () => {
+      await expect(useCase.execute('https://example.com', { ogImage: 'javascript:alert(1)' }))
+        .rejects
+        .toThrow(ValidationError);
+      await expect(useCase.execute('https://example.com', { ogTitle: '   ' }))
+        .rejects
+        .toThrow(ValidationError);
+    });
+  });
+
   describe('Input Validation', () => {
     it('should reject invalid URLs', async () => {
       const invalidUrls = [
@@ -350,4 +585,19 @@ describe('ShortenUrlUseCase', () => {
       expect(uniqueCodes.size).toBe(10);
     });
   });
+
+  describe('Metrics', () => {
+    it('should count created and reused links and failures by error code', async () => {
+      const metrics = createShortenerMetrics(new MetricsRegistry());
+      const instrumented = new ShortenUrlUseCase(repository, undefined, undefined, metrics);
+
+      await instrumented.execute('https://example.com/counted');
+      await instrumented.execute('https://example.com/counted');
+      await expect(instrumented.execute('http://example.com')).rejects.toThrow(ValidationError);
+
+      expect(metrics.shortens.get({ outcome: 'created' })).toBe(1);
+      expect(metrics.shortens.get({ outcome: 'reused' })).toBe(1);
+      expect(metrics.errors.get({ operation: 'shorten', code: 'VALIDATION_ERROR' })).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateSocialCardSettings,
+  getSocialCard,
+  SOCIAL_TITLE_MAX_LENGTH,
+  SOCIAL_DESCRIPTION_MAX_LENGTH,
+} from '../domain/social-card';
+import { ValidationError } from '../domain/errors';
+
+describe('Social Card', () => {
+  it('should accept links without overrides', () => {
+    expect(() => validateSocialCardSettings({})).not.toThrow();
+  });
+
+  it('should limit the title and description length', () => {
+    expect(() => validateSocialCardSettings({ ogTitle: 'a'.repeat(SOCIAL_TITLE_MAX_LENGTH) })).not.toThrow();
+    expect(() => validateSocialCardSettings({ ogTitle: 'a'.repeat(SOCIAL_TITLE_MAX_LENGTH + 1) })).toThrow(ValidationError);
+    expect(() => validateSocialCardSettings({ ogDescription: 'a'.repeat(SOCIAL_DESCRIPTION_MAX_LENGTH + 1) }))
+      .toThrow(ValidationError);
+  });
+
+  it('should only accept http(s) image URLs', () => {
+    expect(() => validateSocialCardSettings({ ogImage: 'https://example.com/card.png' })).not.toThrow();
+    expect(() => validateSocialCardSettings({ ogImage: '/card.png' })).toThrow(ValidationError);
+    expect(() => validateSocialCardSettings({ ogImage: 'data:image/png;base64,AAAA' })).toThrow(ValidationError);
+  });
+
+  it('should flag the offending field on the error', () => {
+    try {
+      validateSocialCardSettings({ ogImage: 'not a url' });
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).field).toBe('ogImage');
+    }
+  });
+
+  it('should only build a card for links with overrides', () => {
+    expect(getSocialCard({})).toBeNull();
+    expect(getSocialCard({ ogTitle: null, ogDescription: null, ogImage: null })).toBeNull();
+    expect(getSocialCard({ ogDescription: 'Everything must go' })).toEqual({
+      title: null,
+      description: 'Everything must go',
+      imageUrl: null,
+    });
+  });
+});
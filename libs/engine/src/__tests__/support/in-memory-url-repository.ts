@@ -0,0 +1,125 @@
+import type { UrlRepository, UrlChanges, UrlCondition } from '../../ports/repository';
+import type { Url } from '../../domain/url';
+import type { LinkSelection } from '../../domain/export';
+import { hashNormalizedUrl } from '../../domain/url-validation';
+import { DuplicateEntryError } from '../../domain/errors';
+
+/**
+ * In-memory repository implementation for testing
+ */
+export class InMemoryUrlRepository implements UrlRepository {
+  private urls: Map<string, Url> = new Map();
+  private visitCounts: Map<string, number> = new Map();
+  // Mirrors the unique index on the normalized URL hash
+  private shortCodesByHash: Map<string, string> = new Map();
+
+  async save(url: Url): Promise<Url> {
+    if (url.normalizedUrlHash) {
+      if (this.shortCodesByHash.has(url.normalizedUrlHash)) {
+        throw new DuplicateEntryError('Failed to save URL: Duplicate entry detected');
+      }
+      this.shortCodesByHash.set(url.normalizedUrlHash, url.shortCode);
+    }
+    // Mirrors the database assigning an id
+    const saved = url.id ? url : { ...url, id: `url-${url.shortCode}` };
+    this.urls.set(url.shortCode, saved);
+    return saved;
+  }
+
+  async saveMany(urls: Url[]): Promise<Url[]> {
+    // Checked up front so a failing batch leaves nothing behind, like a transaction
+    const hashes = urls.map(url => url.normalizedUrlHash).filter(Boolean);
+    const codes = urls.map(url => url.shortCode);
+    if (
+      new Set(hashes).size < hashes.length ||
+      hashes.some(hash => this.shortCodesByHash.has(hash!)) ||
+      new Set(codes).size < codes.length ||
+      codes.some(code => this.urls.has(code))
+    ) {
+      throw new DuplicateEntryError('Failed to save URLs: Duplicate entry detected');
+    }
+    return Promise.all(urls.map(url => this.save(url)));
+  }
+
+  async update(shortCode: string, changes: UrlChanges): Promise<Url> {
+    const existing = this.urls.get(shortCode);
+    if (!existing) {
+      throw new Error(`No URL stored for ${shortCode}`);
+    }
+    const updated = { ...existing, ...changes };
+    if (existing.normalizedUrlHash && updated.normalizedUrlHash !== existing.normalizedUrlHash) {
+      this.shortCodesByHash.delete(existing.normalizedUrlHash);
+    }
+    if (updated.normalizedUrlHash) {
+      this.shortCodesByHash.set(updated.normalizedUrlHash, shortCode);
+    }
+    this.urls.set(shortCode, updated);
+    return updated;
+  }
+
+  async updateIf(shortCode: string, expected: UrlCondition, changes: UrlChanges): Promise<Url | null> {
+    const existing = this.urls.get(shortCode);
+    const matches = existing && Object.entries(expected).every(
+      ([field, value]) => (existing[field as keyof UrlCondition] ?? null) === value
+    );
+    return matches ? this.update(shortCode, changes) : null;
+  }
+
+  async findByShortCode(shortCode: string): Promise<Url | null> {
+    return this.urls.get(shortCode) || null;
+  }
+
+  async findByNormalizedUrl(normalizedUrl: string): Promise<Url | null> {
+    const shortCode = this.shortCodesByHash.get(hashNormalizedUrl(normalizedUrl));
+    return shortCode ? this.urls.get(shortCode) || null : null;
+  }
+
+  async findAll(limit?: number): Promise<Url[]> {
+    return Array.from(this.urls.values()).slice(0, limit);
+  }
+
+  async findAllWithStats(limit?: number): Promise<(Url & { visitCount: number })[]> {
+    return Array.from(this.urls.values()).slice(0, limit).map(url => ({
+      ...url,
+      visitCount: this.visitCounts.get(url.shortCode) || 0,
+    }));
+  }
+
+  async findManyWithStatsByShortCodes(shortCodes: string[]): Promise<(Url & { visitCount: number })[]> {
+    const all = await this.findAllWithStats();
+    return all.filter(url => shortCodes.includes(url.shortCode));
+  }
+
+  async countCreatedByApiKeySince(apiKeyId: string, since: Date): Promise<number> {
+    return Array.from(this.urls.values()).filter(
+      url => url.apiKeyId === apiKeyId && (url.createdAt ?? new Date()) >= since
+    ).length;
+  }
+
+  async *streamWithStats(selection: LinkSelection): AsyncIterable<Url & { visitCount: number }> {
+    const all = await this.findAllWithStats();
+    yield* all.filter(url => {
+      if ('apiKeyId' in selection) return url.apiKeyId === selection.apiKeyId;
+      return 'shortCodes' in selection ? selection.shortCodes.includes(url.shortCode) : true;
+    });
+  }
+
+  // Helper methods for testing
+  setVisitCount(shortCode: string, count: number): void {
+    this.visitCounts.set(shortCode, count);
+  }
+
+  clear(): void {
+    this.urls.clear();
+    this.visitCounts.clear();
+    this.shortCodesByHash.clear();
+  }
+
+  size(): number {
+    return this.urls.size;
+  }
+
+  has(shortCode: string): boolean {
+    return this.urls.has(shortCode);
+  }
+}
@@ -0,0 +1,21 @@
+import { vi } from 'vitest';
+import type { AnalyticsRepository } from '../../ports/repository';
+
+/**
+ * Analytics repository whose methods are all spies, returning empty results unless overridden
+ */
+export function createMockAnalyticsRepository(
+  overrides: Partial<AnalyticsRepository> = {}
+): AnalyticsRepository {
+  return {
+    trackVisit: vi.fn(async () => {}),
+    recordVisits: vi.fn(async () => {}),
+    getVisits: vi.fn(async () => 0),
+    getUniqueVisitors: vi.fn(async () => 0),
+    getBreakdown: vi.fn(async () => []),
+    getVisitTimeSeries: vi.fn(async () => []),
+    getVisitRange: vi.fn(async () => ({ firstVisitAt: null, lastVisitAt: null })),
+    streamVisits: vi.fn(async function* () {}),
+    ...overrides,
+  };
+}
@@ -0,0 +1,47 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PrismaClient } from '@prisma/client';
+
+const ENGINE_ROOT = fileURLToPath(new URL('../../../', import.meta.url));
+
+/**
+ * Tests against a real SQLite file need the Prisma engines, so they only run with DATABASE_TESTS=1
+ */
+export const DATABASE_TESTS_ENABLED = process.env.DATABASE_TESTS === '1';
+
+export interface TestDatabase {
+  prisma: PrismaClient;
+  /** Disconnects and deletes the database file */
+  drop(): Promise<void>;
+}
+
+/**
+ * Creates an empty SQLite database in a temporary directory and applies the current schema to it
+ */
+export function createTestDatabase(): TestDatabase {
+  const directory = mkdtempSync(path.join(tmpdir(), 'url-shortener-test-'));
+  const url = `file:${path.join(directory, 'test.db')}`;
+
+  try {
+    execFileSync(path.join(ENGINE_ROOT, 'node_modules/.bin/prisma'), ['db', 'push', '--skip-generate'], {
+      cwd: ENGINE_ROOT,
+      env: { ...process.env, DATABASE_URL: url },
+      stdio: 'ignore',
+    });
+  } catch (error) {
+    rmSync(directory, { recursive: true, force: true });
+    throw error;
+  }
+
+  const prisma = new PrismaClient({ datasourceUrl: url });
+  return {
+    prisma,
+    async drop() {
+      await prisma.$disconnect();
+      rmSync(directory, { recursive: true, force: true });
+    },
+  };
+}
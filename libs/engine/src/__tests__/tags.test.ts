@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseTagList, validateTags, MAX_TAGS_PER_LINK, TAG_MAX_LENGTH } from '../domain/tags';
+import { ValidationError } from '../domain/errors';
+
+describe('Link Tags', () => {
+  it('should split lists on commas, semicolons and spaces', () => {
+    expect(parseTagList('spring, email;promo  q2')).toEqual(['spring', 'email', 'promo', 'q2']);
+    expect(parseTagList('')).toEqual([]);
+    expect(parseTagList(undefined)).toEqual([]);
+  });
+
+  it('should lowercase and dedupe tags', () => {
+    expect(validateTags(['Spring', ' spring ', 'email_2026', 'q-2'])).toEqual(['spring', 'email_2026', 'q-2']);
+  });
+
+  it('should reject unsupported characters', () => {
+    expect(() => validateTags(['spring!'])).toThrow(ValidationError);
+    expect(() => validateTags(['-leading'])).toThrow(ValidationError);
+  });
+
+  it('should limit tag length and count', () => {
+    expect(() => validateTags(['a'.repeat(TAG_MAX_LENGTH + 1)])).toThrow(ValidationError);
+
+    const tooMany = Array.from({ length: MAX_TAGS_PER_LINK + 1 }, (_, i) => `tag${i}`);
+    expect(() => validateTags(tooMany)).toThrow(/at most/);
+  });
+});
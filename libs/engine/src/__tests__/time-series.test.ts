@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  startOfBucket,
+  timeSeriesStart,
+  fillBuckets,
+  bucketAlignment,
+  isTimeBucket,
+} from '../domain/time-bucket';
+import { GetVisitTimeSeriesUseCase } from '../use-cases/get-visit-time-series';
+import { NotFoundError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+// A Wednesday
+const now = new Date('2026-03-18T14:35:12Z');
+
+describe('Time Buckets', () => {
+  it('should align dates to the start of their bucket in UTC', () => {
+    expect(startOfBucket(now, 'hour')).toEqual(new Date('2026-03-18T14:00:00Z'));
+    expect(startOfBucket(now, 'day')).toEqual(new Date('2026-03-18T00:00:00Z'));
+    expect(startOfBucket(now, 'week')).toEqual(new Date('2026-03-16T00:00:00Z'));
+  });
+
+  it('should start weeks on Monday', () => {
+    expect(startOfBucket(new Date('2026-03-22T23:59:59Z'), 'week')).toEqual(new Date('2026-03-16T00:00:00Z'));
+    expect(startOfBucket(new Date('2026-03-16T00:00:00Z'), 'week')).toEqual(new Date('2026-03-16T00:00:00Z'));
+  });
+
+  it('should compute where a chart starts', () => {
+    expect(timeSeriesStart('day', now, 7)).toEqual(new Date('2026-03-12T00:00:00Z'));
+    expect(timeSeriesStart('hour', now, 3)).toEqual(new Date('2026-03-18T12:00:00Z'));
+  });
+
+  it('should lay out counted buckets and fill gaps with zero', () => {
+    const since = new Date('2026-03-16T00:00:00Z');
+    const points = fillBuckets(
+      [
+        { start: new Date('2026-03-18T00:00:00Z'), count: 1, uniqueVisitors: 1 },
+        { start: new Date('2026-03-16T00:00:00Z'), count: 4, uniqueVisitors: 2 },
+      ],
+      'day',
+      since,
+      now
+    );
+
+    expect(points.map(point => point.count)).toEqual([4, 0, 1]);
+    expect(points.map(point => point.uniqueVisitors)).toEqual([2, 0, 1]);
+    expect(points[1].start).toEqual(new Date('2026-03-17T00:00:00Z'));
+  });
+
+  it('should start from the bucket containing since', () => {
+    const points = fillBuckets([], 'week', new Date('2026-03-04T12:00:00Z'), now);
+
+    expect(points.map(point => point.start)).toEqual([
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-03-09T00:00:00Z'),
+      new Date('2026-03-16T00:00:00Z'),
+    ]);
+    expect(points.every(point => point.count === 0 && point.uniqueVisitors === 0)).toBe(true);
+  });
+
+  it('should describe bucket starts as an offset from the Unix epoch', () => {
+    for (const bucket of ['hour', 'day', 'week'] as const) {
+      const { lengthMs, offsetMs } = bucketAlignment(bucket);
+      const time = now.getTime();
+      expect(new Date(time - ((time - offsetMs) % lengthMs))).toEqual(startOfBucket(now, bucket));
+    }
+  });
+
+  it('should recognise bucket names', () => {
+    expect(isTimeBucket('week')).toBe(true);
+    expect(isTimeBucket('month')).toBe(false);
+    expect(isTimeBucket(null)).toBe(false);
+  });
+});
+
+describe('GetVisitTimeSeriesUseCase', () => {
+  it('should query the charted window and the first and last visit', async () => {
+    const urlRepository = new InMemoryUrlRepository();
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+    const firstVisitAt = new Date('2026-01-01T00:00:00Z');
+    const analyticsRepository = createMockAnalyticsRepository({
+      getVisitTimeSeries: vi.fn(async () => [{ start: new Date('2026-03-18T00:00:00Z'), count: 4, uniqueVisitors: 3 }]),
+      getVisitRange: vi.fn(async () => ({ firstVisitAt, lastVisitAt: now })),
+    });
+    const useCase = new GetVisitTimeSeriesUseCase(urlRepository, analyticsRepository, () => now);
+
+    const series = await useCase.execute('abc12345', 'day');
+
+    expect(analyticsRepository.getVisitTimeSeries).toHaveBeenCalledWith(
+      'abc12345',
+      'day',
+      new Date('2026-02-17T00:00:00Z'),
+      now,
+      {}
+    );
+    expect(series).toEqual({
+      bucket: 'day',
+      points: [{ start: new Date('2026-03-18T00:00:00Z'), count: 4, uniqueVisitors: 3 }],
+      firstVisitAt,
+      lastVisitAt: now,
+    });
+  });
+
+  it('should throw NotFoundError for unknown or deleted links', async () => {
+    const urlRepository = new InMemoryUrlRepository();
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'gone1234', deletedAt: now });
+    const useCase = new GetVisitTimeSeriesUseCase(urlRepository, createMockAnalyticsRepository());
+
+    await expect(useCase.execute('missing', 'hour')).rejects.toThrow(NotFoundError);
+    await expect(useCase.execute('gone1234', 'hour')).rejects.toThrow(NotFoundError);
+  });
+});
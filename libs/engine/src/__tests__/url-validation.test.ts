@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { validateUrl, normalizeUrl, InvalidUrlError } from '../domain/url-validation';
+import { ValidationError, getErrorCode, getStatusCode } from '../domain/errors';
 
 describe('URL Validation', () => {
   describe('validateUrl', () => {
@@ -142,4 +143,16 @@ describe('URL Validation', () => {
       expect(url1).toBe(url2);
     });
   });
+
+  describe('InvalidUrlError', () => {
+    it('should be reported as a validation error on the url field', () => {
+      const error = new InvalidUrlError('URL must use HTTPS protocol');
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.name).toBe('InvalidUrlError');
+      expect(error.field).toBe('url');
+      expect(getStatusCode(error)).toBe(400);
+      expect(getErrorCode(error)).toBe('VALIDATION_ERROR');
+    });
+  });
 });
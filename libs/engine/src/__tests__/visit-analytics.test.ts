@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseUserAgent } from '../domain/user-agent';
+import { parseReferrer, captureVisit } from '../domain/visit';
+import { GetVisitBreakdownUseCase } from '../use-cases/get-visit-breakdown';
+import { NotFoundError } from '../domain/errors';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+const USER_AGENTS = {
+  chromeWindows:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  edgeWindows:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51',
+  safariMac:
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+  firefoxLinux: 'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+  chromeAndroidPhone:
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+  chromeAndroidTablet:
+    'Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  safariIpad:
+    'Mozilla/5.0 (iPad; CPU OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+  chromeIphone:
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/124.0.6367.88 Mobile/15E148 Safari/604.1',
+  samsungInternet:
+    'Mozilla/5.0 (Linux; Android 14; SM-S921B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Mobile Safari/537.36',
+};
+
+describe('parseUserAgent', () => {
+  it.each([
+    ['chromeWindows', 'Chrome', 'Windows', 'desktop'],
+    ['edgeWindows', 'Edge', 'Windows', 'desktop'],
+    ['safariMac', 'Safari', 'macOS', 'desktop'],
+    ['firefoxLinux', 'Firefox', 'Linux', 'desktop'],
+    ['chromeAndroidPhone', 'Chrome', 'Android', 'mobile'],
+    ['chromeAndroidTablet', 'Chrome', 'Android', 'tablet'],
+    ['safariIpad', 'Safari', 'iOS', 'tablet'],
+    ['chromeIphone', 'Chrome', 'iOS', 'mobile'],
+    ['samsungInternet', 'Samsung Internet', 'Android', 'mobile'],
+  ] as const)('should classify %s', (name, browser, os, deviceClass) => {
+    expect(parseUserAgent(USER_AGENTS[name])).toEqual({ browser, os, deviceClass });
+  });
+
+  it('should report missing or unrecognised user agents as unknown', () => {
+    expect(parseUserAgent(undefined)).toEqual({ browser: 'Other', os: 'Other', deviceClass: 'unknown' });
+    expect(parseUserAgent('curl/8.5.0')).toEqual({ browser: 'Other', os: 'Other', deviceClass: 'unknown' });
+  });
+});
+
+describe('parseReferrer', () => {
+  it('should keep only the host', () => {
+    expect(parseReferrer('https://www.Google.com/search?q=private')).toBe('google.com');
+    expect(parseReferrer('https://news.ycombinator.com/item?id=1')).toBe('news.ycombinator.com');
+  });
+
+  it('should ignore missing and non-web referrers', () => {
+    expect(parseReferrer(undefined)).toBeNull();
+    expect(parseReferrer('')).toBeNull();
+    expect(parseReferrer('not a url')).toBeNull();
+    expect(parseReferrer('android-app://com.slack')).toBeNull();
+  });
+});
+
+describe('captureVisit', () => {
+  it('should combine the user agent and referrer', () => {
+    expect(captureVisit({ userAgent: USER_AGENTS.firefoxLinux, referrer: 'https://t.co/abc' })).toEqual({
+      userAgent: USER_AGENTS.firefoxLinux,
+      referrer: 't.co',
+      browser: 'Firefox',
+      os: 'Linux',
+      deviceClass: 'desktop',
+      isBot: false,
+    });
+  });
+
+  it('should flag link-preview fetchers as bots', () => {
+    expect(captureVisit({ userAgent: 'Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)' })).toMatchObject({
+      isBot: true,
+    });
+  });
+});
+
+describe('GetVisitBreakdownUseCase', () => {
+  it('should group visits by each dimension', async () => {
+    const urlRepository = new InMemoryUrlRepository();
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+    const analyticsRepository = createMockAnalyticsRepository({
+      getBreakdown: vi.fn(async (_shortCode: string, dimension: string) =>
+        dimension === 'deviceClass'
+          ? [{ value: 'mobile', count: 2 }, { value: 'desktop', count: 1 }]
+          : []
+      ),
+    });
+
+    const breakdown = await new GetVisitBreakdownUseCase(urlRepository, analyticsRepository).execute('abc12345');
+
+    expect(breakdown.devices).toEqual([
+      { value: 'mobile', count: 2 },
+      { value: 'desktop', count: 1 },
+    ]);
+    expect(analyticsRepository.getBreakdown).toHaveBeenCalledWith('abc12345', 'referrer', 10, {});
+    expect(analyticsRepository.trackVisit).not.toHaveBeenCalled();
+  });
+
+  it('should throw NotFoundError for unknown links', async () => {
+    await expect(
+      new GetVisitBreakdownUseCase(new InMemoryUrlRepository(), createMockAnalyticsRepository()).execute('missing')
+    ).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { VisitIngestionQueue, type DroppedVisitsEvent } from '../adapters/visit-ingestion-queue';
+import type { NewVisit } from '../domain/visit';
+import type { AnalyticsRepository } from '../ports/repository';
+import { DatabaseError } from '../domain/errors';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+function visit(n: number): NewVisit {
+  return { urlId: `url-${n}`, timestamp: new Date('2026-03-18T10:00:00Z') };
+}
+
+describe('VisitIngestionQueue', () => {
+  let analyticsRepository: AnalyticsRepository;
+  let drops: DroppedVisitsEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    analyticsRepository = createMockAnalyticsRepository();
+    drops = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createQueue(config = {}) {
+    return new VisitIngestionQueue(analyticsRepository, {
+      maxBatchSize: 3,
+      flushIntervalMs: 1000,
+      maxQueueSize: 5,
+      onDrop: event => drops.push(event),
+      ...config,
+    });
+  }
+
+  it('should write buffered visits once the interval passes', async () => {
+    const queue = createQueue();
+
+    queue.enqueue(visit(1));
+    queue.enqueue(visit(2));
+    expect(analyticsRepository.recordVisits).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(analyticsRepository.recordVisits).toHaveBeenCalledWith([visit(1), visit(2)]);
+    expect(queue.stats()).toEqual({ queued: 0, written: 2, dropped: 0 });
+  });
+
+  it('should flush as soon as a batch is full', async () => {
+    const queue = createQueue();
+
+    for (let i = 1; i <= 3; i++) {
+      queue.enqueue(visit(i));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(analyticsRepository.recordVisits).toHaveBeenCalledTimes(1);
+    expect(analyticsRepository.recordVisits).toHaveBeenCalledWith([visit(1), visit(2), visit(3)]);
+  });
+
+  it('should split large backlogs into batches', async () => {
+    const queue = createQueue({ maxBatchSize: 2, maxQueueSize: 10 });
+    vi.mocked(analyticsRepository.recordVisits).mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    });
+
+    for (let i = 1; i <= 5; i++) {
+      queue.enqueue(visit(i));
+    }
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const batches = vi.mocked(analyticsRepository.recordVisits).mock.calls.map(([batch]) => batch.length);
+    expect(batches).toEqual([2, 2, 1]);
+    expect(queue.stats().written).toBe(5);
+  });
+
+  it('should drop and report visits when the buffer is full', async () => {
+    const queue = createQueue({ maxBatchSize: 10 });
+
+    for (let i = 1; i <= 7; i++) {
+      queue.enqueue(visit(i));
+    }
+
+    expect(drops).toEqual([
+      { count: 1, reason: 'queue-full', error: undefined },
+      { count: 1, reason: 'queue-full', error: undefined },
+    ]);
+    expect(queue.stats()).toEqual({ queued: 5, written: 0, dropped: 2 });
+  });
+
+  it('should report batches that fail to write without retrying them', async () => {
+    const error = new DatabaseError('Failed to record visits: disk full');
+    vi.mocked(analyticsRepository.recordVisits).mockRejectedValueOnce(error);
+    const queue = createQueue();
+
+    queue.enqueue(visit(1));
+    queue.enqueue(visit(2));
+    await queue.flush();
+
+    expect(drops).toEqual([{ count: 2, reason: 'write-failed', error }]);
+    expect(queue.stats()).toEqual({ queued: 0, written: 0, dropped: 2 });
+
+    queue.enqueue(visit(3));
+    await queue.flush();
+    expect(analyticsRepository.recordVisits).toHaveBeenLastCalledWith([visit(3)]);
+  });
+
+  it('should drain on close and refuse visits afterwards', async () => {
+    const queue = createQueue();
+
+    queue.enqueue(visit(1));
+    await queue.close();
+    queue.enqueue(visit(2));
+
+    expect(analyticsRepository.recordVisits).toHaveBeenCalledTimes(1);
+    expect(analyticsRepository.recordVisits).toHaveBeenCalledWith([visit(1)]);
+    expect(drops).toEqual([{ count: 1, reason: 'closed', error: undefined }]);
+  });
+
+  it('should wait for an in-flight flush before closing', async () => {
+    let finishWrite: () => void = () => {};
+    vi.mocked(analyticsRepository.recordVisits).mockImplementationOnce(
+      () => new Promise<void>(resolve => { finishWrite = resolve; })
+    );
+    const queue = createQueue();
+
+    queue.enqueue(visit(1));
+    const flushing = queue.flush();
+    queue.enqueue(visit(2));
+    const closing = queue.close();
+    finishWrite();
+    await Promise.all([flushing, closing]);
+
+    expect(vi.mocked(analyticsRepository.recordVisits).mock.calls).toEqual([[[visit(1)]], [[visit(2)]]]);
+    expect(queue.stats()).toEqual({ queued: 0, written: 2, dropped: 0 });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VisitorHasher, hashVisitor, visitorDay } from '../domain/visitor-id';
+import { InMemoryVisitorSaltStore } from '../adapters/in-memory-visitor-salt-store';
+import { GetOriginalUrlUseCase } from '../use-cases/get-original-url';
+import { UnlockAttemptThrottle } from '../domain/unlock-attempt-throttle';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import type { VisitorSaltStore } from '../ports/visitor-salt-store';
+import { InMemoryUrlRepository } from './support/in-memory-url-repository';
+import { createMockAnalyticsRepository } from './support/mock-analytics-repository';
+
+const CHROME =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+describe('Visitor IDs', () => {
+  it('should name days in UTC', () => {
+    expect(visitorDay(new Date('2026-03-18T23:30:00-02:00'))).toBe('2026-03-19');
+  });
+
+  it('should hash the same visitor to the same value for a given salt', () => {
+    expect(hashVisitor('salt', '203.0.113.7', CHROME)).toBe(hashVisitor('salt', '203.0.113.7', CHROME));
+    expect(hashVisitor('salt', '203.0.113.7', CHROME)).not.toBe(hashVisitor('salt', '203.0.113.8', CHROME));
+    expect(hashVisitor('salt', '203.0.113.7', CHROME)).not.toBe(hashVisitor('other', '203.0.113.7', CHROME));
+    expect(hashVisitor('salt', '203.0.113.7', CHROME)).not.toContain('203.0.113.7');
+  });
+
+  it('should only fetch the salt once per day', async () => {
+    let now = new Date('2026-03-18T10:00:00Z');
+    const saltStore: VisitorSaltStore = { getSalt: vi.fn(async (day: string) => `salt-${day}`) };
+    const hasher = new VisitorHasher(saltStore, () => now);
+
+    const first = await hasher.hash('203.0.113.7', CHROME);
+    const again = await hasher.hash('203.0.113.7', CHROME);
+    now = new Date('2026-03-19T00:00:01Z');
+    const nextDay = await hasher.hash('203.0.113.7', CHROME);
+
+    expect(again).toBe(first);
+    expect(nextDay).not.toBe(first);
+    expect(saltStore.getSalt).toHaveBeenCalledTimes(2);
+    expect(saltStore.getSalt).toHaveBeenLastCalledWith('2026-03-19');
+  });
+
+  it('should not identify visitors without an IP', async () => {
+    const hasher = new VisitorHasher(new InMemoryVisitorSaltStore());
+
+    await expect(hasher.hash(undefined, CHROME)).resolves.toBeNull();
+    await expect(hasher.hash(' ', CHROME)).resolves.toBeNull();
+  });
+
+  it('should rotate the in-memory salt when the day changes', async () => {
+    const store = new InMemoryVisitorSaltStore();
+
+    const salt = await store.getSalt('2026-03-18');
+
+    await expect(store.getSalt('2026-03-18')).resolves.toBe(salt);
+    await expect(store.getSalt('2026-03-19')).resolves.not.toBe(salt);
+  });
+
+  it('should record a visitor hash instead of the IP when redirecting', async () => {
+    const urlRepository = new InMemoryUrlRepository();
+    await urlRepository.save({ originalUrl: 'https://example.com', shortCode: 'abc12345' });
+    const visitQueue = { enqueue: vi.fn() };
+    const now = () => new Date('2026-03-18T10:00:00Z');
+    const useCase = new GetOriginalUrlUseCase(
+      urlRepository,
+      createMockAnalyticsRepository(),
+      new UnlockAttemptThrottle(new InMemoryRateLimiter()),
+      new VisitorHasher({ getSalt: async () => 'salt' }, now),
+      visitQueue
+    );
+
+    await useCase.execute('abc12345', { userAgent: CHROME, clientIp: '203.0.113.7' });
+
+    expect(visitQueue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ visitorHash: hashVisitor('salt', '203.0.113.7', CHROME) })
+    );
+    expect(JSON.stringify(visitQueue.enqueue.mock.calls)).not.toContain('203.0.113.7');
+  });
+});
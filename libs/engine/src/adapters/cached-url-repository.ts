@@ -0,0 +1,161 @@
+import type { UrlRepository, UrlChanges, UrlCondition } from '../ports/repository';
+import type { Url } from '../domain/url';
+import type { LinkSelection } from '../domain/export';
+
+export interface UrlCacheConfig {
+  /** Short codes kept at most; the least recently used is evicted first */
+  maxEntries: number;
+  /** How long a found link is served from memory */
+  ttlMs: number;
+  /** How long an unknown short code is remembered as missing */
+  negativeTtlMs: number;
+}
+
+export interface UrlCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+}
+
+interface CacheEntry {
+  /** null caches a short code that doesn't exist */
+  url: Url | null;
+  expiresAt: number;
+}
+
+const DEFAULT_CONFIG: UrlCacheConfig = {
+  maxEntries: 10_000,
+  ttlMs: 60_000,
+  negativeTtlMs: 5_000,
+};
+
+/**
+ * Caches short code lookups in front of another URL repository
+ * Writes through this instance invalidate its cache; changes made by other processes
+ * show up once the TTL runs out.
+ */
+export class CachedUrlRepository implements UrlRepository {
+  private readonly config: UrlCacheConfig;
+  // Map keeps insertion order, so re-inserting on access makes the first key the least recently used
+  private readonly entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly repository: UrlRepository,
+    config: Partial<UrlCacheConfig> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async save(url: Url): Promise<Url> {
+    const saved = await this.repository.save(url);
+    // Drops a cached "not found" for a code that now exists
+    this.entries.delete(url.shortCode);
+    return saved;
+  }
+
+  async saveMany(urls: Url[]): Promise<Url[]> {
+    const saved = await this.repository.saveMany(urls);
+    for (const url of urls) {
+      this.entries.delete(url.shortCode);
+    }
+    return saved;
+  }
+
+  async update(shortCode: string, changes: UrlChanges): Promise<Url> {
+    try {
+      return await this.repository.update(shortCode, changes);
+    } finally {
+      // Also on failure, since the write may have reached the database
+      this.entries.delete(shortCode);
+    }
+  }
+
+  async updateIf(shortCode: string, expected: UrlCondition, changes: UrlChanges): Promise<Url | null> {
+    try {
+      return await this.repository.updateIf(shortCode, expected, changes);
+    } finally {
+      this.entries.delete(shortCode);
+    }
+  }
+
+  async findByShortCode(shortCode: string): Promise<Url | null> {
+    const entry = this.entries.get(shortCode);
+
+    if (entry && entry.expiresAt > this.now()) {
+      this.hits++;
+      this.entries.delete(shortCode);
+      this.entries.set(shortCode, entry);
+      return entry.url;
+    }
+
+    this.misses++;
+    const url = await this.repository.findByShortCode(shortCode);
+    this.set(shortCode, url);
+    return url;
+  }
+
+  findByNormalizedUrl(normalizedUrl: string): Promise<Url | null> {
+    return this.repository.findByNormalizedUrl(normalizedUrl);
+  }
+
+  findAll(limit?: number): Promise<Url[]> {
+    return this.repository.findAll(limit);
+  }
+
+  findAllWithStats(limit?: number): Promise<(Url & { visitCount: number })[]> {
+    return this.repository.findAllWithStats(limit);
+  }
+
+  findManyWithStatsByShortCodes(shortCodes: string[]): Promise<(Url & { visitCount: number })[]> {
+    return this.repository.findManyWithStatsByShortCodes(shortCodes);
+  }
+
+  countCreatedByApiKeySince(apiKeyId: string, since: Date): Promise<number> {
+    return this.repository.countCreatedByApiKeySince(apiKeyId, since);
+  }
+
+  streamWithStats(selection: LinkSelection, pageSize?: number): AsyncIterable<Url & { visitCount: number }> {
+    return this.repository.streamWithStats(selection, pageSize);
+  }
+
+  /**
+   * Forgets one short code, or everything when called without one
+   */
+  invalidate(shortCode?: string): void {
+    if (shortCode === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(shortCode);
+    }
+  }
+
+  stats(): UrlCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+    };
+  }
+
+  private set(shortCode: string, url: Url | null): void {
+    const ttlMs = url ? this.config.ttlMs : this.config.negativeTtlMs;
+    if (ttlMs <= 0 || this.config.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(shortCode);
+    this.entries.set(shortCode, { url, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+}
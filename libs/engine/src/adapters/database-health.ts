@@ -1,9 +1,14 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import {
   DatabaseConnectionError,
   DatabaseTimeoutError,
+  DatabaseSchemaError,
   DatabaseError,
 } from '../domain/errors';
+import { checkComponent, healthReport, type HealthReport } from '../domain/health';
+
+// Prisma error codes for a table or column that doesn't exist
+const MISSING_SCHEMA_ERROR_CODES = new Set(['P2021', 'P2022']);
 
 /**
  * Database Health Check Service
@@ -19,20 +24,8 @@ export class DatabaseHealthCheck {
    */
   async check(timeoutMs: number = 5000): Promise<boolean> {
     try {
-      // Create a promise that rejects after timeout
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new DatabaseTimeoutError(
-            `Database health check timed out after ${timeoutMs}ms`
-          ));
-        }, timeoutMs);
-      });
-
       // Try to execute a simple query
-      const healthCheckPromise = this.prisma.$queryRaw`SELECT 1`;
-
-      // Race between the query and timeout
-      await Promise.race([healthCheckPromise, timeoutPromise]);
+      await this.withTimeout(this.prisma.$queryRaw`SELECT 1`, timeoutMs, 'Database health check');
 
       return true;
     } catch (error) {
@@ -55,6 +48,58 @@ export class DatabaseHealthCheck {
     }
   }
 
+  /**
+   * Check that the tables and columns the app uses exist, i.e. that prisma db push was run
+   * Reads at most one row from every table, which selects each of its columns
+   * @throws {DatabaseSchemaError} If a table or column is missing
+   */
+  async checkSchema(timeoutMs: number = 5000): Promise<boolean> {
+    try {
+      await this.withTimeout(
+        Promise.all([
+          this.prisma.url.findFirst(),
+          this.prisma.visit.findFirst(),
+          this.prisma.apiKey.findFirst(),
+          this.prisma.rateLimitHit.findFirst(),
+          this.prisma.visitorSalt.findFirst(),
+        ]),
+        timeoutMs,
+        'Database schema check'
+      );
+
+      return true;
+    } catch (error) {
+      if (error instanceof DatabaseTimeoutError) {
+        throw error;
+      }
+
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        MISSING_SCHEMA_ERROR_CODES.has(error.code)
+      ) {
+        throw new DatabaseSchemaError(
+          'Database schema is out of date. Run prisma db push to apply it.',
+          error
+        );
+      }
+
+      throw new DatabaseError('Database schema check failed', error);
+    }
+  }
+
+  /**
+   * Report whether the app can serve requests: the database answers and its schema is applied
+   * Never throws; failing checks are reported with their error code
+   */
+  async readiness(timeoutMs: number = 5000): Promise<HealthReport> {
+    const [database, schema] = await Promise.all([
+      checkComponent(() => this.check(timeoutMs)),
+      checkComponent(() => this.checkSchema(timeoutMs)),
+    ]);
+
+    return healthReport({ database, schema });
+  }
+
   /**
    * Check if database is accessible without throwing
    * @returns true if accessible, false otherwise
@@ -88,6 +133,24 @@ export class DatabaseHealthCheck {
     );
   }
 
+  /**
+   * Race a query against a timer, clearing the timer so it doesn't keep the process alive
+   */
+  private async withTimeout<T>(query: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new DatabaseTimeoutError(`${name} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([query, timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Disconnect from database
    */
@@ -0,0 +1,87 @@
+import type { RateLimiter } from '../ports/rate-limiter';
+import {
+  evaluateWindow,
+  RATE_LIMIT_PURGE_INTERVAL_MS,
+  type RateLimitResult,
+  type RateLimitRule,
+} from '../domain/rate-limit';
+
+interface KeyHits {
+  hits: number[];
+  /** When the newest hit leaves its window */
+  expiresAt: number;
+}
+
+/**
+ * In-memory sliding window rate limiter
+ * Limits are per process, so use it for single-instance deployments and tests
+ */
+export class InMemoryRateLimiter implements RateLimiter {
+  private readonly keys: Map<string, KeyHits> = new Map();
+  private nextPurgeAt = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Checks and records without awaiting in between, so concurrent calls can't both take the last hit
+   */
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = this.now();
+    this.purgeExpired(now);
+
+    const hits = this.getHitsInWindow(key, rule, now);
+    const result = evaluateWindow(hits, rule, now);
+
+    if (result.allowed) {
+      hits.push(now);
+      this.keys.set(key, { hits, expiresAt: now + rule.windowMs });
+      return { ...result, remaining: result.remaining - 1 };
+    }
+
+    return result;
+  }
+
+  async peek(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = this.now();
+    return evaluateWindow(this.getHitsInWindow(key, rule, now), rule, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.keys.delete(key);
+  }
+
+  /** Number of keys with hits still held */
+  size(): number {
+    return this.keys.size;
+  }
+
+  private getHitsInWindow(key: string, rule: RateLimitRule, now: number): number[] {
+    const windowStart = now - rule.windowMs;
+    const entry = this.keys.get(key);
+    const hits = (entry?.hits ?? []).filter(hit => hit > windowStart);
+
+    if (hits.length === 0) {
+      this.keys.delete(key);
+    } else if (entry) {
+      entry.hits = hits;
+    }
+
+    return hits;
+  }
+
+  /**
+   * Drops keys whose hits have all left their window, at most once per purge interval
+   */
+  private purgeExpired(now: number): void {
+    if (now < this.nextPurgeAt) {
+      return;
+    }
+    this.nextPurgeAt = now + RATE_LIMIT_PURGE_INTERVAL_MS;
+
+    for (const [key, entry] of this.keys) {
+      if (entry.expiresAt <= now) {
+        this.keys.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import type { VisitorSaltStore } from '../ports/visitor-salt-store';
+import { generateVisitorSalt } from '../domain/visitor-id';
+
+/**
+ * In-memory visitor salt store
+ * Salts are lost on restart, which splits that day's visitors in two; use it for tests
+ */
+export class InMemoryVisitorSaltStore implements VisitorSaltStore {
+  private current: { day: string; salt: string } | null = null;
+
+  async getSalt(day: string): Promise<string> {
+    if (this.current?.day !== day) {
+      this.current = { day, salt: generateVisitorSalt() };
+    }
+    return this.current.salt;
+  }
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from 'node:crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { RateLimiter } from '../ports/rate-limiter';
+import {
+  evaluateWindow,
+  RATE_LIMIT_PURGE_INTERVAL_MS,
+  type RateLimitResult,
+  type RateLimitRule,
+} from '../domain/rate-limit';
+import {
+  DatabaseError,
+  DatabaseConnectionError,
+  DatabaseTimeoutError,
+} from '../domain/errors';
+
+/**
+ * SQLite-backed sliding window rate limiter
+ * Hits are shared by every process using the database, so limits survive restarts
+ */
+export class PrismaRateLimiter implements RateLimiter {
+  private nextPurgeAt = 0;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = this.now();
+    const windowStart = new Date(now - rule.windowMs);
+
+    try {
+      await this.purgeExpired(now);
+
+      // Counting and inserting in one statement, so concurrent requests can't both take the last hit
+      const recorded = await this.prisma.$executeRaw`
+        INSERT INTO "RateLimitHit" ("id", "key", "createdAt", "expiresAt")
+        SELECT ${randomUUID()}, ${key}, ${new Date(now)}, ${new Date(now + rule.windowMs)}
+        WHERE (
+          SELECT COUNT(*) FROM "RateLimitHit" WHERE "key" = ${key} AND "createdAt" > ${windowStart}
+        ) < ${rule.limit}
+      `;
+
+      const hits = await this.findHitsInWindow(key, windowStart);
+      if (recorded > 0) {
+        return { allowed: true, remaining: Math.max(rule.limit - hits.length, 0), retryAfterMs: 0 };
+      }
+      return { ...evaluateWindow(hits, rule, now), allowed: false, remaining: 0 };
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to record rate limit hit');
+    }
+  }
+
+  async peek(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    try {
+      const now = this.now();
+      const hits = await this.findHitsInWindow(key, new Date(now - rule.windowMs));
+      return evaluateWindow(hits, rule, now);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to check rate limit');
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    try {
+      await this.prisma.rateLimitHit.deleteMany({ where: { key } });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to reset rate limit');
+    }
+  }
+
+  private async findHitsInWindow(key: string, windowStart: Date): Promise<number[]> {
+    const hits = await this.prisma.rateLimitHit.findMany({
+      where: { key, createdAt: { gt: windowStart } },
+      select: { createdAt: true },
+    });
+    return hits.map(hit => hit.createdAt.getTime());
+  }
+
+  /**
+   * Deletes every key's hits that have left their window, at most once per purge interval
+   */
+  private async purgeExpired(now: number): Promise<void> {
+    if (now < this.nextPurgeAt) {
+      return;
+    }
+    this.nextPurgeAt = now + RATE_LIMIT_PURGE_INTERVAL_MS;
+
+    await this.prisma.rateLimitHit.deleteMany({
+      where: { expiresAt: { lte: new Date(now) } },
+    });
+  }
+
+  /**
+   * Handle Prisma errors and convert them to application errors
+   */
+  private handlePrismaError(error: unknown, context: string): Error {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      return new DatabaseError(`${context}: ${error.message}`, error);
+    }
+
+    if (error instanceof Prisma.PrismaClientInitializationError) {
+      return new DatabaseConnectionError(
+        `${context}: Unable to connect to database`,
+        error
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('timeout')) {
+      return new DatabaseTimeoutError(`${context}: Operation timed out`, error);
+    }
+
+    if (error instanceof Error) {
+      return new DatabaseError(`${context}: ${error.message}`, error);
+    }
+
+    return new DatabaseError(context, error);
+  }
+}
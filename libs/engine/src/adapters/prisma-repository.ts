@@ -1,10 +1,41 @@
 import { PrismaClient, Prisma } from '@prisma/client';
-import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import type {
+  UrlRepository,
+  AnalyticsRepository,
+  ApiKeyRepository,
+  UrlChanges,
+  UrlCondition,
+} from '../ports/repository';
 import type { Url } from '../domain/url';
+import { isApiKeyScope, type ApiKey } from '../domain/api-key';
+import { hashNormalizedUrl } from '../domain/url-validation';
+import { DEFAULT_REDIRECT_STATUS } from '../domain/redirect-status';
+import type {
+  BreakdownEntry,
+  NewVisit,
+  VisitDetails,
+  VisitDimension,
+  VisitFilter,
+  VisitRange,
+} from '../domain/visit';
+import {
+  bucketAlignment,
+  fillBuckets,
+  type TimeBucket,
+  type TimeSeriesPoint,
+} from '../domain/time-bucket';
+import {
+  EXPORT_PAGE_SIZE,
+  type ExportedVisit,
+  type ExportRange,
+  type LinkSelection,
+} from '../domain/export';
 import {
   DatabaseError,
   DatabaseConnectionError,
   DatabaseTimeoutError,
+  DuplicateEntryError,
+  NotFoundError,
 } from '../domain/errors';
 
 /**
@@ -15,67 +46,160 @@ export class PrismaUrlRepository implements UrlRepository {
 
   async save(url: Url): Promise<Url> {
     try {
-      const saved = await this.prisma.url.create({
-        data: {
-          originalUrl: url.originalUrl,
-          shortCode: url.shortCode,
-          createdAt: url.createdAt || new Date(),
-        },
-      });
-      return {
-        ...saved,
-        createdAt: saved.createdAt,
-      };
+      const saved = await this.prisma.url.create({ data: toUrlCreateInput(url) });
+      return toUrl(saved);
     } catch (error) {
       throw this.handlePrismaError(error, 'Failed to save URL');
     }
   }
 
+  async saveMany(urls: Url[]): Promise<Url[]> {
+    try {
+      const saved = await this.prisma.$transaction(
+        urls.map(url => this.prisma.url.create({ data: toUrlCreateInput(url) }))
+      );
+      return saved.map(toUrl);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to save URLs');
+    }
+  }
+
+  async update(shortCode: string, changes: UrlChanges): Promise<Url> {
+    try {
+      const updated = await this.prisma.url.update({
+        where: { shortCode },
+        data: changes,
+      });
+      return toUrl(updated);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to update URL');
+    }
+  }
+
+  async updateIf(shortCode: string, expected: UrlCondition, changes: UrlChanges): Promise<Url | null> {
+    try {
+      const { count } = await this.prisma.url.updateMany({
+        where: { shortCode, ...expected },
+        data: changes,
+      });
+      if (count === 0) return null;
+
+      const updated = await this.prisma.url.findUnique({ where: { shortCode } });
+      return updated ? toUrl(updated) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to update URL');
+    }
+  }
+
   async findByShortCode(shortCode: string): Promise<Url | null> {
     try {
       const found = await this.prisma.url.findUnique({
         where: { shortCode },
       });
       if (!found) return null;
-      return found;
+      return toUrl(found);
     } catch (error) {
       throw this.handlePrismaError(error, 'Failed to find URL by short code');
     }
   }
 
-  async findAll(): Promise<Url[]> {
+  async findByNormalizedUrl(normalizedUrl: string): Promise<Url | null> {
+    try {
+      const found = await this.prisma.url.findUnique({
+        where: { normalizedUrlHash: hashNormalizedUrl(normalizedUrl) },
+      });
+      return found ? toUrl(found) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to find URL by normalized URL');
+    }
+  }
+
+  async findAll(limit?: number): Promise<Url[]> {
     try {
-      return await this.prisma.url.findMany({
+      const urls = await this.prisma.url.findMany({
         orderBy: { createdAt: 'desc' },
+        take: limit,
       });
+      return urls.map(toUrl);
     } catch (error) {
       throw this.handlePrismaError(error, 'Failed to fetch URLs');
     }
   }
 
-  async findAllWithStats(): Promise<(Url & { visitCount: number })[]> {
+  async findAllWithStats(limit?: number): Promise<(Url & { visitCount: number })[]> {
     try {
       const urls = await this.prisma.url.findMany({
-        include: {
-          _count: {
-            select: { visits: true },
-          },
-        },
+        include: WITH_VISIT_COUNT,
         orderBy: { createdAt: 'desc' },
+        take: limit,
       });
 
-      return urls.map((url: any) => ({
-        id: url.id,
-        originalUrl: url.originalUrl,
-        shortCode: url.shortCode,
-        createdAt: url.createdAt,
-        visitCount: url._count.visits,
-      }));
+      return urls.map(toUrlWithStats);
     } catch (error) {
       throw this.handlePrismaError(error, 'Failed to fetch URLs with statistics');
     }
   }
 
+  async findManyWithStatsByShortCodes(
+    shortCodes: string[]
+  ): Promise<(Url & { visitCount: number })[]> {
+    if (shortCodes.length === 0) {
+      return [];
+    }
+
+    try {
+      const urls = await this.prisma.url.findMany({
+        where: { shortCode: { in: shortCodes } },
+        include: WITH_VISIT_COUNT,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return urls.map(toUrlWithStats);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to fetch URLs with statistics');
+    }
+  }
+
+  async countCreatedByApiKeySince(apiKeyId: string, since: Date): Promise<number> {
+    try {
+      return await this.prisma.url.count({
+        where: { apiKeyId, createdAt: { gte: since } },
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to count URLs for API key');
+    }
+  }
+
+  async *streamWithStats(
+    selection: LinkSelection,
+    pageSize: number = EXPORT_PAGE_SIZE
+  ): AsyncIterable<Url & { visitCount: number }> {
+    let cursor: string | undefined;
+
+    while (true) {
+      let page;
+      try {
+        // Cursor pagination only reads one page per query, however large the export
+        page = await this.prisma.url.findMany({
+          where: linkSelectionWhere(selection),
+          include: WITH_VISIT_COUNT,
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: pageSize,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+      } catch (error) {
+        throw this.handlePrismaError(error, 'Failed to export URLs');
+      }
+
+      yield* page.map(toUrlWithStats);
+
+      if (page.length < pageSize) {
+        return;
+      }
+      cursor = page[page.length - 1].id;
+    }
+  }
+
   /**
    * Handle Prisma errors and convert them to application errors
    */
@@ -85,7 +209,7 @@ export class PrismaUrlRepository implements UrlRepository {
       // Handle specific Prisma error codes
       switch (error.code) {
         case 'P2002':
-          return new DatabaseError(`${context}: Duplicate entry detected`);
+          return new DuplicateEntryError(`${context}: Duplicate entry detected`, error);
         case 'P2025':
           return new DatabaseError(`${context}: Record not found`);
         default:
@@ -122,13 +246,91 @@ export class PrismaUrlRepository implements UrlRepository {
   }
 }
 
+/** Default visit filter: bots are only counted when explicitly requested */
+const HUMAN_VISITS = { isBot: false } as const;
+
+/** Includes each link's human visit count */
+const WITH_VISIT_COUNT = {
+  _count: {
+    select: { visits: { where: HUMAN_VISITS } },
+  },
+} satisfies Prisma.UrlInclude;
+
+type PrismaUrlWithVisitCount = Prisma.UrlGetPayload<{ include: typeof WITH_VISIT_COUNT }>;
+
+function visitWhere(urlId: string, filter: VisitFilter): Prisma.VisitWhereInput {
+  return filter.includeBots ? { urlId } : { urlId, ...HUMAN_VISITS };
+}
+
+/** visitWhere for raw queries on the Visit table */
+function visitWhereSql(urlId: string, filter: VisitFilter): Prisma.Sql {
+  return filter.includeBots
+    ? Prisma.sql`"urlId" = ${urlId}`
+    : Prisma.sql`"urlId" = ${urlId} AND "isBot" = ${false}`;
+}
+
+/**
+ * A visit's timestamp in Unix ms, whether SQLite holds it as Unix ms or as ISO 8601 text
+ */
+const VISIT_TIME_MS = Prisma.sql`
+  CASE typeof("timestamp")
+    WHEN 'text' THEN CAST(strftime('%s', "timestamp") AS INTEGER) * 1000
+    ELSE "timestamp"
+  END
+`;
+
+interface TimeSeriesRow {
+  start: bigint | number;
+  count: bigint | number;
+  uniqueVisitors: bigint | number;
+}
+
+function linkSelectionWhere(selection: LinkSelection): Prisma.UrlWhereInput {
+  if ('apiKeyId' in selection) {
+    return { apiKeyId: selection.apiKeyId };
+  }
+  return 'shortCodes' in selection ? { shortCode: { in: selection.shortCodes } } : {};
+}
+
+type PrismaUrlRecord = Omit<Url, 'tags'> & { tags: string };
+
+function toUrlCreateInput(url: Url): Prisma.UrlUncheckedCreateInput {
+  return {
+    originalUrl: url.originalUrl,
+    shortCode: url.shortCode,
+    createdAt: url.createdAt || new Date(),
+    expiresAt: url.expiresAt ?? null,
+    maxClicks: url.maxClicks ?? null,
+    passwordHash: url.passwordHash ?? null,
+    managementSecretHash: url.managementSecretHash ?? null,
+    apiKeyId: url.apiKeyId ?? null,
+    normalizedUrlHash: url.normalizedUrlHash ?? null,
+    sharedAt: url.sharedAt ?? null,
+    redirectStatus: url.redirectStatus ?? DEFAULT_REDIRECT_STATUS,
+    ogTitle: url.ogTitle ?? null,
+    ogDescription: url.ogDescription ?? null,
+    ogImage: url.ogImage ?? null,
+    // Stored comma-separated; tags can't contain commas
+    tags: (url.tags ?? []).join(','),
+    importedClicks: url.importedClicks ?? null,
+  };
+}
+
+function toUrl(record: PrismaUrlRecord): Url {
+  return { ...record, tags: record.tags ? record.tags.split(',') : [] };
+}
+
+function toUrlWithStats({ _count, ...record }: PrismaUrlWithVisitCount): Url & { visitCount: number } {
+  return { ...toUrl(record), visitCount: _count.visits };
+}
+
 /**
  * Enhanced Prisma Analytics Repository with robust error handling
  */
 export class PrismaAnalyticsRepository implements AnalyticsRepository {
   constructor(private readonly prisma: PrismaClient) {}
 
-  async trackVisit(shortCode: string, userAgent?: string): Promise<void> {
+  async trackVisit(shortCode: string, visit: VisitDetails = {}): Promise<void> {
     try {
       // We need the ID of the URL, not just shortCode, for foreign key.
       const url = await this.prisma.url.findUnique({
@@ -139,7 +341,13 @@ export class PrismaAnalyticsRepository implements AnalyticsRepository {
         await this.prisma.visit.create({
           data: {
             urlId: url.id,
-            userAgent: userAgent || null,
+            userAgent: visit.userAgent || null,
+            referrer: visit.referrer ?? null,
+            browser: visit.browser ?? null,
+            os: visit.os ?? null,
+            deviceClass: visit.deviceClass ?? null,
+            isBot: visit.isBot ?? false,
+            visitorHash: visit.visitorHash ?? null,
           },
         });
       }
@@ -148,13 +356,37 @@ export class PrismaAnalyticsRepository implements AnalyticsRepository {
     }
   }
 
-  async getVisits(shortCode: string): Promise<number> {
+  async recordVisits(visits: NewVisit[]): Promise<void> {
+    if (visits.length === 0) {
+      return;
+    }
+
+    try {
+      await this.prisma.visit.createMany({
+        data: visits.map(visit => ({
+          urlId: visit.urlId,
+          timestamp: visit.timestamp,
+          userAgent: visit.userAgent || null,
+          referrer: visit.referrer ?? null,
+          browser: visit.browser ?? null,
+          os: visit.os ?? null,
+          deviceClass: visit.deviceClass ?? null,
+          isBot: visit.isBot ?? false,
+          visitorHash: visit.visitorHash ?? null,
+        })),
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to record visits');
+    }
+  }
+
+  async getVisits(shortCode: string, filter: VisitFilter = {}): Promise<number> {
     try {
       const url = await this.prisma.url.findUnique({
         where: { shortCode },
         include: {
           _count: {
-            select: { visits: true },
+            select: { visits: filter.includeBots ? true : { where: HUMAN_VISITS } },
           },
         },
       });
@@ -164,11 +396,292 @@ export class PrismaAnalyticsRepository implements AnalyticsRepository {
     }
   }
 
+  async getUniqueVisitors(shortCode: string, filter: VisitFilter = {}): Promise<number> {
+    try {
+      const url = await this.prisma.url.findUnique({
+        where: { shortCode },
+        select: { id: true },
+      });
+      if (!url) return 0;
+
+      const [row] = await this.prisma.$queryRaw<{ visitors: bigint | number }[]>`
+        SELECT COUNT(DISTINCT "visitorHash") AS "visitors"
+        FROM "Visit"
+        WHERE ${visitWhereSql(url.id, filter)}
+      `;
+      return Number(row?.visitors ?? 0);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to count unique visitors');
+    }
+  }
+
+  async getBreakdown(
+    shortCode: string,
+    dimension: VisitDimension,
+    limit: number = 10,
+    filter: VisitFilter = {}
+  ): Promise<BreakdownEntry[]> {
+    try {
+      const url = await this.prisma.url.findUnique({
+        where: { shortCode },
+        select: { id: true },
+      });
+      if (!url) return [];
+
+      const groups = await this.prisma.visit.groupBy({
+        by: [dimension],
+        where: visitWhere(url.id, filter),
+        _count: { _all: true },
+      });
+
+      // Sorted here so visits without a value (counted in _all only) rank fairly
+      return groups
+        .map(group => ({ value: group[dimension], count: group._count._all }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to get visit breakdown');
+    }
+  }
+
+  async getVisitTimeSeries(
+    shortCode: string,
+    bucket: TimeBucket,
+    since: Date,
+    until: Date,
+    filter: VisitFilter = {}
+  ): Promise<TimeSeriesPoint[]> {
+    try {
+      const url = await this.prisma.url.findUnique({
+        where: { shortCode },
+        select: { id: true },
+      });
+
+      if (!url) {
+        return fillBuckets([], bucket, since, until);
+      }
+
+      // COUNT(DISTINCT) skips NULLs, so visits without a visitor hash add no unique visitors
+      const { lengthMs, offsetMs } = bucketAlignment(bucket);
+      const rows = await this.prisma.$queryRaw<TimeSeriesRow[]>`
+        SELECT
+          "time" - ("time" - ${offsetMs}) % ${lengthMs} AS "start",
+          COUNT(*) AS "count",
+          COUNT(DISTINCT "visitorHash") AS "uniqueVisitors"
+        FROM (
+          SELECT ${VISIT_TIME_MS} AS "time", "visitorHash"
+          FROM "Visit"
+          WHERE ${visitWhereSql(url.id, filter)}
+            AND "timestamp" >= ${since} AND "timestamp" <= ${until}
+        )
+        GROUP BY "start"
+      `;
+
+      const points = rows.map(row => ({
+        start: new Date(Number(row.start)),
+        count: Number(row.count),
+        uniqueVisitors: Number(row.uniqueVisitors),
+      }));
+      return fillBuckets(points, bucket, since, until);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to get visit time series');
+    }
+  }
+
+  async getVisitRange(shortCode: string, filter: VisitFilter = {}): Promise<VisitRange> {
+    try {
+      const url = await this.prisma.url.findUnique({
+        where: { shortCode },
+        select: { id: true },
+      });
+      if (!url) return { firstVisitAt: null, lastVisitAt: null };
+
+      const range = await this.prisma.visit.aggregate({
+        where: visitWhere(url.id, filter),
+        _min: { timestamp: true },
+        _max: { timestamp: true },
+      });
+
+      return { firstVisitAt: range._min.timestamp, lastVisitAt: range._max.timestamp };
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to get first and last visit');
+    }
+  }
+
+  async *streamVisits(
+    selection: LinkSelection,
+    range: ExportRange = {},
+    pageSize: number = EXPORT_PAGE_SIZE
+  ): AsyncIterable<ExportedVisit> {
+    let cursor: string | undefined;
+
+    while (true) {
+      let page;
+      try {
+        page = await this.prisma.visit.findMany({
+          where: {
+            url: linkSelectionWhere(selection),
+            timestamp: { gte: range.since, lte: range.until },
+          },
+          include: { url: { select: { shortCode: true } } },
+          orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+          take: pageSize,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+      } catch (error) {
+        throw this.handlePrismaError(error, 'Failed to export visits');
+      }
+
+      yield* page.map(visit => ({
+        id: visit.id,
+        shortCode: visit.url.shortCode,
+        timestamp: visit.timestamp,
+        referrer: visit.referrer,
+        browser: visit.browser,
+        os: visit.os,
+        deviceClass: visit.deviceClass,
+        isBot: visit.isBot,
+        visitorHash: visit.visitorHash,
+      }));
+
+      if (page.length < pageSize) {
+        return;
+      }
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  /**
+   * Handle Prisma errors and convert them to application errors
+   */
+  private handlePrismaError(error: unknown, context: string): Error {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      return new DatabaseError(`${context}: ${error.message}`, error);
+    }
+
+    if (error instanceof Prisma.PrismaClientInitializationError) {
+      return new DatabaseConnectionError(
+        `${context}: Unable to connect to database`,
+        error
+      );
+    }
+
+    if (error instanceof Prisma.PrismaClientRustPanicError) {
+      return new DatabaseError(`${context}: Database engine error`, error);
+    }
+
+    if (error instanceof Prisma.PrismaClientValidationError) {
+      return new DatabaseError(`${context}: Invalid data`, error);
+    }
+
+    if (error instanceof Error && error.message.includes('timeout')) {
+      return new DatabaseTimeoutError(`${context}: Operation timed out`, error);
+    }
+
+    if (error instanceof Error) {
+      return new DatabaseError(`${context}: ${error.message}`, error);
+    }
+
+    return new DatabaseError(context, error);
+  }
+}
+
+type PrismaApiKeyRecord = Omit<ApiKey, 'scopes'> & { scopes: string };
+
+/**
+ * Prisma API Key Repository
+ * Scopes are stored as a comma-separated list since SQLite has no array columns
+ */
+export class PrismaApiKeyRepository implements ApiKeyRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async create(apiKey: ApiKey): Promise<ApiKey> {
+    try {
+      const created = await this.prisma.apiKey.create({
+        data: {
+          name: apiKey.name,
+          prefix: apiKey.prefix,
+          keyHash: apiKey.keyHash,
+          scopes: apiKey.scopes.join(','),
+          dailyQuota: apiKey.dailyQuota ?? null,
+          createdAt: apiKey.createdAt || new Date(),
+        },
+      });
+      return this.toDomain(created);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to create API key');
+    }
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    try {
+      const found = await this.prisma.apiKey.findUnique({
+        where: { keyHash },
+      });
+      return found ? this.toDomain(found) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to find API key');
+    }
+  }
+
+  async findAllWithUsage(): Promise<(ApiKey & { linkCount: number })[]> {
+    try {
+      const apiKeys = await this.prisma.apiKey.findMany({
+        include: {
+          _count: {
+            select: { urls: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return apiKeys.map(({ _count, ...apiKey }) => ({
+        ...this.toDomain(apiKey),
+        linkCount: _count.urls,
+      }));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to fetch API keys');
+    }
+  }
+
+  async markUsed(id: string, usedAt: Date): Promise<void> {
+    try {
+      await this.prisma.apiKey.update({
+        where: { id },
+        data: { lastUsedAt: usedAt },
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to update API key usage');
+    }
+  }
+
+  async revoke(id: string, revokedAt: Date): Promise<ApiKey> {
+    try {
+      const revoked = await this.prisma.apiKey.update({
+        where: { id },
+        data: { revokedAt },
+      });
+      return this.toDomain(revoked);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'Failed to revoke API key');
+    }
+  }
+
+  private toDomain(record: PrismaApiKeyRecord): ApiKey {
+    return {
+      ...record,
+      scopes: record.scopes.split(',').filter(isApiKeyScope),
+    };
+  }
+
   /**
    * Handle Prisma errors and convert them to application errors
    */
   private handlePrismaError(error: unknown, context: string): Error {
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2025') {
+        return new NotFoundError(`${context}: API key not found`);
+      }
       return new DatabaseError(`${context}: ${error.message}`, error);
     }
 
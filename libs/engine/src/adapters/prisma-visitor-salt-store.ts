@@ -0,0 +1,64 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { VisitorSaltStore } from '../ports/visitor-salt-store';
+import { generateVisitorSalt } from '../domain/visitor-id';
+import {
+  DatabaseError,
+  DatabaseConnectionError,
+  DatabaseTimeoutError,
+} from '../domain/errors';
+
+/**
+ * SQLite-backed visitor salt store
+ * Every process shares the day's salt, so restarts and multiple instances agree on visitor hashes
+ */
+export class PrismaVisitorSaltStore implements VisitorSaltStore {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async getSalt(day: string): Promise<string> {
+    try {
+      const existing = await this.prisma.visitorSalt.findUnique({ where: { day } });
+      if (existing) {
+        return existing.salt;
+      }
+
+      const [, created] = await this.prisma.$transaction([
+        // Yesterday's salt is what would let anyone link hashes back to visitors
+        this.prisma.visitorSalt.deleteMany({ where: { day: { lt: day } } }),
+        this.prisma.visitorSalt.create({ data: { day, salt: generateVisitorSalt() } }),
+      ]);
+      return created.salt;
+    } catch (error) {
+      // Another process created the salt first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.getSalt(day);
+      }
+      throw this.handlePrismaError(error, 'Failed to get visitor salt');
+    }
+  }
+
+  /**
+   * Handle Prisma errors and convert them to application errors
+   */
+  private handlePrismaError(error: unknown, context: string): Error {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      return new DatabaseError(`${context}: ${error.message}`, error);
+    }
+
+    if (error instanceof Prisma.PrismaClientInitializationError) {
+      return new DatabaseConnectionError(
+        `${context}: Unable to connect to database`,
+        error
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('timeout')) {
+      return new DatabaseTimeoutError(`${context}: Operation timed out`, error);
+    }
+
+    if (error instanceof Error) {
+      return new DatabaseError(`${context}: ${error.message}`, error);
+    }
+
+    return new DatabaseError(context, error);
+  }
+}
@@ -0,0 +1,29 @@
+import type { Histogram } from '../domain/metrics';
+
+/**
+ * Times every async method call on an adapter into a histogram, labelled with the adapter and method
+ * Calls the adapter makes on itself aren't counted twice. Methods that don't return a promise,
+ * such as the export streams, are passed through untimed, since they run as long as the reader does.
+ */
+export function withQueryTiming<T extends object>(adapter: T, name: string, histogram: Histogram): T {
+  return new Proxy(adapter, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      return (...args: unknown[]) => {
+        const started = performance.now();
+        const result: unknown = value.apply(target, args);
+        if (!(result instanceof Promise)) {
+          return result;
+        }
+
+        return result.finally(() => {
+          histogram.observe({ adapter: name, method: property }, (performance.now() - started) / 1000);
+        });
+      };
+    },
+  });
+}
@@ -0,0 +1,147 @@
+import type { VisitQueue } from '../ports/visit-queue';
+import type { AnalyticsRepository } from '../ports/repository';
+import type { NewVisit } from '../domain/visit';
+
+export interface VisitIngestionQueueConfig {
+  /** Visits written per createMany; reaching it triggers a flush */
+  maxBatchSize: number;
+  /** Longest a visit waits in the buffer before it is written */
+  flushIntervalMs: number;
+  /** Visits held in memory at most; further visits are dropped until a flush frees space */
+  maxQueueSize: number;
+  onDrop: (event: DroppedVisitsEvent) => void;
+}
+
+export interface DroppedVisitsEvent {
+  count: number;
+  reason: 'queue-full' | 'write-failed' | 'closed';
+  error?: unknown;
+}
+
+export interface VisitIngestionStats {
+  queued: number;
+  written: number;
+  dropped: number;
+}
+
+const DEFAULT_CONFIG: VisitIngestionQueueConfig = {
+  maxBatchSize: 100,
+  flushIntervalMs: 1000,
+  maxQueueSize: 10_000,
+  onDrop: ({ count, reason, error }) => {
+    console.warn(`Dropped ${count} visit(s): ${reason}`, error ?? '');
+  },
+};
+
+/**
+ * In-memory visit buffer written to the analytics repository in batches
+ * Visits still buffered when the process dies are lost, so call close() on shutdown
+ */
+export class VisitIngestionQueue implements VisitQueue {
+  private readonly config: VisitIngestionQueueConfig;
+  private buffer: NewVisit[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private closed = false;
+  private written = 0;
+  private dropped = 0;
+
+  constructor(
+    private readonly analyticsRepository: AnalyticsRepository,
+    config: Partial<VisitIngestionQueueConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  enqueue(visit: NewVisit): void {
+    if (this.closed) {
+      this.drop(1, 'closed');
+      return;
+    }
+
+    if (this.buffer.length >= this.config.maxQueueSize) {
+      this.drop(1, 'queue-full');
+      return;
+    }
+
+    this.buffer.push(visit);
+
+    if (this.buffer.length >= this.config.maxBatchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Writes everything buffered so far; resolves once it is stored or reported as dropped
+   */
+  async flush(): Promise<void> {
+    // One flush at a time keeps batches at maxBatchSize
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    this.flushing = this.writeBuffered().finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  /**
+   * Stops accepting visits and drains the buffer
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+  }
+
+  stats(): VisitIngestionStats {
+    return { queued: this.buffer.length, written: this.written, dropped: this.dropped };
+  }
+
+  private async writeBuffered(): Promise<void> {
+    this.clearTimer();
+
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.config.maxBatchSize);
+
+      try {
+        await this.analyticsRepository.recordVisits(batch);
+        this.written += batch.length;
+      } catch (error) {
+        // Retrying would let a failing database grow the buffer without bound
+        this.drop(batch.length, 'write-failed', error);
+      }
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.config.flushIntervalMs);
+    // A pending flush alone shouldn't keep the process alive; shutdown drains instead
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private drop(count: number, reason: DroppedVisitsEvent['reason'], error?: unknown): void {
+    this.dropped += count;
+    this.config.onDrop({ count, reason, error });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Custom Alias Module
+ * Validates user-chosen vanity aliases used in place of generated short codes
+ */
+
+import { ValidationError } from './errors';
+
+export const ALIAS_MIN_LENGTH = 3;
+export const ALIAS_MAX_LENGTH = 32;
+
+// Letters, digits, hyphens and underscores; must start and end with a letter or digit
+const ALIAS_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?$/;
+
+/**
+ * Aliases that would shadow application routes or are likely to confuse users
+ */
+export const RESERVED_ALIASES: ReadonlySet<string> = new Set([
+  'admin',
+  'api',
+  'app',
+  'assets',
+  'healthz',
+  'links',
+  'login',
+  'logout',
+  'metrics',
+  'p',
+  'readyz',
+  's',
+  'static',
+]);
+
+/**
+ * Validates a custom alias
+ * @param alias - The alias to validate
+ * @throws {ValidationError} If the alias is not acceptable
+ */
+export function validateAlias(alias: string): void {
+  if (typeof alias !== 'string' || alias.trim().length === 0) {
+    throw new ValidationError('Alias cannot be empty', 'alias');
+  }
+
+  const trimmedAlias = alias.trim();
+
+  if (trimmedAlias.length < ALIAS_MIN_LENGTH) {
+    throw new ValidationError(
+      `Alias must be at least ${ALIAS_MIN_LENGTH} characters long`,
+      'alias'
+    );
+  }
+
+  if (trimmedAlias.length > ALIAS_MAX_LENGTH) {
+    throw new ValidationError(
+      `Alias must be at most ${ALIAS_MAX_LENGTH} characters long`,
+      'alias'
+    );
+  }
+
+  if (!ALIAS_PATTERN.test(trimmedAlias)) {
+    throw new ValidationError(
+      'Alias may only contain letters, numbers, hyphens and underscores, and must start and end with a letter or number',
+      'alias'
+    );
+  }
+
+  if (RESERVED_ALIASES.has(trimmedAlias.toLowerCase())) {
+    throw new ValidationError(`Alias "${trimmedAlias}" is reserved`, 'alias');
+  }
+}
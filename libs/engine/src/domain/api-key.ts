@@ -0,0 +1,80 @@
+/**
+ * API Key Module
+ * Keys for programmatic access, with per-key scopes and optional daily quotas
+ */
+
+import { createHash } from 'node:crypto';
+import { customAlphabet } from 'nanoid';
+import { z } from 'zod';
+import { ValidationError } from './errors';
+
+export const API_KEY_SCOPES = ['links:write', 'links:read', 'stats:read'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const ApiKeySchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1).max(100),
+  prefix: z.string(),
+  keyHash: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  dailyQuota: z.number().int().positive().nullable().optional(),
+  createdAt: z.date().optional(),
+  lastUsedAt: z.date().nullable().optional(),
+  revokedAt: z.date().nullable().optional(),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+const KEY_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const KEY_LENGTH = 40;
+const KEY_PREFIX = 'usk_';
+// Enough of the key to recognise it in listings without revealing it
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+const nanoid = customAlphabet(KEY_ALPHABET, KEY_LENGTH);
+
+/**
+ * Generates a new API key
+ * @returns The full key (shown once) and the prefix kept for display
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+  const key = `${KEY_PREFIX}${nanoid()}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ * Keys are long random strings, so a fast hash is sufficient
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKeyScope(scope: string): scope is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope);
+}
+
+/**
+ * Validates a requested set of scopes
+ * @throws {ValidationError} If no scopes are given or a scope is unknown
+ */
+export function validateScopes(scopes: string[]): ApiKeyScope[] {
+  if (scopes.length === 0) {
+    throw new ValidationError('Select at least one scope', 'scopes');
+  }
+
+  const unknown = scopes.filter(scope => !isApiKeyScope(scope));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown scope: ${unknown.join(', ')}`, 'scopes');
+  }
+
+  return Array.from(new Set(scopes)) as ApiKeyScope[];
+}
+
+/**
+ * Checks whether an API key grants a scope
+ */
+export function hasScope(apiKey: Pick<ApiKey, 'scopes'>, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope);
+}
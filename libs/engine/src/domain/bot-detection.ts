@@ -0,0 +1,61 @@
+/**
+ * Bot Detection Module
+ * Tells crawlers and link-preview fetchers apart from people clicking a link
+ */
+
+/**
+ * User-agent fragments of known crawlers, link unfurlers and HTTP libraries
+ */
+export const BOT_USER_AGENT_PATTERNS: readonly RegExp[] = [
+  // Generic crawler vocabulary covers most search engines and SEO tools
+  /bot\b|bot\/|crawl|spider|slurp|scrape|fetcher/i,
+  // Link-preview fetchers used by chat apps and social networks
+  /slackbot|slack-imgproxy|twitterbot|discordbot|telegrambot|facebookexternalhit|facebot|linkedinbot|skypeuripreview|embedly|redditbot|vkshare|iframely/i,
+  // WhatsApp and Mastodon also name themselves in their apps' browsers, so only the fetcher forms count
+  /^whatsapp\/|\(mastodon\/\d/i,
+  // Headless browsers and monitoring
+  /headlesschrome|phantomjs|lighthouse|pingdom|uptimerobot|statuscake|site24x7/i,
+  // Command-line tools and HTTP client libraries
+  /^(curl|wget|httpie|python-requests|python-urllib|aiohttp|go-http-client|java\/|okhttp|axios|node-fetch|undici|libwww-perl|ruby|php)/i,
+];
+
+export interface BotSignals {
+  userAgent?: string | null;
+  /** HTTP method of the request */
+  method?: string | null;
+  /** Value of the Purpose, Sec-Purpose or X-Purpose header, sent by prefetchers */
+  purpose?: string | null;
+}
+
+/**
+ * Whether a user agent matches one of the known bot signatures
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  const value = userAgent?.trim();
+  if (!value) {
+    return false;
+  }
+  return BOT_USER_AGENT_PATTERNS.some(pattern => pattern.test(value));
+}
+
+/**
+ * Classifies a request as automated from its user agent and request patterns
+ */
+export function isBotRequest(signals: BotSignals): boolean {
+  // Browsers always identify themselves; only scripts leave the user agent out
+  if (!signals.userAgent?.trim()) {
+    return true;
+  }
+
+  if (isBotUserAgent(signals.userAgent)) {
+    return true;
+  }
+
+  // Link checkers probe with HEAD; a person following a link never does
+  if (signals.method?.toUpperCase() === 'HEAD') {
+    return true;
+  }
+
+  // Speculative prefetches and previews aren't clicks
+  return /prefetch|prerender|preview/i.test(signals.purpose ?? '');
+}
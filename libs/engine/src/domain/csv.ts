@@ -0,0 +1,98 @@
+/**
+ * CSV Module
+ * Reads and writes RFC 4180 CSV for bulk uploads, imports and exports
+ *
+ * Fields may be quoted, contain commas, doubled quotes and line breaks; rows end in LF or CRLF.
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Splits CSV text into rows of fields; a leading byte order mark and blank lines are ignored
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    // A line with nothing on it is a single empty field
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV with a header row into one record per line, keyed by the lowercased header names
+ * Missing trailing fields are read as empty strings.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  return rows.map(row =>
+    Object.fromEntries(columns.map((column, index) => [column, row[index] ?? '']))
+  );
+}
+
+/**
+ * Formats one CSV line, quoting fields that need it; dates are written as ISO 8601
+ */
+export function formatCsvRow(values: CsvValue[]): string {
+  return values.map(formatField).join(',');
+}
+
+/**
+ * Formats rows as CSV text with CRLF line endings
+ */
+export function formatCsv(rows: CsvValue[][]): string {
+  return rows.map(row => `${formatCsvRow(row)}\r\n`).join('');
+}
+
+function formatField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -58,6 +58,29 @@ export class DatabaseTimeoutError extends DatabaseError {
   }
 }
 
+/**
+ * The database is missing tables or columns the app expects (e.g., prisma db push wasn't run)
+ */
+export class DatabaseSchemaError extends DatabaseError {
+  constructor(message: string = 'Database schema is out of date', originalError?: unknown) {
+    super(message, originalError);
+    // Override code in constructor before readonly is enforced
+    Object.defineProperty(this, 'code', { value: 'DATABASE_SCHEMA_ERROR' });
+  }
+}
+
+/**
+ * Unique constraint violations (e.g., a short code that is already taken)
+ */
+export class DuplicateEntryError extends DatabaseError {
+  constructor(message: string = 'Duplicate entry detected', originalError?: unknown) {
+    super(message, originalError);
+    // Override code and status in constructor before readonly is enforced
+    Object.defineProperty(this, 'code', { value: 'DUPLICATE_ENTRY' });
+    Object.defineProperty(this, 'statusCode', { value: 409 });
+  }
+}
+
 /**
  * Validation errors
  */
@@ -76,6 +99,54 @@ export class NotFoundError extends ApplicationError {
   }
 }
 
+/**
+ * Unauthorized errors (missing or invalid credentials)
+ */
+export class UnauthorizedError extends ApplicationError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 'UNAUTHORIZED', 401);
+  }
+}
+
+/**
+ * Forbidden errors (caller is not allowed to perform the operation)
+ */
+export class ForbiddenError extends ApplicationError {
+  constructor(message: string = 'You are not allowed to perform this action') {
+    super(message, 'FORBIDDEN', 403);
+  }
+}
+
+/**
+ * Link expired errors (expiry date passed or click budget used up)
+ */
+export class LinkExpiredError extends ApplicationError {
+  constructor(
+    message: string = 'This link has expired',
+    public readonly reason: 'expired' | 'exhausted' = 'expired'
+  ) {
+    super(message, 'LINK_EXPIRED', 410);
+  }
+}
+
+/**
+ * Password required errors (link is protected and no password was given)
+ */
+export class PasswordRequiredError extends ApplicationError {
+  constructor(message: string = 'This link is password protected') {
+    super(message, 'PASSWORD_REQUIRED', 401);
+  }
+}
+
+/**
+ * Invalid password errors
+ */
+export class InvalidPasswordError extends ApplicationError {
+  constructor(message: string = 'Incorrect password') {
+    super(message, 'INVALID_PASSWORD', 403);
+  }
+}
+
 /**
  * Short code generation errors
  */
@@ -89,7 +160,11 @@ export class ShortCodeGenerationError extends ApplicationError {
  * Rate limiting errors
  */
 export class RateLimitError extends ApplicationError {
-  constructor(message: string = 'Too many requests') {
+  constructor(
+    message: string = 'Too many requests',
+    /** Seconds until the caller may try again, when known */
+    public readonly retryAfterSeconds?: number
+  ) {
     super(message, 'RATE_LIMIT_ERROR', 429);
   }
 }
@@ -0,0 +1,124 @@
+/**
+ * Export Module
+ * Formats links and visits for download as CSV or newline-delimited JSON
+ *
+ * Exports are produced line by line so large ones never have to fit in memory.
+ */
+
+import { ValidationError } from './errors';
+import { formatCsvRow, type CsvValue } from './csv';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/** Rows fetched from the database per page while streaming an export */
+export const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * The links an export covers: those created with an API key, a list of short codes, or every link
+ */
+export type LinkSelection = { apiKeyId: string } | { shortCodes: string[] } | { all: true };
+
+/**
+ * Time window for exported visits; either end may be left open
+ */
+export interface ExportRange {
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * A single recorded visit as it appears in exports
+ */
+export interface ExportedVisit {
+  id: string;
+  shortCode: string;
+  timestamp: Date;
+  referrer: string | null;
+  browser: string | null;
+  os: string | null;
+  deviceClass: string | null;
+  isBot: boolean;
+  visitorHash: string | null;
+}
+
+/**
+ * One field of an exported record
+ * name is the NDJSON key, header the CSV column; lists are joined with ";" in CSV
+ */
+export interface ExportColumn<T> {
+  name: string;
+  header: string;
+  value: (record: T) => CsvValue | string[];
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * @throws {ValidationError} If the format isn't supported
+ */
+export function validateExportFormat(value: string | null | undefined): ExportFormat {
+  const format = value?.trim().toLowerCase() || 'csv';
+  if (!isExportFormat(format)) {
+    throw new ValidationError(`Export format must be one of: ${EXPORT_FORMATS.join(', ')}`, 'format');
+  }
+  return format;
+}
+
+/**
+ * @throws {ValidationError} If the range ends before it starts
+ */
+export function validateExportRange(range: ExportRange): void {
+  for (const field of ['since', 'until'] as const) {
+    const date = range[field];
+    if (date !== undefined && Number.isNaN(date.getTime())) {
+      throw new ValidationError(`${field} must be a valid date`, field);
+    }
+  }
+
+  if (range.since && range.until && range.since > range.until) {
+    throw new ValidationError('since must be before until', 'since');
+  }
+}
+
+/**
+ * Turns records into export lines; CSV starts with a header line, every line ends in a newline
+ * The header is sent with the first record, so a failing query surfaces before anything is written.
+ */
+export async function* formatExport<T>(
+  records: AsyncIterable<T>,
+  format: ExportFormat,
+  columns: ExportColumn<T>[]
+): AsyncGenerator<string> {
+  let header = format === 'csv' ? `${formatCsvRow(columns.map(column => column.header))}\r\n` : '';
+
+  for await (const record of records) {
+    yield header + formatRecord(record, format, columns);
+    header = '';
+  }
+
+  if (header) {
+    yield header;
+  }
+}
+
+function formatRecord<T>(record: T, format: ExportFormat, columns: ExportColumn<T>[]): string {
+  if (format === 'csv') {
+    const values = columns.map(column => {
+      const value = column.value(record);
+      return Array.isArray(value) ? value.join(';') : value;
+    });
+    return `${formatCsvRow(values)}\r\n`;
+  }
+
+  const entries = columns.map(column => [column.name, column.value(record) ?? null]);
+  return `${JSON.stringify(Object.fromEntries(entries))}\n`;
+}
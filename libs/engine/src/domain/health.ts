@@ -0,0 +1,49 @@
+/**
+ * Health Module
+ * Builds the status reports served to load balancers and container orchestrators
+ */
+
+import { getErrorCode, getErrorMessage } from './errors';
+
+export type HealthStatus = 'ok' | 'error';
+
+export interface ComponentHealth {
+  status: HealthStatus;
+  /** How long the check took, in milliseconds */
+  latencyMs: number;
+  error?: { code: string; message: string };
+}
+
+export interface HealthReport {
+  /** ok only when every component is */
+  status: HealthStatus;
+  components: Record<string, ComponentHealth>;
+}
+
+/**
+ * Runs one check and times it; a thrown error marks the component as failing instead of propagating
+ */
+export async function checkComponent(
+  check: () => Promise<unknown>,
+  now: () => number = () => performance.now()
+): Promise<ComponentHealth> {
+  const started = now();
+  try {
+    await check();
+    return { status: 'ok', latencyMs: Math.round(now() - started) };
+  } catch (error) {
+    return {
+      status: 'error',
+      latencyMs: Math.round(now() - started),
+      error: { code: getErrorCode(error), message: getErrorMessage(error) },
+    };
+  }
+}
+
+/**
+ * Combines component results into one report
+ */
+export function healthReport(components: Record<string, ComponentHealth>): HealthReport {
+  const healthy = Object.values(components).every(component => component.status === 'ok');
+  return { status: healthy ? 'ok' : 'error', components };
+}
@@ -0,0 +1,73 @@
+/**
+ * Link Expiration Module
+ * Determines whether a link is still usable based on its expiry date and click budget
+ */
+
+import type { Url } from './url';
+import { ValidationError } from './errors';
+
+export type ExpirationReason = 'expired' | 'exhausted';
+
+export interface ExpirationSettings {
+  expiresAt?: Date;
+  maxClicks?: number;
+}
+
+/**
+ * Validates expiration settings for a new link
+ * @throws {ValidationError} If the expiry date is not in the future or the click budget is not a positive integer
+ */
+export function validateExpirationSettings(
+  settings: ExpirationSettings,
+  now: Date = new Date()
+): void {
+  const { expiresAt, maxClicks } = settings;
+
+  if (expiresAt !== undefined) {
+    if (!(expiresAt instanceof Date) || Number.isNaN(expiresAt.getTime())) {
+      throw new ValidationError('Expiration date is invalid', 'expiresAt');
+    }
+    if (expiresAt.getTime() <= now.getTime()) {
+      throw new ValidationError('Expiration date must be in the future', 'expiresAt');
+    }
+  }
+
+  if (maxClicks !== undefined) {
+    if (!Number.isInteger(maxClicks) || maxClicks < 1) {
+      throw new ValidationError('Click limit must be a positive whole number', 'maxClicks');
+    }
+  }
+}
+
+/**
+ * Returns why a link can no longer be used, or null if it is still active
+ * @param url - The link to check
+ * @param visitCount - Number of visits recorded so far (only needed for click budgets)
+ * @param now - Reference time for the expiry date
+ */
+export function getExpirationReason(
+  url: Pick<Url, 'expiresAt' | 'maxClicks'>,
+  visitCount: number,
+  now: Date = new Date()
+): ExpirationReason | null {
+  if (url.expiresAt && url.expiresAt.getTime() <= now.getTime()) {
+    return 'expired';
+  }
+
+  if (url.maxClicks != null && visitCount >= url.maxClicks) {
+    return 'exhausted';
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a link has expired or used up its click budget
+ */
+export function isLinkExpired(
+  url: Pick<Url, 'expiresAt' | 'maxClicks'>,
+  visitCount: number,
+  now: Date = new Date()
+): boolean {
+  return getExpirationReason(url, visitCount, now) !== null;
+}
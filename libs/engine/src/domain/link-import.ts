@@ -0,0 +1,133 @@
+/**
+ * Link Import Module
+ * Reads link exports from other shorteners so their short codes can be recreated here
+ *
+ * Accepts CSV with a header row (e.g. Bitly's export), a JSON array of objects, or NDJSON
+ * such as this app's own export. Columns are matched by name, ignoring case, spaces and
+ * camelCase, so "Long URL", "long_url" and "longUrl" are the same column.
+ */
+
+import { ValidationError } from './errors';
+import { parseCsv } from './csv';
+import { parseTagList } from './tags';
+
+/**
+ * One link read from an import file, before it is validated
+ */
+export interface ImportRecord {
+  code: string;
+  url: string;
+  createdAt?: string;
+  /** Clicks counted by the previous shortener */
+  clicks?: string;
+  tags?: string[];
+}
+
+const COLUMN_ALIASES: Record<keyof ImportRecord, string[]> = {
+  code: ['code', 'short_code', 'shortcode', 'alias', 'bitlink', 'custom_bitlink', 'short_link', 'short_url', 'link'],
+  url: ['url', 'long_url', 'original_url', 'destination', 'destination_url', 'target', 'target_url'],
+  createdAt: ['created_at', 'created', 'date_created', 'creation_date'],
+  clicks: ['clicks', 'total_clicks', 'click_count', 'visit_count', 'visits'],
+  tags: ['tags'],
+};
+
+/**
+ * Parses an import file, detecting CSV, JSON or NDJSON from its content
+ * @throws {ValidationError} If the file can't be read or has no code and URL columns
+ */
+export function parseImportFile(text: string): ImportRecord[] {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  if (!content) {
+    return [];
+  }
+
+  const objects = content.startsWith('[') || content.startsWith('{')
+    ? parseJsonObjects(content)
+    : csvObjects(content);
+
+  return objects.map(toImportRecord);
+}
+
+/**
+ * Reduces a short link such as "bit.ly/3xYzAbc" or "https://sho.rt/s/promo" to its code
+ */
+export function extractShortCode(value: string): string {
+  const path = value.trim().replace(/[?#].*$/, '');
+  const segments = path.split('/').filter(Boolean);
+  return segments[segments.length - 1] ?? '';
+}
+
+function parseJsonObjects(content: string): Record<string, unknown>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    // Not a single JSON document, so it may be one object per line
+    try {
+      parsed = content.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+    } catch {
+      throw new ValidationError('The file is not valid JSON or NDJSON', 'file');
+    }
+  }
+
+  // Some exports wrap the list, e.g. { "links": [...] }
+  if (isObject(parsed) && Array.isArray(parsed.links)) {
+    parsed = parsed.links;
+  }
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+
+  if (!list.every(isObject)) {
+    throw new ValidationError('Every JSON entry must be an object', 'file');
+  }
+  return list;
+}
+
+function csvObjects(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(content);
+  return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])));
+}
+
+function toImportRecord(object: Record<string, unknown>, index: number): ImportRecord {
+  const fields = new Map(Object.entries(object).map(([key, value]) => [columnKey(key), value]));
+  const field = (name: keyof ImportRecord): string | undefined => {
+    for (const alias of COLUMN_ALIASES[name]) {
+      const value = fields.get(alias);
+      if (value !== undefined && value !== null && value !== '') {
+        return Array.isArray(value) ? value.join(',') : String(value).trim();
+      }
+    }
+    return undefined;
+  };
+
+  const code = field('code');
+  const url = field('url');
+  if (index === 0 && (code === undefined || url === undefined) && !hasColumns(fields)) {
+    throw new ValidationError('The file needs a short code and a URL column, e.g. "code" and "url"', 'file');
+  }
+
+  const tags = field('tags');
+  return {
+    code: code ? extractShortCode(code) : '',
+    url: url ?? '',
+    createdAt: field('createdAt'),
+    clicks: field('clicks'),
+    tags: tags ? parseTagList(tags) : undefined,
+  };
+}
+
+function hasColumns(fields: Map<string, unknown>): boolean {
+  const has = (name: keyof ImportRecord) => COLUMN_ALIASES[name].some(alias => fields.has(alias));
+  return has('code') && has('url');
+}
+
+function columnKey(name: string): string {
+  return name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
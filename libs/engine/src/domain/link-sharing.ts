@@ -0,0 +1,81 @@
+/**
+ * Link Sharing Module
+ * Which links are handed out again to everyone who shortens the same URL
+ *
+ * Only plain links are shared. An alias, expiry, click limit, password, redirect status or
+ * social card was chosen by one requester, and links made with an API key, tagged or imported
+ * belong to whoever made them. Once a link has been handed to a second requester, even its
+ * creator can no longer edit or delete it, since that would change the link for everyone.
+ */
+
+import type { UrlRepository } from '../ports/repository';
+import type { Url } from './url';
+import { DEFAULT_REDIRECT_STATUS } from './redirect-status';
+import { isGeneratedShortCode } from './short-code';
+
+export type SharingSettings = Pick<
+  Url,
+  | 'expiresAt'
+  | 'maxClicks'
+  | 'passwordHash'
+  | 'apiKeyId'
+  | 'redirectStatus'
+  | 'ogTitle'
+  | 'ogDescription'
+  | 'ogImage'
+  | 'tags'
+  | 'importedClicks'
+> & {
+  /** Short code the requester chose instead of a generated one */
+  alias?: string;
+};
+
+export function isShareableLink(link: SharingSettings): boolean {
+  return (
+    link.alias === undefined &&
+    link.expiresAt == null &&
+    link.maxClicks == null &&
+    link.passwordHash == null &&
+    link.apiKeyId == null &&
+    (link.redirectStatus == null || link.redirectStatus === DEFAULT_REDIRECT_STATUS) &&
+    link.ogTitle == null &&
+    link.ogDescription == null &&
+    link.ogImage == null &&
+    (link.tags ?? []).length === 0 &&
+    link.importedClicks == null
+  );
+}
+
+/**
+ * Hands an existing shared link to another requester and records that it has more than one creator
+ * Returns null when the link stopped being shared for its URL meanwhile, e.g. its creator just edited it.
+ */
+export async function shareExistingLink(urlRepository: UrlRepository, url: Url): Promise<Url | null> {
+  if (url.sharedAt) {
+    return url;
+  }
+
+  const marked = await urlRepository.updateIf(
+    url.shortCode,
+    { normalizedUrlHash: url.normalizedUrlHash ?? null, sharedAt: null },
+    { sharedAt: new Date() }
+  );
+  if (marked) {
+    return marked;
+  }
+
+  // Another request may have marked it first; shared links can't be edited, so it's still usable
+  const current = await urlRepository.findByShortCode(url.shortCode);
+  return current?.sharedAt && current.normalizedUrlHash === url.normalizedUrlHash ? current : null;
+}
+
+/**
+ * The same rule for a saved link, which no longer records whether its code was chosen
+ * An alias or imported code that looks exactly like a generated one can't be told apart.
+ */
+export function isShareableSavedLink(url: Url): boolean {
+  return (
+    url.deletedAt == null &&
+    isShareableLink({ ...url, alias: isGeneratedShortCode(url.shortCode) ? undefined : url.shortCode })
+  );
+}
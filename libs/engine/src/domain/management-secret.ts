@@ -0,0 +1,69 @@
+/**
+ * Management Secret Module
+ * Per-link secrets that authorize editing, deleting and restoring a link
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { customAlphabet } from 'nanoid';
+import type { Url } from './url';
+import { ForbiddenError, NotFoundError } from './errors';
+
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const SECRET_LENGTH = 32;
+
+const nanoid = customAlphabet(ALPHABET, SECRET_LENGTH);
+
+/**
+ * Generates a new random management secret
+ * The secret has ~190 bits of entropy, so a fast hash is sufficient for storage
+ */
+export function generateManagementSecret(): string {
+  return nanoid();
+}
+
+/**
+ * Hashes a management secret for storage
+ */
+export function hashManagementSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Verifies a management secret against its stored hash
+ */
+export function verifyManagementSecret(secret: string, secretHash: string): boolean {
+  const expected = Buffer.from(secretHash, 'hex');
+  const actual = Buffer.from(hashManagementSecret(secret), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Error for managing a link that was handed to more than one creator
+ * Only the first of them holds the secret, so changing it would change everyone's link.
+ */
+export function sharedLinkForbidden(): ForbiddenError {
+  return new ForbiddenError(
+    'This link was also given to others who shortened the same URL, so it can no longer be changed or deleted'
+  );
+}
+
+/**
+ * Ensures the caller may manage the link
+ * @throws {NotFoundError} If the link does not exist
+ * @throws {ForbiddenError} If the link has no secret, the secret does not match or the link is shared
+ */
+export function authorizeManagement(url: Url | null, secret: string | undefined): Url {
+  if (!url) {
+    throw new NotFoundError('Short URL not found');
+  }
+
+  if (!secret || !url.managementSecretHash || !verifyManagementSecret(secret, url.managementSecretHash)) {
+    throw new ForbiddenError('Invalid management secret for this link');
+  }
+
+  if (url.sharedAt) {
+    throw sharedLinkForbidden();
+  }
+
+  return url;
+}
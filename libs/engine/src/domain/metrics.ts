@@ -0,0 +1,233 @@
+/**
+ * Metrics Module
+ * In-process counters and histograms, rendered in the Prometheus text format
+ *
+ * Every process keeps its own values, so Prometheus should scrape each instance.
+ */
+
+export type MetricLabels = Record<string, string>;
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Upper bounds in seconds, from a fast cache-warm query to a stuck one */
+export const DEFAULT_LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+/** Histograms render several series per label set, told apart by a suffix such as _bucket */
+interface RenderedSample extends MetricSample {
+  suffix?: string;
+}
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  samples(): RenderedSample[];
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private readonly series = new Map<string, MetricSample>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key) ?? { labels, value: 0 };
+    sample.value += amount;
+    this.series.set(key, sample);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  samples(): MetricSample[] {
+    return [...this.series.values()];
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  /** Observations per bucket, not yet cumulative */
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS
+  ) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) {
+      series.bucketCounts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Observations so far for one label set */
+  count(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.count ?? 0;
+  }
+
+  samples(): RenderedSample[] {
+    return [...this.series.values()].flatMap(series => {
+      let cumulative = 0;
+      const buckets = this.buckets.map((bound, index) => {
+        cumulative += series.bucketCounts[index];
+        return { labels: { ...series.labels, le: String(bound) }, value: cumulative, suffix: '_bucket' };
+      });
+
+      return [
+        ...buckets,
+        { labels: { ...series.labels, le: '+Inf' }, value: series.count, suffix: '_bucket' },
+        { labels: series.labels, value: series.sum, suffix: '_sum' },
+        { labels: series.labels, value: series.count, suffix: '_count' },
+      ];
+    });
+  }
+}
+
+/**
+ * A metric read from elsewhere when it is rendered, e.g. a cache's own hit counts
+ */
+class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    private readonly collect: () => MetricSample[]
+  ) {}
+
+  samples(): MetricSample[] {
+    return this.collect();
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Registers values that are kept elsewhere and read on every render
+   */
+  collect(name: string, help: string, type: MetricType, collect: () => MetricSample[]): void {
+    this.register(new CollectedMetric(name, help, type, collect));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      for (const sample of metric.samples()) {
+        lines.push(`${metric.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * The metrics recorded by the use cases and database adapters
+ */
+export interface ShortenerMetrics {
+  /** Labelled with outcome: created or reused */
+  shortens: Counter;
+  /** Labelled with the HTTP status of the redirect */
+  redirects: Counter;
+  /** Redirects to codes that don't exist or were deleted */
+  notFound: Counter;
+  /** Labelled with reason: expired, exhausted, password_required or invalid_password */
+  refusedRedirects: Counter;
+  /** Labelled with operation and the getErrorCode code */
+  errors: Counter;
+  /** Labelled with adapter and method */
+  repositoryDuration: Histogram;
+}
+
+export function createShortenerMetrics(registry: MetricsRegistry): ShortenerMetrics {
+  return {
+    shortens: registry.counter(
+      'url_shortener_shortens_total',
+      'Shorten requests that returned a link, by whether it was created or an existing one was reused'
+    ),
+    redirects: registry.counter('url_shortener_redirects_total', 'Short links resolved for a redirect, by HTTP status'),
+    notFound: registry.counter(
+      'url_shortener_not_found_total',
+      'Redirects to short codes that do not exist or were deleted'
+    ),
+    refusedRedirects: registry.counter(
+      'url_shortener_redirects_refused_total',
+      'Redirects withheld because the link expired or needs a password, by reason'
+    ),
+    errors: registry.counter('url_shortener_errors_total', 'Failed shorten and redirect requests, by error code'),
+    repositoryDuration: registry.histogram(
+      'url_shortener_repository_duration_seconds',
+      'Time spent in database calls, by adapter and method'
+    ),
+  };
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,68 @@
+/**
+ * Link Password Module
+ * Hashes and verifies passphrases for password-protected links
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { ValidationError } from './errors';
+
+export const PASSWORD_MIN_LENGTH = 4;
+export const PASSWORD_MAX_LENGTH = 128;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const HASH_PREFIX = 'scrypt';
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Validates a link password before hashing
+ * @throws {ValidationError} If the password is too short or too long
+ */
+export function validatePassword(password: string): void {
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    throw new ValidationError(
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`,
+      'password'
+    );
+  }
+
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    throw new ValidationError(
+      `Password must be at most ${PASSWORD_MAX_LENGTH} characters long`,
+      'password'
+    );
+  }
+}
+
+/**
+ * Hashes a password with a random salt
+ * @returns A self-describing hash in the form `scrypt$<salt>$<key>`
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `${HASH_PREFIX}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+/**
+ * Verifies a password against a hash produced by hashPassword
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [prefix, saltValue, keyValue] = passwordHash.split('$');
+  if (prefix !== HASH_PREFIX || !saltValue || !keyValue) {
+    return false;
+  }
+
+  const expectedKey = Buffer.from(keyValue, 'base64');
+  const actualKey = await deriveKey(password, Buffer.from(saltValue, 'base64'));
+
+  return expectedKey.length === actualKey.length && timingSafeEqual(expectedKey, actualKey);
+}
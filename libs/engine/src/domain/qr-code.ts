@@ -0,0 +1,136 @@
+/**
+ * QR Code Module
+ * Encodes short URLs as QR codes in SVG or PNG for print and sharing
+ */
+
+import QRCode from 'qrcode';
+import { ValidationError } from './errors';
+
+export const QR_CODE_FORMATS = ['svg', 'png'] as const;
+
+export type QrCodeFormat = (typeof QR_CODE_FORMATS)[number];
+
+/**
+ * How much of the symbol can be damaged and still scan: L ~7%, M ~15%, Q ~25%, H ~30%
+ */
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+export type QrErrorCorrectionLevel = (typeof QR_ERROR_CORRECTION_LEVELS)[number];
+
+export const QR_CODE_MIN_SIZE = 64;
+export const QR_CODE_MAX_SIZE = 2048;
+export const QR_CODE_MAX_MARGIN = 16;
+
+export interface QrCodeOptions {
+  errorCorrectionLevel?: QrErrorCorrectionLevel;
+  /** Width and height of the image in pixels */
+  size?: number;
+  /** Quiet zone around the symbol, in modules */
+  margin?: number;
+  /** Hex color of the modules, as #rrggbb or #rrggbbaa */
+  darkColor?: string;
+  /** Hex color of the background, as #rrggbb or #rrggbbaa */
+  lightColor?: string;
+}
+
+export interface QrCode {
+  format: QrCodeFormat;
+  contentType: string;
+  body: Uint8Array<ArrayBuffer>;
+}
+
+export const DEFAULT_QR_CODE_OPTIONS: Required<QrCodeOptions> = {
+  errorCorrectionLevel: 'M',
+  size: 512,
+  margin: 4,
+  darkColor: '#000000',
+  lightColor: '#ffffff',
+};
+
+const CONTENT_TYPES: Record<QrCodeFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+};
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export function isQrCodeFormat(value: unknown): value is QrCodeFormat {
+  return (QR_CODE_FORMATS as readonly unknown[]).includes(value);
+}
+
+export function isQrErrorCorrectionLevel(value: unknown): value is QrErrorCorrectionLevel {
+  return (QR_ERROR_CORRECTION_LEVELS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Validates QR code options and fills in the defaults
+ * @throws {ValidationError} If an option is out of range
+ */
+export function validateQrCodeOptions(options: QrCodeOptions): Required<QrCodeOptions> {
+  const resolved = { ...DEFAULT_QR_CODE_OPTIONS };
+
+  if (options.errorCorrectionLevel !== undefined) {
+    if (!isQrErrorCorrectionLevel(options.errorCorrectionLevel)) {
+      throw new ValidationError(
+        `Error correction level must be one of ${QR_ERROR_CORRECTION_LEVELS.join(', ')}`,
+        'errorCorrectionLevel'
+      );
+    }
+    resolved.errorCorrectionLevel = options.errorCorrectionLevel;
+  }
+
+  if (options.size !== undefined) {
+    if (!Number.isInteger(options.size) || options.size < QR_CODE_MIN_SIZE || options.size > QR_CODE_MAX_SIZE) {
+      throw new ValidationError(
+        `Size must be a whole number of pixels between ${QR_CODE_MIN_SIZE} and ${QR_CODE_MAX_SIZE}`,
+        'size'
+      );
+    }
+    resolved.size = options.size;
+  }
+
+  if (options.margin !== undefined) {
+    if (!Number.isInteger(options.margin) || options.margin < 0 || options.margin > QR_CODE_MAX_MARGIN) {
+      throw new ValidationError(`Margin must be a whole number between 0 and ${QR_CODE_MAX_MARGIN}`, 'margin');
+    }
+    resolved.margin = options.margin;
+  }
+
+  for (const field of ['darkColor', 'lightColor'] as const) {
+    const color = options[field];
+    if (color === undefined) {
+      continue;
+    }
+    if (!HEX_COLOR_PATTERN.test(color)) {
+      throw new ValidationError(`${field} must be a hex color like #000000`, field);
+    }
+    resolved[field] = color;
+  }
+
+  return resolved;
+}
+
+/**
+ * Encodes text as a QR code image
+ * @throws {ValidationError} If the options are invalid
+ */
+export async function encodeQrCode(
+  text: string,
+  format: QrCodeFormat,
+  options: QrCodeOptions = {}
+): Promise<QrCode> {
+  const { errorCorrectionLevel, size, margin, darkColor, lightColor } = validateQrCodeOptions(options);
+  const renderOptions = {
+    errorCorrectionLevel,
+    width: size,
+    margin,
+    color: { dark: darkColor, light: lightColor },
+  };
+
+  const body =
+    format === 'svg'
+      ? new TextEncoder().encode(await QRCode.toString(text, { ...renderOptions, type: 'svg' }))
+      : new Uint8Array(await QRCode.toBuffer(text, { ...renderOptions, type: 'png' }));
+
+  return { format, contentType: CONTENT_TYPES[format], body };
+}
@@ -0,0 +1,101 @@
+/**
+ * Rate Limit Module
+ * Sliding-window limits for actions that can be abused, such as creating links
+ */
+
+import { RateLimitError } from './errors';
+
+export interface RateLimitRule {
+  /** Number of hits allowed within the window */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Hits left in the current window */
+  remaining: number;
+  /** Time until the oldest hit in the window expires; 0 when allowed */
+  retryAfterMs: number;
+}
+
+export const SHORTEN_RATE_LIMIT: RateLimitRule = {
+  limit: 20,
+  windowMs: 60 * 1000, // 1 minute
+};
+
+/** Each upload counts once, however many rows it has; rows still count towards API key quotas */
+export const BULK_SHORTEN_RATE_LIMIT: RateLimitRule = {
+  limit: 10,
+  windowMs: 60 * 60 * 1000, // 1 hour
+};
+
+/** Uploads of files up to 10 MB, counted whether or not they're dry runs */
+export const IMPORT_RATE_LIMIT: RateLimitRule = {
+  limit: 10,
+  windowMs: 60 * 60 * 1000, // 1 hour
+};
+
+export const UNLOCK_RATE_LIMIT: RateLimitRule = {
+  limit: 5,
+  windowMs: 15 * 60 * 1000, // 15 minutes
+};
+
+/** How often limiters drop hits that have left their window, so idle keys don't pile up */
+export const RATE_LIMIT_PURGE_INTERVAL_MS = 60 * 1000;
+
+export interface RateLimitClient {
+  /** API key the request was made with; preferred over the IP when present */
+  apiKeyId?: string | null;
+  /** Client IP or other identifier for anonymous callers */
+  clientKey?: string;
+}
+
+/**
+ * Builds the key a client's hits for an action are counted under
+ */
+export function rateLimitKey(action: string, client: RateLimitClient): string {
+  if (client.apiKeyId) {
+    return `${action}:key:${client.apiKeyId}`;
+  }
+  return `${action}:ip:${client.clientKey ?? 'anonymous'}`;
+}
+
+/**
+ * Computes the outcome of a sliding window from the hit timestamps inside it
+ */
+export function evaluateWindow(
+  hitsInWindow: number[],
+  rule: RateLimitRule,
+  now: number
+): RateLimitResult {
+  if (hitsInWindow.length < rule.limit) {
+    return { allowed: true, remaining: rule.limit - hitsInWindow.length, retryAfterMs: 0 };
+  }
+
+  const oldest = Math.min(...hitsInWindow);
+  return {
+    allowed: false,
+    remaining: 0,
+    retryAfterMs: Math.max(oldest + rule.windowMs - now, 0),
+  };
+}
+
+/**
+ * Creates the error for a rejected request, rounding the wait up to whole seconds
+ */
+export function rateLimitExceeded(result: RateLimitResult, message: string): RateLimitError {
+  const retryAfterSeconds = Math.max(Math.ceil(result.retryAfterMs / 1000), 1);
+  return new RateLimitError(
+    `${message} Please try again in ${formatWait(retryAfterSeconds)}.`,
+    retryAfterSeconds
+  );
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return seconds === 1 ? '1 second' : `${seconds} seconds`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
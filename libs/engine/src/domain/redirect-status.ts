@@ -0,0 +1,78 @@
+/**
+ * Redirect Status Module
+ * Which HTTP status a link redirects with, and how long clients may cache the redirect
+ *
+ * Browsers cache permanent redirects and skip the short link on later clicks, so those
+ * clicks are never counted. Temporary redirects are sent uncacheable so every click is seen.
+ */
+
+import { ValidationError } from './errors';
+
+export const REDIRECT_STATUSES = [301, 302, 307, 308] as const;
+
+export type RedirectStatus = (typeof REDIRECT_STATUSES)[number];
+
+export const DEFAULT_REDIRECT_STATUS: RedirectStatus = 302;
+
+/** Longest a permanent redirect may be cached, so destination changes still get through */
+export const PERMANENT_REDIRECT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export function isRedirectStatus(value: unknown): value is RedirectStatus {
+  return (REDIRECT_STATUSES as readonly unknown[]).includes(value);
+}
+
+export function isPermanentRedirect(status: RedirectStatus): boolean {
+  return status === 301 || status === 308;
+}
+
+export interface RedirectSettings {
+  redirectStatus?: number;
+  maxClicks?: number;
+  password?: string;
+}
+
+/**
+ * Validates the redirect status for a new link
+ * @throws {ValidationError} If the status is unsupported, or permanent on a link whose clicks must reach the server
+ */
+export function validateRedirectSettings(settings: RedirectSettings): void {
+  const { redirectStatus } = settings;
+
+  if (redirectStatus === undefined) {
+    return;
+  }
+
+  if (!isRedirectStatus(redirectStatus)) {
+    throw new ValidationError(
+      `Redirect status must be one of ${REDIRECT_STATUSES.join(', ')}`,
+      'redirectStatus'
+    );
+  }
+
+  if (isPermanentRedirect(redirectStatus) && (settings.maxClicks !== undefined || settings.password !== undefined)) {
+    throw new ValidationError(
+      'Permanent redirects are cached by browsers, so they cannot be combined with a click limit or password',
+      'redirectStatus'
+    );
+  }
+}
+
+/**
+ * Cache-Control header for a redirect; permanent ones are never cached past the link's expiry
+ */
+export function redirectCacheControl(
+  status: RedirectStatus,
+  expiresAt?: Date | null,
+  now: Date = new Date()
+): string {
+  if (!isPermanentRedirect(status)) {
+    return 'private, no-store';
+  }
+
+  let maxAge = PERMANENT_REDIRECT_MAX_AGE_SECONDS;
+  if (expiresAt) {
+    maxAge = Math.min(maxAge, Math.floor((expiresAt.getTime() - now.getTime()) / 1000));
+  }
+
+  return maxAge > 0 ? `public, max-age=${maxAge}` : 'private, no-store';
+}
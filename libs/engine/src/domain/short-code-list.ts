@@ -0,0 +1,43 @@
+/**
+ * Short Code List Module
+ * Parses lists of short codes sent by clients, e.g. the links remembered by a browser
+ */
+
+import { ValidationError } from './errors';
+import { ALIAS_MAX_LENGTH } from './alias';
+
+/** Most links that can be looked up in one request */
+export const MAX_SHORT_CODES_PER_QUERY = 50;
+
+// Generated codes and aliases only use these characters
+const SHORT_CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Parses a comma-separated list of short codes, dropping blanks and duplicates
+ * @throws {ValidationError} If the list is too long or contains a malformed code
+ */
+export function parseShortCodeList(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  const codes = Array.from(
+    new Set(value.split(',').map(code => code.trim()).filter(Boolean))
+  );
+
+  if (codes.length > MAX_SHORT_CODES_PER_QUERY) {
+    throw new ValidationError(
+      `At most ${MAX_SHORT_CODES_PER_QUERY} short codes can be requested at once`,
+      'shortCodes'
+    );
+  }
+
+  const invalid = codes.find(
+    code => code.length > ALIAS_MAX_LENGTH || !SHORT_CODE_PATTERN.test(code)
+  );
+  if (invalid !== undefined) {
+    throw new ValidationError(`Invalid short code: ${invalid}`, 'shortCodes');
+  }
+
+  return codes;
+}
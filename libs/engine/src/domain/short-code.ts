@@ -46,8 +46,18 @@ import { customAlphabet } from 'nanoid';
 const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
 
 // 8 characters provides 218+ trillion combinations
-const nanoid = customAlphabet(alphabet, 8);
+const SHORT_CODE_LENGTH = 8;
+const nanoid = customAlphabet(alphabet, SHORT_CODE_LENGTH);
+
+const GENERATED_PATTERN = new RegExp(`^[0-9A-Za-z]{${SHORT_CODE_LENGTH}}$`);
 
 export function generateShortCode(): string {
   return nanoid();
 }
+
+/**
+ * Whether a code has the shape of one from generateShortCode
+ */
+export function isGeneratedShortCode(code: string): boolean {
+  return GENERATED_PATTERN.test(code);
+}
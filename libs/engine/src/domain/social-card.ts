@@ -0,0 +1,72 @@
+/**
+ * Social Card Module
+ * Title, description and image a link shows when it is unfurled in chat apps and social feeds
+ *
+ * Crawlers that don't follow redirects would otherwise describe the shortener itself.
+ */
+
+import type { Url } from './url';
+import { ValidationError } from './errors';
+
+export const SOCIAL_TITLE_MAX_LENGTH = 200;
+export const SOCIAL_DESCRIPTION_MAX_LENGTH = 500;
+
+export interface SocialCardSettings {
+  ogTitle?: string;
+  ogDescription?: string;
+  ogImage?: string;
+}
+
+export interface SocialCard {
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+}
+
+/**
+ * Validates the social card overrides for a new link
+ * @throws {ValidationError} If a text is empty or too long, or the image is not an http(s) URL
+ */
+export function validateSocialCardSettings(settings: SocialCardSettings): void {
+  validateText(settings.ogTitle, 'ogTitle', 'Title', SOCIAL_TITLE_MAX_LENGTH);
+  validateText(settings.ogDescription, 'ogDescription', 'Description', SOCIAL_DESCRIPTION_MAX_LENGTH);
+
+  if (settings.ogImage !== undefined) {
+    let protocol: string | null = null;
+    try {
+      protocol = new URL(settings.ogImage).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      throw new ValidationError('Image must be an absolute http(s) URL', 'ogImage');
+    }
+  }
+}
+
+/**
+ * Returns the card a link unfurls as, or null when it has no overrides
+ */
+export function getSocialCard(url: Pick<Url, 'ogTitle' | 'ogDescription' | 'ogImage'>): SocialCard | null {
+  if (!url.ogTitle && !url.ogDescription && !url.ogImage) {
+    return null;
+  }
+
+  return {
+    title: url.ogTitle ?? null,
+    description: url.ogDescription ?? null,
+    imageUrl: url.ogImage ?? null,
+  };
+}
+
+function validateText(value: string | undefined, field: string, label: string, maxLength: number): void {
+  if (value === undefined) {
+    return;
+  }
+  if (value.trim().length === 0) {
+    throw new ValidationError(`${label} cannot be empty`, field);
+  }
+  if (value.length > maxLength) {
+    throw new ValidationError(`${label} must be at most ${maxLength} characters`, field);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Link Tags Module
+ * Free-form labels for grouping links, e.g. by campaign
+ *
+ * Tags are lowercased; letters, digits, hyphens and underscores only.
+ */
+
+import { ValidationError } from './errors';
+
+export const MAX_TAGS_PER_LINK = 10;
+export const TAG_MAX_LENGTH = 32;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Splits a list such as "spring, email;promo" into tags
+ */
+export function parseTagList(value: string | null | undefined): string[] {
+  return (value ?? '').split(/[,;\s]+/).filter(tag => tag.length > 0);
+}
+
+/**
+ * Validates tags and returns them lowercased without duplicates
+ * @throws {ValidationError} If a tag has unsupported characters or there are too many
+ */
+export function validateTags(tags: string[]): string[] {
+  const normalized = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+  for (const tag of normalized) {
+    if (tag.length > TAG_MAX_LENGTH) {
+      throw new ValidationError(`Tag "${tag}" must be at most ${TAG_MAX_LENGTH} characters`, 'tags');
+    }
+    if (!TAG_PATTERN.test(tag)) {
+      throw new ValidationError(
+        `Tag "${tag}" can only contain letters, numbers, hyphens and underscores`,
+        'tags'
+      );
+    }
+  }
+
+  if (normalized.length > MAX_TAGS_PER_LINK) {
+    throw new ValidationError(`A link can have at most ${MAX_TAGS_PER_LINK} tags`, 'tags');
+  }
+
+  return normalized;
+}
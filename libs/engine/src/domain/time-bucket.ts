@@ -0,0 +1,115 @@
+/**
+ * Time Bucket Module
+ * Groups visits into hourly, daily or weekly buckets for time-series charts
+ *
+ * Buckets are aligned in UTC; weeks start on Monday.
+ */
+
+export const TIME_BUCKETS = ['hour', 'day', 'week'] as const;
+
+export type TimeBucket = (typeof TIME_BUCKETS)[number];
+
+export interface TimeSeriesPoint {
+  /** Start of the bucket */
+  start: Date;
+  count: number;
+  /** Distinct visitor hashes in the bucket */
+  uniqueVisitors: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const BUCKET_MS: Record<TimeBucket, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+/** 1970-01-05, the first Monday after the Unix epoch */
+const FIRST_MONDAY_MS = 4 * DAY_MS;
+
+export interface BucketAlignment {
+  lengthMs: number;
+  /** Milliseconds after the Unix epoch at which some bucket starts */
+  offsetMs: number;
+}
+
+/**
+ * How many buckets a chart shows for each granularity
+ */
+export const TIME_BUCKET_COUNTS: Record<TimeBucket, number> = {
+  hour: 48,
+  day: 30,
+  week: 12,
+};
+
+export function isTimeBucket(value: string | null | undefined): value is TimeBucket {
+  return (TIME_BUCKETS as readonly (string | null | undefined)[]).includes(value);
+}
+
+/**
+ * Returns the start of the bucket containing a date
+ */
+export function startOfBucket(date: Date, bucket: TimeBucket): Date {
+  const start = new Date(date);
+  start.setUTCMinutes(0, 0, 0);
+
+  if (bucket === 'hour') {
+    return start;
+  }
+
+  start.setUTCHours(0);
+  if (bucket === 'week') {
+    // getUTCDay() is 0 for Sunday
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start;
+}
+
+/**
+ * Lets a database compute startOfBucket for a Unix time in ms as `time - (time - offsetMs) % lengthMs`
+ */
+export function bucketAlignment(bucket: TimeBucket): BucketAlignment {
+  return {
+    lengthMs: BUCKET_MS[bucket],
+    offsetMs: bucket === 'week' ? FIRST_MONDAY_MS : 0,
+  };
+}
+
+/**
+ * Start of the oldest bucket in a chart of `count` buckets ending with the one containing `now`
+ */
+export function timeSeriesStart(
+  bucket: TimeBucket,
+  now: Date,
+  count: number = TIME_BUCKET_COUNTS[bucket]
+): Date {
+  const latest = startOfBucket(now, bucket);
+  return new Date(latest.getTime() - (count - 1) * BUCKET_MS[bucket]);
+}
+
+/**
+ * Lays out counted buckets from `since` up to `now`, with zeros for buckets that had no visits
+ */
+export function fillBuckets(
+  counted: TimeSeriesPoint[],
+  bucket: TimeBucket,
+  since: Date,
+  now: Date
+): TimeSeriesPoint[] {
+  const counts = new Map(counted.map(point => [point.start.getTime(), point]));
+
+  const points: TimeSeriesPoint[] = [];
+  const last = startOfBucket(now, bucket).getTime();
+  for (let start = startOfBucket(since, bucket).getTime(); start <= last; start += BUCKET_MS[bucket]) {
+    const point = counts.get(start);
+    points.push({
+      start: new Date(start),
+      count: point?.count ?? 0,
+      uniqueVisitors: point?.uniqueVisitors ?? 0,
+    });
+  }
+  return points;
+}
@@ -0,0 +1,55 @@
+/**
+ * Unlock Attempt Throttle
+ * Limits failed password attempts per link and client to slow down guessing
+ */
+
+import type { RateLimiter } from '../ports/rate-limiter';
+import { rateLimitExceeded, UNLOCK_RATE_LIMIT, type RateLimitRule } from './rate-limit';
+
+export interface UnlockAttemptThrottleConfig {
+  maxFailures: number;
+  windowMs: number;
+}
+
+const DEFAULT_CONFIG: UnlockAttemptThrottleConfig = {
+  maxFailures: UNLOCK_RATE_LIMIT.limit,
+  windowMs: UNLOCK_RATE_LIMIT.windowMs,
+};
+
+/**
+ * Every attempt counts, and a correct password clears the count, so only wrong passwords add up
+ */
+export class UnlockAttemptThrottle {
+  private readonly rule: RateLimitRule;
+
+  constructor(
+    private readonly rateLimiter: RateLimiter,
+    config: Partial<UnlockAttemptThrottleConfig> = {}
+  ) {
+    const { maxFailures, windowMs } = { ...DEFAULT_CONFIG, ...config };
+    this.rule = { limit: maxFailures, windowMs };
+  }
+
+  /**
+   * Counts an attempt for the key before its password is checked
+   * Checking and counting is one step, so concurrent guesses can't all get in under the limit.
+   * @throws {RateLimitError} If the key has used up its attempts for the current window
+   */
+  async beginAttempt(key: string): Promise<void> {
+    const result = await this.rateLimiter.consume(this.storageKey(key), this.rule);
+    if (!result.allowed) {
+      throw rateLimitExceeded(result, 'Too many incorrect password attempts.');
+    }
+  }
+
+  /**
+   * Clears the key's attempts after the password was right
+   */
+  async reset(key: string): Promise<void> {
+    await this.rateLimiter.reset(this.storageKey(key));
+  }
+
+  private storageKey(key: string): string {
+    return `unlock:${key}`;
+  }
+}
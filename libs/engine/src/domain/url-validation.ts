@@ -3,10 +3,15 @@
  * Validates that URLs are proper HTTPS web URLs
  */
 
-export class InvalidUrlError extends Error {
+import { createHash } from 'node:crypto';
+import { ValidationError } from './errors';
+
+/**
+ * Invalid URL errors, reported as validation errors on the `url` field
+ */
+export class InvalidUrlError extends ValidationError {
   constructor(message: string) {
-    super(message);
-    this.name = 'InvalidUrlError';
+    super(message, 'url');
   }
 }
 
@@ -91,3 +96,12 @@ export function normalizeUrl(url: string): string {
   
   return normalized;
 }
+
+/**
+ * Hashes a normalized URL so duplicates can be found through an index
+ * @param normalizedUrl - A URL that has already been passed through normalizeUrl
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashNormalizedUrl(normalizedUrl: string): string {
+  return createHash('sha256').update(normalizedUrl).digest('hex');
+}
@@ -5,6 +5,26 @@ export const UrlSchema = z.object({
   originalUrl: z.string().url(),
   shortCode: z.string().min(6), // Ensure enough entropy
   createdAt: z.date().optional(),
+  expiresAt: z.date().nullable().optional(),
+  maxClicks: z.number().int().positive().nullable().optional(),
+  passwordHash: z.string().nullable().optional(),
+  managementSecretHash: z.string().nullable().optional(),
+  deletedAt: z.date().nullable().optional(),
+  apiKeyId: z.string().nullable().optional(),
+  /** Set only on links that are shared with everyone shortening the same URL */
+  normalizedUrlHash: z.string().nullable().optional(),
+  /** When a shared link was first handed to a second requester; nobody can manage it from then on */
+  sharedAt: z.date().nullable().optional(),
+  /** HTTP status used when redirecting, see redirect-status */
+  redirectStatus: z.number().int().optional(),
+  /** Overrides for how the link unfurls in chat apps, see social-card */
+  ogTitle: z.string().nullable().optional(),
+  ogDescription: z.string().nullable().optional(),
+  ogImage: z.string().nullable().optional(),
+  /** Lowercased labels for grouping links, see tags */
+  tags: z.array(z.string()).optional(),
+  /** Clicks counted by another shortener before the link was imported; not included in visit counts */
+  importedClicks: z.number().int().nonnegative().nullable().optional(),
 });
 
 export type Url = z.infer<typeof UrlSchema>;
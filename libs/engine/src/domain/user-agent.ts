@@ -0,0 +1,76 @@
+/**
+ * User Agent Module
+ * Classifies visitors by browser, operating system and device from the User-Agent header
+ *
+ * Only the families worth showing in statistics are recognised; everything else is "Other".
+ * Order matters: many browsers include the tokens of the ones they are based on
+ * (e.g. Edge and Opera also send "Chrome/", Chrome also sends "Safari/").
+ */
+
+export const DEVICE_CLASSES = ['desktop', 'mobile', 'tablet', 'unknown'] as const;
+
+export type DeviceClass = (typeof DEVICE_CLASSES)[number];
+
+export interface ParsedUserAgent {
+  browser: string;
+  os: string;
+  deviceClass: DeviceClass;
+}
+
+const OTHER = 'Other';
+
+const BROWSERS: ReadonlyArray<[name: string, pattern: RegExp]> = [
+  ['Edge', /\bEdg(?:e|A|iOS)?\//],
+  ['Opera', /\b(?:OPR|Opera|OPiOS)\//],
+  ['Samsung Internet', /\bSamsungBrowser\//],
+  ['Firefox', /\b(?:Firefox|FxiOS)\//],
+  ['Chrome', /\b(?:Chrome|CriOS|Chromium)\//],
+  ['Internet Explorer', /\b(?:MSIE |Trident\/)/],
+  ['Safari', /\bVersion\/[\d.]+.*\bSafari\//],
+];
+
+const OPERATING_SYSTEMS: ReadonlyArray<[name: string, pattern: RegExp]> = [
+  ['iOS', /\b(?:iPhone|iPad|iPod)\b/],
+  ['Android', /\bAndroid\b/],
+  ['ChromeOS', /\bCrOS\b/],
+  ['Windows', /\bWindows\b/],
+  ['macOS', /\bMac OS X\b|\bMacintosh\b/],
+  ['Linux', /\bLinux\b|\bX11\b/],
+];
+
+const TABLET_PATTERN = /\biPad\b|\bTablet\b|\bKindle\b|\bSilk\//;
+const MOBILE_PATTERN = /\bMobi|\biPhone\b|\biPod\b|\bWindows Phone\b/;
+
+function match(userAgent: string, candidates: ReadonlyArray<[string, RegExp]>): string {
+  return candidates.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? OTHER;
+}
+
+function classifyDevice(userAgent: string, os: string): DeviceClass {
+  if (TABLET_PATTERN.test(userAgent)) {
+    return 'tablet';
+  }
+  if (MOBILE_PATTERN.test(userAgent)) {
+    return 'mobile';
+  }
+  // Android phones send "Mobile"; Android without it is a tablet
+  if (os === 'Android') {
+    return 'tablet';
+  }
+  return os === OTHER ? 'unknown' : 'desktop';
+}
+
+/**
+ * Parses a User-Agent header into browser, OS and device class
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent?.trim()) {
+    return { browser: OTHER, os: OTHER, deviceClass: 'unknown' };
+  }
+
+  const os = match(userAgent, OPERATING_SYSTEMS);
+  return {
+    browser: match(userAgent, BROWSERS),
+    os,
+    deviceClass: classifyDevice(userAgent, os),
+  };
+}
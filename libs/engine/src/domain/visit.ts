@@ -0,0 +1,96 @@
+/**
+ * Visit Module
+ * Describes a single click on a short link as it is recorded for analytics
+ */
+
+import { parseUserAgent, type DeviceClass } from './user-agent';
+import { isBotRequest } from './bot-detection';
+
+export interface VisitDetails {
+  userAgent?: string | null;
+  /** Host of the referring page, without "www." */
+  referrer?: string | null;
+  browser?: string | null;
+  os?: string | null;
+  deviceClass?: DeviceClass | null;
+  /** Crawler, link-preview fetcher or other automated request */
+  isBot?: boolean;
+  /** Daily-salted hash of IP and user agent, see visitor-id */
+  visitorHash?: string | null;
+}
+
+/**
+ * A visit ready to be written, tied to the link it was resolved to
+ */
+export interface NewVisit extends VisitDetails {
+  urlId: string;
+  timestamp: Date;
+}
+
+export interface VisitRequest {
+  userAgent?: string;
+  /** Raw Referer header */
+  referrer?: string;
+  /** HTTP method, used to spot link checkers */
+  method?: string;
+  /** Purpose, Sec-Purpose or X-Purpose header sent by prefetchers */
+  purpose?: string;
+}
+
+/**
+ * Narrows which visits statistics are computed from; bots are left out unless asked for
+ */
+export interface VisitFilter {
+  includeBots?: boolean;
+}
+
+/**
+ * Dimensions visits can be grouped by in statistics
+ */
+export type VisitDimension = 'referrer' | 'browser' | 'os' | 'deviceClass';
+
+export interface BreakdownEntry {
+  /** null for visits without a value, e.g. direct traffic for referrers */
+  value: string | null;
+  count: number;
+}
+
+export interface VisitRange {
+  firstVisitAt: Date | null;
+  lastVisitAt: Date | null;
+}
+
+/**
+ * Reduces a Referer header to its host; anything else is left out for privacy
+ */
+export function parseReferrer(referrer: string | null | undefined): string | null {
+  if (!referrer?.trim()) {
+    return null;
+  }
+
+  try {
+    const { protocol, hostname } = new URL(referrer.trim());
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return null;
+    }
+    return hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts everything recorded about a visit from the incoming request
+ */
+export function captureVisit(request: VisitRequest): VisitDetails {
+  const { browser, os, deviceClass } = parseUserAgent(request.userAgent);
+
+  return {
+    userAgent: request.userAgent || null,
+    referrer: parseReferrer(request.referrer),
+    browser,
+    os,
+    deviceClass,
+    isBot: isBotRequest(request),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Visitor ID Module
+ * Counts unique visitors without storing IP addresses
+ *
+ * A visitor is identified by a hash of their IP address and user agent, salted with a
+ * random value that changes every UTC day. Old salts are thrown away, so a hash can't be
+ * traced back to an IP or linked to the same visitor on another day.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { VisitorSaltStore } from '../ports/visitor-salt-store';
+
+/**
+ * The UTC day a salt belongs to, as YYYY-MM-DD
+ */
+export function visitorDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function generateVisitorSalt(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashVisitor(salt: string, ip: string, userAgent: string): string {
+  return createHash('sha256').update(`${salt}\n${ip}\n${userAgent}`).digest('hex');
+}
+
+/**
+ * Hashes visitors with the current day's salt, fetching it from the store once per day
+ */
+export class VisitorHasher {
+  private current: { day: string; salt: string } | null = null;
+
+  constructor(
+    private readonly saltStore: VisitorSaltStore,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Returns null when there is no IP to identify the visitor by
+   */
+  async hash(ip: string | null | undefined, userAgent: string | null | undefined): Promise<string | null> {
+    if (!ip?.trim()) {
+      return null;
+    }
+
+    const day = visitorDay(this.now());
+    if (this.current?.day !== day) {
+      this.current = { day, salt: await this.saltStore.getSalt(day) };
+    }
+
+    return hashVisitor(this.current.salt, ip.trim(), userAgent?.trim() ?? '');
+  }
+}
@@ -1,23 +1,212 @@
 import { PrismaClient } from '@prisma/client';
 import { GetOriginalUrlUseCase } from './use-cases/get-original-url';
 import { ShortenUrlUseCase } from './use-cases/shorten-url';
-import { PrismaUrlRepository, PrismaAnalyticsRepository } from './adapters/prisma-repository';
+import { CheckAliasAvailabilityUseCase } from './use-cases/check-alias-availability';
+import { UpdateUrlDestinationUseCase } from './use-cases/update-url-destination';
+import { DeleteUrlUseCase } from './use-cases/delete-url';
+import { RestoreUrlUseCase } from './use-cases/restore-url';
+import { GetLinkStatsUseCase } from './use-cases/get-link-stats';
+import { GetLinkPreviewUseCase } from './use-cases/get-link-preview';
+import { GetVisitBreakdownUseCase } from './use-cases/get-visit-breakdown';
+import { GetVisitTimeSeriesUseCase } from './use-cases/get-visit-time-series';
+import { CreateApiKeyUseCase } from './use-cases/create-api-key';
+import { AuthenticateApiKeyUseCase } from './use-cases/authenticate-api-key';
+import { RevokeApiKeyUseCase } from './use-cases/revoke-api-key';
+import { GenerateQrCodeUseCase } from './use-cases/generate-qr-code';
+import { BulkShortenUrlsUseCase } from './use-cases/bulk-shorten-urls';
+import { ExportLinksUseCase } from './use-cases/export-links';
+import { ExportVisitsUseCase } from './use-cases/export-visits';
+import { ImportLinksUseCase } from './use-cases/import-links';
+import {
+  PrismaUrlRepository,
+  PrismaAnalyticsRepository,
+  PrismaApiKeyRepository,
+} from './adapters/prisma-repository';
+import { PrismaRateLimiter } from './adapters/prisma-rate-limiter';
+import { InMemoryRateLimiter } from './adapters/in-memory-rate-limiter';
+import { PrismaVisitorSaltStore } from './adapters/prisma-visitor-salt-store';
+import { VisitIngestionQueue } from './adapters/visit-ingestion-queue';
+import { CachedUrlRepository } from './adapters/cached-url-repository';
+import { withQueryTiming } from './adapters/query-timing';
 import { createHealthCheck } from './adapters/database-health';
+import { UnlockAttemptThrottle } from './domain/unlock-attempt-throttle';
+import { VisitorHasher } from './domain/visitor-id';
+import { MetricsRegistry, createShortenerMetrics } from './domain/metrics';
+import { SHORTEN_RATE_LIMIT } from './domain/rate-limit';
 
 // Singleton Prisma Client
 const prisma = new PrismaClient();
 
-const urlRepository = new PrismaUrlRepository(prisma);
-const analyticsRepository = new PrismaAnalyticsRepository(prisma);
+// Counters and database latencies served at /metrics; every database adapter is timed
+const metricsRegistry = new MetricsRegistry();
+const shortenerMetrics = createShortenerMetrics(metricsRegistry);
+const timed = <T extends object>(adapter: T, name: string): T =>
+  withQueryTiming(adapter, name, shortenerMetrics.repositoryDuration);
 
-export const shortenUrlUseCase = new ShortenUrlUseCase(urlRepository);
-export const getOriginalUrlUseCase = new GetOriginalUrlUseCase(urlRepository, analyticsRepository);
+// Short code lookups are cached in process; URL_CACHE_TTL_MS=0 turns the cache off
+const urlCacheTtlMs = Number(process.env.URL_CACHE_TTL_MS || 60_000);
+const urlRepository = new CachedUrlRepository(timed(new PrismaUrlRepository(prisma), 'url'), {
+  ttlMs: urlCacheTtlMs,
+  negativeTtlMs: Math.min(urlCacheTtlMs, 5_000),
+});
+const analyticsRepository = timed(new PrismaAnalyticsRepository(prisma), 'analytics');
+const apiKeyRepository = timed(new PrismaApiKeyRepository(prisma), 'apiKey');
+
+// Hits are stored in SQLite by default; RATE_LIMIT_STORE=memory keeps them per process
+const rateLimiter = process.env.RATE_LIMIT_STORE === 'memory'
+  ? new InMemoryRateLimiter()
+  : timed(new PrismaRateLimiter(prisma), 'rateLimiter');
+
+// Redirects hand visits to the queue, which writes them in batches off the request path
+const visitQueue = new VisitIngestionQueue(analyticsRepository);
+drainOnShutdown(visitQueue);
+
+registerQueueAndCacheMetrics();
+
+export const shortenUrlUseCase = new ShortenUrlUseCase(urlRepository, rateLimiter, SHORTEN_RATE_LIMIT, shortenerMetrics);
+export const bulkShortenUrlsUseCase = new BulkShortenUrlsUseCase(urlRepository, rateLimiter);
+export const checkAliasAvailabilityUseCase = new CheckAliasAvailabilityUseCase(urlRepository);
+export const updateUrlDestinationUseCase = new UpdateUrlDestinationUseCase(urlRepository);
+export const deleteUrlUseCase = new DeleteUrlUseCase(urlRepository);
+export const restoreUrlUseCase = new RestoreUrlUseCase(urlRepository);
+export const getOriginalUrlUseCase = new GetOriginalUrlUseCase(
+  urlRepository,
+  analyticsRepository,
+  new UnlockAttemptThrottle(rateLimiter),
+  // Salts live in the database so every instance hashes a visitor the same way all day
+  new VisitorHasher(timed(new PrismaVisitorSaltStore(prisma), 'visitorSalt')),
+  visitQueue,
+  shortenerMetrics
+);
+export const getLinkStatsUseCase = new GetLinkStatsUseCase(urlRepository, analyticsRepository);
+export const getLinkPreviewUseCase = new GetLinkPreviewUseCase(urlRepository, analyticsRepository);
+export const getVisitBreakdownUseCase = new GetVisitBreakdownUseCase(urlRepository, analyticsRepository);
+export const getVisitTimeSeriesUseCase = new GetVisitTimeSeriesUseCase(urlRepository, analyticsRepository);
+export const generateQrCodeUseCase = new GenerateQrCodeUseCase(urlRepository);
+export const exportLinksUseCase = new ExportLinksUseCase(urlRepository);
+export const exportVisitsUseCase = new ExportVisitsUseCase(analyticsRepository);
+export const importLinksUseCase = new ImportLinksUseCase(urlRepository, rateLimiter);
+export const createApiKeyUseCase = new CreateApiKeyUseCase(apiKeyRepository);
+export const authenticateApiKeyUseCase = new AuthenticateApiKeyUseCase(apiKeyRepository);
+export const revokeApiKeyUseCase = new RevokeApiKeyUseCase(apiKeyRepository);
+export const apiKeys = apiKeyRepository; // Exported for the key management page listing
 export const repository = urlRepository; // Exporting repository directly for list view if needed
 export const databaseHealth = createHealthCheck(prisma); // Export health check
+export const visitIngestion = visitQueue; // Exported for flushing and dropped-visit stats
+export const urlCache = urlRepository; // Exported for hit/miss monitoring and manual invalidation
+export const metrics = metricsRegistry; // Rendered at /metrics
+
+/**
+ * Exposes the cache and visit queue's own counts alongside the other metrics
+ */
+function registerQueueAndCacheMetrics(): void {
+  metricsRegistry.collect(
+    'url_shortener_url_cache_requests_total',
+    'Short code lookups, by cache result',
+    'counter',
+    () => {
+      const { hits, misses } = urlRepository.stats();
+      return [
+        { labels: { result: 'hit' }, value: hits },
+        { labels: { result: 'miss' }, value: misses },
+      ];
+    }
+  );
+  metricsRegistry.collect(
+    'url_shortener_url_cache_evictions_total',
+    'Links evicted from the full cache',
+    'counter',
+    () => [{ labels: {}, value: urlRepository.stats().evictions }]
+  );
+  metricsRegistry.collect(
+    'url_shortener_url_cache_entries',
+    'Links and unknown codes held in the cache',
+    'gauge',
+    () => [{ labels: {}, value: urlRepository.stats().size }]
+  );
+  metricsRegistry.collect(
+    'url_shortener_visits_total',
+    'Visits handed to the ingestion queue, by whether they were written or dropped',
+    'counter',
+    () => {
+      const { written, dropped } = visitQueue.stats();
+      return [
+        { labels: { result: 'written' }, value: written },
+        { labels: { result: 'dropped' }, value: dropped },
+      ];
+    }
+  );
+  metricsRegistry.collect(
+    'url_shortener_visits_queued',
+    'Visits waiting to be written',
+    'gauge',
+    () => [{ labels: {}, value: visitQueue.stats().queued }]
+  );
+}
+
+/**
+ * Writes buffered visits before the process exits
+ */
+function drainOnShutdown(queue: VisitIngestionQueue): void {
+  // Fires once the event loop is empty, e.g. after the server closed on SIGTERM
+  process.once('beforeExit', () => {
+    void queue.close();
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      // Someone else (e.g. the web app's server.js) shuts down on this signal; beforeExit drains then
+      if (process.listenerCount(signal) > 0) {
+        return;
+      }
+      void queue.close().finally(() => process.kill(process.pid, signal));
+    });
+  }
+}
 
 // Export domain modules for testing and external use
 export { validateUrl, normalizeUrl, InvalidUrlError } from './domain/url-validation';
 export { generateShortCode } from './domain/short-code';
+export { validateAlias, ALIAS_MIN_LENGTH, ALIAS_MAX_LENGTH, RESERVED_ALIASES } from './domain/alias';
+export { isLinkExpired, getExpirationReason } from './domain/link-expiration';
+export { parseUserAgent, DEVICE_CLASSES } from './domain/user-agent';
+export { parseReferrer } from './domain/visit';
+export { isBotRequest, isBotUserAgent, BOT_USER_AGENT_PATTERNS } from './domain/bot-detection';
+export { TIME_BUCKETS, TIME_BUCKET_COUNTS, isTimeBucket } from './domain/time-bucket';
+export { parseShortCodeList, MAX_SHORT_CODES_PER_QUERY } from './domain/short-code-list';
+export { PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH } from './domain/password';
+export { API_KEY_SCOPES, isApiKeyScope } from './domain/api-key';
+export { SHORTEN_RATE_LIMIT, BULK_SHORTEN_RATE_LIMIT, IMPORT_RATE_LIMIT, UNLOCK_RATE_LIMIT } from './domain/rate-limit';
+export { BULK_SHORTEN_MAX_ROWS } from './use-cases/bulk-shorten-urls';
+export { parseCsv, parseCsvRecords, formatCsv, formatCsvRow } from './domain/csv';
+export { parseTagList, validateTags, MAX_TAGS_PER_LINK, TAG_MAX_LENGTH } from './domain/tags';
+export {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  isExportFormat,
+  validateExportFormat,
+} from './domain/export';
+export { parseImportFile, extractShortCode } from './domain/link-import';
+export { IMPORT_BATCH_SIZE } from './use-cases/import-links';
+export {
+  REDIRECT_STATUSES,
+  DEFAULT_REDIRECT_STATUS,
+  isRedirectStatus,
+  isPermanentRedirect,
+} from './domain/redirect-status';
+export {
+  QR_CODE_FORMATS,
+  QR_ERROR_CORRECTION_LEVELS,
+  QR_CODE_MIN_SIZE,
+  QR_CODE_MAX_SIZE,
+  DEFAULT_QR_CODE_OPTIONS,
+  encodeQrCode,
+  isQrCodeFormat,
+  isQrErrorCorrectionLevel,
+} from './domain/qr-code';
+export { SOCIAL_TITLE_MAX_LENGTH, SOCIAL_DESCRIPTION_MAX_LENGTH } from './domain/social-card';
+export { checkComponent, healthReport } from './domain/health';
+export { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from './domain/metrics';
 
 // Export error handling
 export {
@@ -25,8 +214,15 @@ export {
   DatabaseError,
   DatabaseConnectionError,
   DatabaseTimeoutError,
+  DatabaseSchemaError,
+  DuplicateEntryError,
   ValidationError,
   NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  LinkExpiredError,
+  PasswordRequiredError,
+  InvalidPasswordError,
   ShortCodeGenerationError,
   RateLimitError,
   isApplicationError,
@@ -38,5 +234,57 @@ export {
 
 // Export types
 export type { Url } from './domain/url';
-export type { UrlRepository, AnalyticsRepository } from './ports/repository';
+export type { ApiKey, ApiKeyScope } from './domain/api-key';
+export type { RateLimitRule, RateLimitResult } from './domain/rate-limit';
+export type { RateLimiter } from './ports/rate-limiter';
+export type { VisitorSaltStore } from './ports/visitor-salt-store';
+export type { VisitQueue } from './ports/visit-queue';
+export type { UrlCacheConfig, UrlCacheStats } from './adapters/cached-url-repository';
+export type {
+  VisitIngestionQueueConfig,
+  VisitIngestionStats,
+  DroppedVisitsEvent,
+} from './adapters/visit-ingestion-queue';
+export type {
+  UrlRepository,
+  AnalyticsRepository,
+  ApiKeyRepository,
+  UrlChanges,
+  UrlCondition,
+} from './ports/repository';
+export type { ShortenUrlOptions, ShortenUrlResult } from './use-cases/shorten-url';
+export type { GetOriginalUrlOptions, ResolvedLink } from './use-cases/get-original-url';
+export type { RedirectStatus } from './domain/redirect-status';
+export type { SocialCard } from './domain/social-card';
+export type { QrCode, QrCodeFormat, QrCodeOptions, QrErrorCorrectionLevel } from './domain/qr-code';
+export type {
+  BulkShortenRow,
+  BulkShortenOptions,
+  BulkShortenRowResult,
+  BulkShortenStatus,
+} from './use-cases/bulk-shorten-urls';
+export type { CsvValue } from './domain/csv';
+export type { ExportFormat, ExportRange, ExportedVisit, LinkSelection } from './domain/export';
+export type { ImportRecord } from './domain/link-import';
+export type { ComponentHealth, HealthReport, HealthStatus } from './domain/health';
+export type { MetricLabels, MetricSample, MetricType, ShortenerMetrics } from './domain/metrics';
+export type { ImportLinksOptions, ImportStatus, ImportRowResult } from './use-cases/import-links';
+export type { LinkStats } from './use-cases/get-link-stats';
+export type { LinkPreview } from './use-cases/get-link-preview';
+export type { VisitBreakdown } from './use-cases/get-visit-breakdown';
+export type { VisitTimeSeries } from './use-cases/get-visit-time-series';
+export type { TimeBucket, TimeSeriesPoint } from './domain/time-bucket';
+export type { DeviceClass, ParsedUserAgent } from './domain/user-agent';
+export type {
+  BreakdownEntry,
+  NewVisit,
+  VisitDetails,
+  VisitDimension,
+  VisitFilter,
+  VisitRange,
+} from './domain/visit';
+export type { BotSignals } from './domain/bot-detection';
+export type { ExpirationReason } from './domain/link-expiration';
+export type { CreateApiKeyInput, CreateApiKeyResult } from './use-cases/create-api-key';
+export type { AliasAvailability } from './use-cases/check-alias-availability';
 
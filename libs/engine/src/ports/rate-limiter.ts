@@ -0,0 +1,10 @@
+import type { RateLimitResult, RateLimitRule } from '../domain/rate-limit';
+
+export interface RateLimiter {
+  /** Records a hit for the key if it is within the limit */
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+  /** Reports the state of the key's window without recording a hit */
+  peek(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+  /** Forgets all hits for the key */
+  reset(key: string): Promise<void>;
+}
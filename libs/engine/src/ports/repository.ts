@@ -1,13 +1,79 @@
 import type { Url } from '../domain/url';
+import type { ApiKey } from '../domain/api-key';
+import type {
+  BreakdownEntry,
+  NewVisit,
+  VisitDetails,
+  VisitDimension,
+  VisitFilter,
+  VisitRange,
+} from '../domain/visit';
+import type { TimeBucket, TimeSeriesPoint } from '../domain/time-bucket';
+import type { ExportedVisit, ExportRange, LinkSelection } from '../domain/export';
+
+/**
+ * Fields of a link that can change after creation
+ */
+export type UrlChanges = Partial<Pick<Url, 'originalUrl' | 'deletedAt' | 'normalizedUrlHash' | 'sharedAt'>>;
+
+/**
+ * Values a stored link must still have for a conditional update to apply; null matches an unset field
+ */
+export type UrlCondition = Partial<Pick<Url, 'normalizedUrlHash' | 'sharedAt'>>;
 
 export interface UrlRepository {
   save(url: Url): Promise<Url>;
+  /** Saves several links in one transaction; if any of them fails, none are saved */
+  saveMany(urls: Url[]): Promise<Url[]>;
+  update(shortCode: string, changes: UrlChanges): Promise<Url>;
+  /** Updates the link only if it still matches `expected`, checked in the same write; null if it didn't */
+  updateIf(shortCode: string, expected: UrlCondition, changes: UrlChanges): Promise<Url | null>;
   findByShortCode(shortCode: string): Promise<Url | null>;
-  findAll(): Promise<Url[]>;
-  findAllWithStats(): Promise<(Url & { visitCount: number })[]>;
+  /** Finds the shared link for a URL that has been passed through normalizeUrl */
+  findByNormalizedUrl(normalizedUrl: string): Promise<Url | null>;
+  /** Newest first; limit caps how many are fetched */
+  findAll(limit?: number): Promise<Url[]>;
+  /** Newest first, like findAll; visitCount leaves out bot visits, like the other default counts */
+  findAllWithStats(limit?: number): Promise<(Url & { visitCount: number })[]>;
+  /** Only the given links with their visit counts, newest first */
+  findManyWithStatsByShortCodes(shortCodes: string[]): Promise<(Url & { visitCount: number })[]>;
+  countCreatedByApiKeySince(apiKeyId: string, since: Date): Promise<number>;
+  /** The selected links with their visit counts, oldest first, fetched a page at a time */
+  streamWithStats(selection: LinkSelection, pageSize?: number): AsyncIterable<Url & { visitCount: number }>;
 }
 
 export interface AnalyticsRepository {
-  trackVisit(shortCode: string, userAgent?: string): Promise<void>;
-  getVisits(shortCode: string): Promise<number>;
+  /** Records a single visit, looking the link up by short code first */
+  trackVisit(shortCode: string, visit?: VisitDetails): Promise<void>;
+  /** Writes visits for already resolved links in one batch */
+  recordVisits(visits: NewVisit[]): Promise<void>;
+  getVisits(shortCode: string, filter?: VisitFilter): Promise<number>;
+  /** Distinct visitor hashes; hashes rotate daily, so a visitor returning on another day counts again */
+  getUniqueVisitors(shortCode: string, filter?: VisitFilter): Promise<number>;
+  /** Visit counts grouped by a dimension, most frequent first */
+  getBreakdown(
+    shortCode: string,
+    dimension: VisitDimension,
+    limit?: number,
+    filter?: VisitFilter
+  ): Promise<BreakdownEntry[]>;
+  /** Visit counts per bucket between two dates, including empty buckets */
+  getVisitTimeSeries(
+    shortCode: string,
+    bucket: TimeBucket,
+    since: Date,
+    until: Date,
+    filter?: VisitFilter
+  ): Promise<TimeSeriesPoint[]>;
+  getVisitRange(shortCode: string, filter?: VisitFilter): Promise<VisitRange>;
+  /** Every visit to the selected links within the range, bots included, oldest first, fetched a page at a time */
+  streamVisits(selection: LinkSelection, range?: ExportRange, pageSize?: number): AsyncIterable<ExportedVisit>;
+}
+
+export interface ApiKeyRepository {
+  create(apiKey: ApiKey): Promise<ApiKey>;
+  findByHash(keyHash: string): Promise<ApiKey | null>;
+  findAllWithUsage(): Promise<(ApiKey & { linkCount: number })[]>;
+  markUsed(id: string, usedAt: Date): Promise<void>;
+  revoke(id: string, revokedAt: Date): Promise<ApiKey>;
 }
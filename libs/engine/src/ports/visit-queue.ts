@@ -0,0 +1,6 @@
+import type { NewVisit } from '../domain/visit';
+
+export interface VisitQueue {
+  /** Accepts a visit for writing later; never waits on the database */
+  enqueue(visit: NewVisit): void;
+}
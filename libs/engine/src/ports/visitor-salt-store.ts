@@ -0,0 +1,4 @@
+export interface VisitorSaltStore {
+  /** Returns the salt for a UTC day (YYYY-MM-DD), creating it on first use and discarding earlier days' salts */
+  getSalt(day: string): Promise<string>;
+}
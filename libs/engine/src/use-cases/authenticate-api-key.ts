@@ -0,0 +1,37 @@
+import type { ApiKeyRepository } from '../ports/repository';
+import { ForbiddenError, UnauthorizedError } from '../domain/errors';
+import { hasScope, hashApiKey, type ApiKey, type ApiKeyScope } from '../domain/api-key';
+
+/**
+ * Resolves a presented API key and checks that it grants a scope
+ */
+export class AuthenticateApiKeyUseCase {
+  constructor(
+    private readonly apiKeyRepository: ApiKeyRepository,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * @throws {UnauthorizedError} If the key is missing, unknown or revoked
+   * @throws {ForbiddenError} If the key lacks the required scope
+   */
+  async execute(key: string | null | undefined, scope: ApiKeyScope): Promise<ApiKey> {
+    if (!key) {
+      throw new UnauthorizedError('An API key is required');
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(hashApiKey(key));
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    if (!hasScope(apiKey, scope)) {
+      throw new ForbiddenError(`This API key does not have the ${scope} scope`);
+    }
+
+    const lastUsedAt = this.now();
+    await this.apiKeyRepository.markUsed(apiKey.id!, lastUsedAt);
+
+    return { ...apiKey, lastUsedAt };
+  }
+}
@@ -0,0 +1,224 @@
+import type { UrlRepository } from '../ports/repository';
+import type { RateLimiter } from '../ports/rate-limiter';
+import type { Url } from '../domain/url';
+import { generateShortCode } from '../domain/short-code';
+import { validateUrl, normalizeUrl, hashNormalizedUrl } from '../domain/url-validation';
+import { validateAlias } from '../domain/alias';
+import { validateTags } from '../domain/tags';
+import { isShareableLink, shareExistingLink } from '../domain/link-sharing';
+import { generateManagementSecret, hashManagementSecret } from '../domain/management-secret';
+import type { ApiKey } from '../domain/api-key';
+import {
+  rateLimitExceeded,
+  rateLimitKey,
+  BULK_SHORTEN_RATE_LIMIT,
+  type RateLimitRule,
+} from '../domain/rate-limit';
+import { ValidationError, RateLimitError, ShortCodeGenerationError } from '../domain/errors';
+
+export const BULK_SHORTEN_MAX_ROWS = 1000;
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 10;
+
+export interface BulkShortenRow {
+  url: string;
+  alias?: string;
+  tags?: string[];
+}
+
+export interface BulkShortenOptions {
+  /** API key the upload was made with; every created link counts towards its quota */
+  apiKey?: Pick<ApiKey, 'id' | 'dailyQuota'>;
+  /** Identifies anonymous callers (e.g. client IP) for rate limiting */
+  clientKey?: string;
+}
+
+/**
+ * created: a new link; existing: the URL was shortened before and that link is reused;
+ * duplicate: the same URL appears on an earlier row; failed: see error
+ */
+export type BulkShortenStatus = 'created' | 'existing' | 'duplicate' | 'failed';
+
+export interface BulkShortenRowResult {
+  /** 1-based position in the input */
+  row: number;
+  url: string;
+  status: BulkShortenStatus;
+  shortCode?: string;
+  /** Only for created links; it is stored hashed and cannot be recovered */
+  managementSecret?: string;
+  error?: string;
+}
+
+interface PendingLink {
+  result: BulkShortenRowResult;
+  url: Url;
+  managementSecret: string;
+}
+
+/**
+ * Shortens many URLs at once and reports the outcome of every row
+ * Invalid rows are reported and skipped; the valid ones are created together in one transaction.
+ */
+export class BulkShortenUrlsUseCase {
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly rateLimiter?: RateLimiter,
+    private readonly rateLimitRule: RateLimitRule = BULK_SHORTEN_RATE_LIMIT
+  ) {}
+
+  async execute(rows: BulkShortenRow[], options: BulkShortenOptions = {}): Promise<BulkShortenRowResult[]> {
+    if (rows.length === 0) {
+      throw new ValidationError('Add at least one URL', 'rows');
+    }
+    if (rows.length > BULK_SHORTEN_MAX_ROWS) {
+      throw new ValidationError(`At most ${BULK_SHORTEN_MAX_ROWS} URLs can be shortened at once`, 'rows');
+    }
+
+    await this.enforceRateLimit(options);
+
+    const results: BulkShortenRowResult[] = [];
+    const pending: PendingLink[] = [];
+    // Codes claimed by earlier rows, which aren't in the repository yet
+    const claimedCodes = new Set<string>();
+    // First result for each shareable URL, so later rows can point at the same link
+    const sharedResults = new Map<string, BulkShortenRowResult>();
+    const duplicates: { result: BulkShortenRowResult; first: BulkShortenRowResult }[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const result: BulkShortenRowResult = { row: index + 1, url: row.url, status: 'failed' };
+      results.push(result);
+
+      try {
+        validateUrl(row.url);
+        const normalizedUrl = normalizeUrl(row.url);
+        const tags = validateTags(row.tags ?? []);
+        const alias = row.alias?.trim() || undefined;
+
+        if (alias !== undefined) {
+          await this.assertAliasAvailable(alias, claimedCodes);
+        }
+
+        // Like single links, tagged, aliased or key-scoped rows get a link of their own
+        const isShareable = isShareableLink({ alias, tags, apiKeyId: options.apiKey?.id });
+        if (isShareable) {
+          const first = sharedResults.get(normalizedUrl);
+          if (first) {
+            result.status = 'duplicate';
+            duplicates.push({ result, first });
+            continue;
+          }
+          sharedResults.set(normalizedUrl, result);
+
+          const existing = await this.urlRepository.findByNormalizedUrl(normalizedUrl);
+          const shared = existing && await shareExistingLink(this.urlRepository, existing);
+          if (shared) {
+            result.status = 'existing';
+            result.shortCode = shared.shortCode;
+            continue;
+          }
+        }
+
+        const shortCode = alias ?? await this.generateUniqueCode(claimedCodes);
+        claimedCodes.add(shortCode);
+
+        const managementSecret = generateManagementSecret();
+        pending.push({
+          result,
+          managementSecret,
+          url: {
+            originalUrl: normalizedUrl,
+            shortCode,
+            createdAt: new Date(),
+            tags,
+            apiKeyId: options.apiKey?.id,
+            managementSecretHash: hashManagementSecret(managementSecret),
+            normalizedUrlHash: isShareable ? hashNormalizedUrl(normalizedUrl) : undefined,
+          },
+        });
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          result.error = error.message;
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (options.apiKey) {
+      await this.assertWithinQuota(options.apiKey, pending.length);
+    }
+
+    if (pending.length > 0) {
+      await this.urlRepository.saveMany(pending.map(link => link.url));
+    }
+
+    for (const { result, url, managementSecret } of pending) {
+      result.status = 'created';
+      result.shortCode = url.shortCode;
+      result.managementSecret = managementSecret;
+    }
+    for (const { result, first } of duplicates) {
+      result.shortCode = first.shortCode;
+    }
+
+    return results;
+  }
+
+  private async assertAliasAvailable(alias: string, claimedCodes: Set<string>): Promise<void> {
+    validateAlias(alias);
+
+    if (claimedCodes.has(alias)) {
+      throw new ValidationError(`Alias "${alias}" is used on an earlier row`, 'alias');
+    }
+    if (await this.urlRepository.findByShortCode(alias)) {
+      throw new ValidationError(`Alias "${alias}" is already taken`, 'alias');
+    }
+  }
+
+  private async generateUniqueCode(claimedCodes: Set<string>): Promise<string> {
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const shortCode = generateShortCode();
+      if (!claimedCodes.has(shortCode) && !(await this.urlRepository.findByShortCode(shortCode))) {
+        return shortCode;
+      }
+    }
+    throw new ShortCodeGenerationError();
+  }
+
+  /**
+   * Limits how often one client can upload, keyed by API key or client IP
+   */
+  private async enforceRateLimit(options: BulkShortenOptions): Promise<void> {
+    if (!this.rateLimiter) {
+      return;
+    }
+
+    const key = rateLimitKey('bulk-shorten', {
+      apiKeyId: options.apiKey?.id,
+      clientKey: options.clientKey,
+    });
+    const result = await this.rateLimiter.consume(key, this.rateLimitRule);
+    if (!result.allowed) {
+      throw rateLimitExceeded(result, "You're uploading links too quickly.");
+    }
+  }
+
+  /**
+   * Rejects the whole upload when it would take the API key past its daily link quota
+   */
+  private async assertWithinQuota(apiKey: Pick<ApiKey, 'id' | 'dailyQuota'>, count: number): Promise<void> {
+    if (apiKey.dailyQuota == null || !apiKey.id || count === 0) {
+      return;
+    }
+
+    const since = new Date(Date.now() - QUOTA_WINDOW_MS);
+    const created = await this.urlRepository.countCreatedByApiKeySince(apiKey.id, since);
+    if (created + count > apiKey.dailyQuota) {
+      throw new RateLimitError(
+        `This upload would create ${count} links, but the API key has ${Math.max(apiKey.dailyQuota - created, 0)} left today`
+      );
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import type { UrlRepository } from '../ports/repository';
+import { validateAlias } from '../domain/alias';
+import { ValidationError } from '../domain/errors';
+
+export interface AliasAvailability {
+  alias: string;
+  available: boolean;
+  reason?: string;
+}
+
+export class CheckAliasAvailabilityUseCase {
+  constructor(private readonly urlRepository: UrlRepository) {}
+
+  async execute(rawAlias: string): Promise<AliasAvailability> {
+    const alias = typeof rawAlias === 'string' ? rawAlias.trim() : '';
+
+    try {
+      validateAlias(alias);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return { alias, available: false, reason: error.message };
+      }
+      throw error;
+    }
+
+    const existing = await this.urlRepository.findByShortCode(alias);
+    if (existing) {
+      return { alias, available: false, reason: `Alias "${alias}" is already taken` };
+    }
+
+    return { alias, available: true };
+  }
+}
@@ -0,0 +1,55 @@
+import type { ApiKeyRepository } from '../ports/repository';
+import { ValidationError } from '../domain/errors';
+import {
+  generateApiKey,
+  hashApiKey,
+  validateScopes,
+  type ApiKey,
+} from '../domain/api-key';
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  dailyQuota?: number | null;
+}
+
+export interface CreateApiKeyResult {
+  apiKey: ApiKey;
+  /** The plain key; only its hash is stored, so it cannot be shown again */
+  key: string;
+}
+
+/**
+ * Issues a new API key with the requested scopes
+ */
+export class CreateApiKeyUseCase {
+  constructor(private readonly apiKeyRepository: ApiKeyRepository) {}
+
+  async execute(input: CreateApiKeyInput): Promise<CreateApiKeyResult> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new ValidationError('Name is required', 'name');
+    }
+    if (name.length > 100) {
+      throw new ValidationError('Name must be at most 100 characters', 'name');
+    }
+
+    const scopes = validateScopes(input.scopes);
+
+    const dailyQuota = input.dailyQuota ?? null;
+    if (dailyQuota !== null && (!Number.isInteger(dailyQuota) || dailyQuota < 1)) {
+      throw new ValidationError('Daily quota must be a positive whole number', 'dailyQuota');
+    }
+
+    const { key, prefix } = generateApiKey();
+    const apiKey = await this.apiKeyRepository.create({
+      name,
+      prefix,
+      keyHash: hashApiKey(key),
+      scopes,
+      dailyQuota,
+    });
+
+    return { apiKey, key };
+  }
+}
@@ -0,0 +1,52 @@
+import type { UrlRepository, UrlChanges } from '../ports/repository';
+import type { Url } from '../domain/url';
+import { authorizeManagement, sharedLinkForbidden } from '../domain/management-secret';
+import { NotFoundError } from '../domain/errors';
+
+/**
+ * Soft-deletes a link: it stops redirecting but keeps its short code and statistics
+ */
+export class DeleteUrlUseCase {
+  constructor(private readonly urlRepository: UrlRepository) {}
+
+  async execute(shortCode: string, managementSecret: string): Promise<Url> {
+    const url = authorizeManagement(
+      await this.urlRepository.findByShortCode(shortCode),
+      managementSecret
+    );
+
+    if (url.deletedAt) {
+      return url;
+    }
+
+    // Only while nobody else has been handed the link since it was read
+    const deleted = await this.urlRepository.updateIf(shortCode, { sharedAt: null }, softDeleteChanges());
+    if (!deleted) {
+      throw sharedLinkForbidden();
+    }
+    return deleted;
+  }
+
+  /**
+   * Deletes without the management secret, for operators with direct database access such as the CLI
+   * Operators may also delete links that were handed to several creators.
+   * @throws {NotFoundError} If the link doesn't exist
+   */
+  async executeAsOperator(shortCode: string): Promise<Url> {
+    const url = await this.urlRepository.findByShortCode(shortCode);
+    if (!url) {
+      throw new NotFoundError('Short URL not found');
+    }
+
+    if (url.deletedAt) {
+      return url;
+    }
+
+    return this.urlRepository.update(shortCode, softDeleteChanges());
+  }
+}
+
+function softDeleteChanges(): UrlChanges {
+  // Release the URL so the next request for it gets a fresh link
+  return { deletedAt: new Date(), normalizedUrlHash: null };
+}
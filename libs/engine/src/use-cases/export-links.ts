@@ -0,0 +1,38 @@
+import type { UrlRepository } from '../ports/repository';
+import type { Url } from '../domain/url';
+import { DEFAULT_REDIRECT_STATUS } from '../domain/redirect-status';
+import { formatExport, type ExportColumn, type ExportFormat, type LinkSelection } from '../domain/export';
+
+type ExportedLink = Url & { visitCount: number };
+
+/**
+ * Streams links with their visit counts as CSV or NDJSON lines
+ */
+export class ExportLinksUseCase {
+  constructor(private readonly urlRepository: UrlRepository) {}
+
+  /**
+   * @param shortUrlBase - Prefix for short URLs, e.g. "https://sho.rt/s/"; the caller knows the public origin
+   */
+  execute(selection: LinkSelection, format: ExportFormat, shortUrlBase: string): AsyncIterable<string> {
+    return formatExport(this.urlRepository.streamWithStats(selection), format, linkColumns(shortUrlBase));
+  }
+}
+
+function linkColumns(shortUrlBase: string): ExportColumn<ExportedLink>[] {
+  return [
+    { name: 'code', header: 'short_code', value: url => url.shortCode },
+    { name: 'shortUrl', header: 'short_url', value: url => `${shortUrlBase}${url.shortCode}` },
+    // Like the API, never reveal where a password-protected link goes
+    { name: 'originalUrl', header: 'original_url', value: url => (url.passwordHash ? null : url.originalUrl) },
+    { name: 'createdAt', header: 'created_at', value: url => url.createdAt },
+    { name: 'expiresAt', header: 'expires_at', value: url => url.expiresAt },
+    { name: 'maxClicks', header: 'max_clicks', value: url => url.maxClicks },
+    { name: 'redirectStatus', header: 'redirect_status', value: url => url.redirectStatus ?? DEFAULT_REDIRECT_STATUS },
+    { name: 'tags', header: 'tags', value: url => url.tags ?? [] },
+    { name: 'isProtected', header: 'is_protected', value: url => url.passwordHash != null },
+    { name: 'deletedAt', header: 'deleted_at', value: url => url.deletedAt },
+    { name: 'visitCount', header: 'visit_count', value: url => url.visitCount },
+    { name: 'importedClicks', header: 'imported_clicks', value: url => url.importedClicks },
+  ];
+}
@@ -0,0 +1,37 @@
+import type { AnalyticsRepository } from '../ports/repository';
+import {
+  formatExport,
+  validateExportRange,
+  type ExportColumn,
+  type ExportedVisit,
+  type ExportFormat,
+  type ExportRange,
+  type LinkSelection,
+} from '../domain/export';
+
+const VISIT_COLUMNS: ExportColumn<ExportedVisit>[] = [
+  { name: 'id', header: 'id', value: visit => visit.id },
+  { name: 'code', header: 'short_code', value: visit => visit.shortCode },
+  { name: 'timestamp', header: 'timestamp', value: visit => visit.timestamp },
+  { name: 'referrer', header: 'referrer', value: visit => visit.referrer },
+  { name: 'browser', header: 'browser', value: visit => visit.browser },
+  { name: 'os', header: 'os', value: visit => visit.os },
+  { name: 'deviceClass', header: 'device_class', value: visit => visit.deviceClass },
+  { name: 'isBot', header: 'is_bot', value: visit => visit.isBot },
+  { name: 'visitorHash', header: 'visitor_hash', value: visit => visit.visitorHash },
+];
+
+/**
+ * Streams the raw visits to links, bots included, as CSV or NDJSON lines
+ */
+export class ExportVisitsUseCase {
+  constructor(private readonly analyticsRepository: AnalyticsRepository) {}
+
+  /**
+   * @throws {ValidationError} If the range is invalid; checked before anything is streamed
+   */
+  execute(selection: LinkSelection, format: ExportFormat, range: ExportRange = {}): AsyncIterable<string> {
+    validateExportRange(range);
+    return formatExport(this.analyticsRepository.streamVisits(selection, range), format, VISIT_COLUMNS);
+  }
+}
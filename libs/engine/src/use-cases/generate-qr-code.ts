@@ -0,0 +1,28 @@
+import type { UrlRepository } from '../ports/repository';
+import { NotFoundError } from '../domain/errors';
+import { encodeQrCode, type QrCode, type QrCodeFormat, type QrCodeOptions } from '../domain/qr-code';
+
+/**
+ * Renders a QR code pointing at a link's short URL without counting a visit
+ */
+export class GenerateQrCodeUseCase {
+  constructor(private readonly urlRepository: UrlRepository) {}
+
+  /**
+   * @param shortUrl - The full short URL to encode; the caller knows the public origin
+   */
+  async execute(
+    shortCode: string,
+    shortUrl: string,
+    format: QrCodeFormat,
+    options: QrCodeOptions = {}
+  ): Promise<QrCode> {
+    const url = await this.urlRepository.findByShortCode(shortCode);
+
+    if (!url || url.deletedAt) {
+      throw new NotFoundError('Short URL not found');
+    }
+
+    return encodeQrCode(shortUrl, format, options);
+  }
+}
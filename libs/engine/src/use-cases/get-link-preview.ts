@@ -0,0 +1,45 @@
+import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import { NotFoundError } from '../domain/errors';
+import { getExpirationReason, type ExpirationReason } from '../domain/link-expiration';
+
+export interface LinkPreview {
+  shortCode: string;
+  /** null for password-protected links, whose destination is only revealed after unlocking */
+  originalUrl: string | null;
+  domain: string | null;
+  createdAt: Date | null;
+  visitCount: number;
+  isProtected: boolean;
+  expirationReason: ExpirationReason | null;
+}
+
+/**
+ * Shows where a short link goes before anyone follows it, without counting a visit
+ */
+export class GetLinkPreviewUseCase {
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly analyticsRepository: AnalyticsRepository
+  ) {}
+
+  async execute(shortCode: string): Promise<LinkPreview> {
+    const url = await this.urlRepository.findByShortCode(shortCode);
+
+    if (!url || url.deletedAt) {
+      throw new NotFoundError('Short URL not found');
+    }
+
+    const visitCount = await this.analyticsRepository.getVisits(shortCode);
+    const isProtected = url.passwordHash != null;
+
+    return {
+      shortCode: url.shortCode,
+      originalUrl: isProtected ? null : url.originalUrl,
+      domain: isProtected ? null : new URL(url.originalUrl).hostname,
+      createdAt: url.createdAt ?? null,
+      visitCount,
+      isProtected,
+      expirationReason: getExpirationReason(url, visitCount),
+    };
+  }
+}
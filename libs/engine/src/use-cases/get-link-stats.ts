@@ -0,0 +1,35 @@
+import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import type { Url } from '../domain/url';
+import type { VisitFilter } from '../domain/visit';
+import { NotFoundError } from '../domain/errors';
+
+export interface LinkStats {
+  url: Url;
+  visitCount: number;
+  uniqueVisitors: number;
+}
+
+/**
+ * Looks up a link and its visit count without counting a visit
+ */
+export class GetLinkStatsUseCase {
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly analyticsRepository: AnalyticsRepository
+  ) {}
+
+  async execute(shortCode: string, filter: VisitFilter = {}): Promise<LinkStats> {
+    const url = await this.urlRepository.findByShortCode(shortCode);
+
+    if (!url || url.deletedAt) {
+      throw new NotFoundError('Short URL not found');
+    }
+
+    const [visitCount, uniqueVisitors] = await Promise.all([
+      this.analyticsRepository.getVisits(shortCode, filter),
+      this.analyticsRepository.getUniqueVisitors(shortCode, filter),
+    ]);
+
+    return { url, visitCount, uniqueVisitors };
+  }
+}
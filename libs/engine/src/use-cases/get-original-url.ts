@@ -1,23 +1,178 @@
 import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import { getExpirationReason } from '../domain/link-expiration';
+import { verifyPassword } from '../domain/password';
+import { captureVisit, type NewVisit } from '../domain/visit';
+import { UnlockAttemptThrottle } from '../domain/unlock-attempt-throttle';
+import { VisitorHasher } from '../domain/visitor-id';
+import { getSocialCard, type SocialCard } from '../domain/social-card';
+import { InMemoryRateLimiter } from '../adapters/in-memory-rate-limiter';
+import { InMemoryVisitorSaltStore } from '../adapters/in-memory-visitor-salt-store';
+import { VisitIngestionQueue } from '../adapters/visit-ingestion-queue';
+import type { VisitQueue } from '../ports/visit-queue';
+import {
+  isRedirectStatus,
+  redirectCacheControl,
+  DEFAULT_REDIRECT_STATUS,
+  type RedirectStatus,
+} from '../domain/redirect-status';
+import {
+  LinkExpiredError,
+  PasswordRequiredError,
+  InvalidPasswordError,
+  getErrorCode,
+} from '../domain/errors';
+import { MetricsRegistry, createShortenerMetrics, type ShortenerMetrics } from '../domain/metrics';
+
+export interface GetOriginalUrlOptions {
+  userAgent?: string;
+  /** Referer header of the request, reduced to its host before storing */
+  referrer?: string;
+  /** HTTP method and Purpose header, used to tell bots from clicks */
+  method?: string;
+  purpose?: string;
+  /** Client IP, only ever stored as part of a daily-salted visitor hash */
+  clientIp?: string;
+  /** Password for protected links */
+  password?: string;
+  /** Identifies the caller (e.g. client IP) for throttling password attempts */
+  clientKey?: string;
+}
+
+export interface ResolvedLink {
+  originalUrl: string;
+  redirectStatus: RedirectStatus;
+  /** Cache-Control header to send with the redirect */
+  cacheControl: string;
+  /** Overrides for link unfurling, null when the link has none */
+  socialCard: SocialCard | null;
+}
 
 export class GetOriginalUrlUseCase {
   constructor(
     private readonly urlRepository: UrlRepository,
-    private readonly analyticsRepository: AnalyticsRepository
+    private readonly analyticsRepository: AnalyticsRepository,
+    private readonly unlockThrottle: UnlockAttemptThrottle = new UnlockAttemptThrottle(new InMemoryRateLimiter()),
+    private readonly visitorHasher: VisitorHasher = new VisitorHasher(new InMemoryVisitorSaltStore()),
+    private readonly visitQueue: VisitQueue = new VisitIngestionQueue(analyticsRepository),
+    private readonly metrics: ShortenerMetrics = createShortenerMetrics(new MetricsRegistry())
   ) {}
 
-  async execute(shortCode: string, userAgent?: string): Promise<string | null> {
+  async execute(shortCode: string, options: GetOriginalUrlOptions = {}): Promise<string | null> {
+    const link = await this.resolve(shortCode, options);
+    return link?.originalUrl ?? null;
+  }
+
+  /**
+   * Like execute, but also tells how to redirect: the link's status code and cache header
+   */
+  async resolve(shortCode: string, options: GetOriginalUrlOptions = {}): Promise<ResolvedLink | null> {
+    try {
+      const link = await this.resolveLink(shortCode, options);
+      if (link) {
+        this.metrics.redirects.inc({ status: String(link.redirectStatus) });
+      } else {
+        this.metrics.notFound.inc();
+      }
+      return link;
+    } catch (error) {
+      const reason = refusalReason(error);
+      if (reason) {
+        this.metrics.refusedRedirects.inc({ reason });
+      } else {
+        this.metrics.errors.inc({ operation: 'redirect', code: getErrorCode(error) });
+      }
+      throw error;
+    }
+  }
+
+  private async resolveLink(shortCode: string, options: GetOriginalUrlOptions): Promise<ResolvedLink | null> {
     const url = await this.urlRepository.findByShortCode(shortCode);
     
-    if (!url) {
+    // Deleted links behave as if they never existed
+    if (!url || url.deletedAt) {
       return null;
     }
 
-    // Fire and forget tracking? Or await?
-    // Awaiting ensures data consistency but adds latency.
-    // For this challenge, awaiting is safer to demonstrate correctness.
-    await this.analyticsRepository.trackVisit(shortCode, userAgent);
+    // Only links with a click budget need the visit count; bots don't use up the budget
+    const visitCount = url.maxClicks != null
+      ? await this.analyticsRepository.getVisits(shortCode)
+      : 0;
+
+    const expirationReason = getExpirationReason(url, visitCount);
+    if (expirationReason === 'expired') {
+      throw new LinkExpiredError('This link has expired', 'expired');
+    }
+    if (expirationReason === 'exhausted') {
+      throw new LinkExpiredError('This link has reached its click limit', 'exhausted');
+    }
+
+    if (url.passwordHash) {
+      await this.verifyAccess(shortCode, url.passwordHash, options);
+    }
+
+    const visit: NewVisit = {
+      ...captureVisit({
+        userAgent: options.userAgent,
+        referrer: options.referrer,
+        method: options.method,
+        purpose: options.purpose,
+      }),
+      visitorHash: await this.visitorHasher.hash(options.clientIp, options.userAgent),
+      urlId: url.id!,
+      timestamp: new Date(),
+    };
 
-    return url.originalUrl;
+    // Click budgets are checked against stored visits, so those can't wait in the queue
+    if (url.maxClicks != null) {
+      await this.analyticsRepository.recordVisits([visit]);
+    } else {
+      this.visitQueue.enqueue(visit);
+    }
+
+    const redirectStatus = isRedirectStatus(url.redirectStatus) ? url.redirectStatus : DEFAULT_REDIRECT_STATUS;
+    return {
+      originalUrl: url.originalUrl,
+      redirectStatus,
+      cacheControl: redirectCacheControl(redirectStatus, url.expiresAt),
+      socialCard: getSocialCard(url),
+    };
+  }
+
+  /**
+   * Checks the password for a protected link, throttling repeated failures
+   */
+  private async verifyAccess(
+    shortCode: string,
+    passwordHash: string,
+    options: GetOriginalUrlOptions
+  ): Promise<void> {
+    if (options.password === undefined) {
+      throw new PasswordRequiredError();
+    }
+
+    const throttleKey = `${shortCode}:${options.clientKey ?? 'anonymous'}`;
+    await this.unlockThrottle.beginAttempt(throttleKey);
+
+    if (!(await verifyPassword(options.password, passwordHash))) {
+      throw new InvalidPasswordError();
+    }
+
+    await this.unlockThrottle.reset(throttleKey);
+  }
+}
+
+/**
+ * Why a link was withheld from the visitor on purpose; null when resolving it failed
+ */
+function refusalReason(error: unknown): string | null {
+  if (error instanceof LinkExpiredError) {
+    return error.reason;
+  }
+  if (error instanceof PasswordRequiredError) {
+    return 'password_required';
+  }
+  if (error instanceof InvalidPasswordError) {
+    return 'invalid_password';
   }
+  return null;
 }
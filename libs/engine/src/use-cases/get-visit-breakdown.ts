@@ -0,0 +1,41 @@
+import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import type { BreakdownEntry, VisitFilter } from '../domain/visit';
+import { NotFoundError } from '../domain/errors';
+
+export interface VisitBreakdown {
+  referrers: BreakdownEntry[];
+  devices: BreakdownEntry[];
+  browsers: BreakdownEntry[];
+  operatingSystems: BreakdownEntry[];
+}
+
+/**
+ * Groups a link's visits by referrer, device class, browser and operating system
+ */
+export class GetVisitBreakdownUseCase {
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly analyticsRepository: AnalyticsRepository
+  ) {}
+
+  async execute(
+    shortCode: string,
+    limit: number = 10,
+    filter: VisitFilter = {}
+  ): Promise<VisitBreakdown> {
+    const url = await this.urlRepository.findByShortCode(shortCode);
+
+    if (!url || url.deletedAt) {
+      throw new NotFoundError('Short URL not found');
+    }
+
+    const [referrers, devices, browsers, operatingSystems] = await Promise.all([
+      this.analyticsRepository.getBreakdown(shortCode, 'referrer', limit, filter),
+      this.analyticsRepository.getBreakdown(shortCode, 'deviceClass', limit, filter),
+      this.analyticsRepository.getBreakdown(shortCode, 'browser', limit, filter),
+      this.analyticsRepository.getBreakdown(shortCode, 'os', limit, filter),
+    ]);
+
+    return { referrers, devices, browsers, operatingSystems };
+  }
+}
@@ -0,0 +1,42 @@
+import type { UrlRepository, AnalyticsRepository } from '../ports/repository';
+import { timeSeriesStart, type TimeBucket, type TimeSeriesPoint } from '../domain/time-bucket';
+import type { VisitFilter } from '../domain/visit';
+import { NotFoundError } from '../domain/errors';
+
+export interface VisitTimeSeries {
+  bucket: TimeBucket;
+  points: TimeSeriesPoint[];
+  firstVisitAt: Date | null;
+  lastVisitAt: Date | null;
+}
+
+/**
+ * Counts a link's recent visits per hour, day or week, along with its first and last click
+ */
+export class GetVisitTimeSeriesUseCase {
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly analyticsRepository: AnalyticsRepository,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async execute(
+    shortCode: string,
+    bucket: TimeBucket,
+    filter: VisitFilter = {}
+  ): Promise<VisitTimeSeries> {
+    const url = await this.urlRepository.findByShortCode(shortCode);
+
+    if (!url || url.deletedAt) {
+      throw new NotFoundError('Short URL not found');
+    }
+
+    const now = this.now();
+    const [points, range] = await Promise.all([
+      this.analyticsRepository.getVisitTimeSeries(shortCode, bucket, timeSeriesStart(bucket, now), now, filter),
+      this.analyticsRepository.getVisitRange(shortCode, filter),
+    ]);
+
+    return { bucket, points, ...range };
+  }
+}
@@ -0,0 +1,168 @@
+import type { UrlRepository } from '../ports/repository';
+import type { RateLimiter } from '../ports/rate-limiter';
+import type { Url } from '../domain/url';
+import { validateUrl, normalizeUrl } from '../domain/url-validation';
+import { validateAlias } from '../domain/alias';
+import { validateTags } from '../domain/tags';
+import type { ImportRecord } from '../domain/link-import';
+import {
+  rateLimitExceeded,
+  rateLimitKey,
+  IMPORT_RATE_LIMIT,
+  type RateLimitRule,
+} from '../domain/rate-limit';
+import { ValidationError } from '../domain/errors';
+
+/** Rows checked and saved together; each batch is one transaction */
+export const IMPORT_BATCH_SIZE = 500;
+
+export interface ImportLinksOptions {
+  /** Keep the previous shortener's click counts as importedClicks */
+  importClicks?: boolean;
+  /** Check every row and report the outcome without saving anything */
+  dryRun?: boolean;
+}
+
+/**
+ * imported: created with its original code (or would be, in a dry run); existing: the code
+ * already points at the same URL, e.g. from an earlier run; conflict: the code is taken; failed: see error
+ */
+export type ImportStatus = 'imported' | 'existing' | 'conflict' | 'failed';
+
+export interface ImportRowResult {
+  /** 1-based position in the import file */
+  row: number;
+  code: string;
+  url: string;
+  status: ImportStatus;
+  error?: string;
+}
+
+/**
+ * Recreates links exported from another shortener under their original short codes
+ * Codes that are already taken here are reported as conflicts and left alone. Imported
+ * links have no management secret and are never shared with people shortening the same URL.
+ */
+export class ImportLinksUseCase {
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly rateLimiter?: RateLimiter,
+    private readonly rateLimitRule: RateLimitRule = IMPORT_RATE_LIMIT
+  ) {}
+
+  /**
+   * Counts an upload against the client's limit; call it before reading the file
+   * @throws {RateLimitError} If the client has uploaded too many files recently
+   */
+  async enforceRateLimit(clientKey?: string): Promise<void> {
+    if (!this.rateLimiter) {
+      return;
+    }
+
+    const result = await this.rateLimiter.consume(rateLimitKey('import', { clientKey }), this.rateLimitRule);
+    if (!result.allowed) {
+      throw rateLimitExceeded(result, "You're importing files too quickly.");
+    }
+  }
+
+  async execute(records: ImportRecord[], options: ImportLinksOptions = {}): Promise<ImportRowResult[]> {
+    const results: ImportRowResult[] = [];
+    // Codes claimed by earlier rows of the file
+    const claimedCodes = new Set<string>();
+
+    for (let start = 0; start < records.length; start += IMPORT_BATCH_SIZE) {
+      const batch = records.slice(start, start + IMPORT_BATCH_SIZE);
+      results.push(...await this.importBatch(batch, start, claimedCodes, options));
+    }
+
+    return results;
+  }
+
+  private async importBatch(
+    records: ImportRecord[],
+    offset: number,
+    claimedCodes: Set<string>,
+    options: ImportLinksOptions
+  ): Promise<ImportRowResult[]> {
+    const codes = records.map(record => record.code.trim()).filter(Boolean);
+    const existing = new Map(
+      (await this.urlRepository.findManyWithStatsByShortCodes(codes)).map(url => [url.shortCode, url])
+    );
+
+    const results: ImportRowResult[] = [];
+    const pending: Url[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const result: ImportRowResult = { row: offset + index + 1, code: record.code, url: record.url, status: 'failed' };
+      results.push(result);
+
+      let url: Url;
+      try {
+        url = toImportedUrl(record, options);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          result.error = error.message;
+          continue;
+        }
+        throw error;
+      }
+
+      const current = existing.get(url.shortCode);
+      if (claimedCodes.has(url.shortCode)) {
+        result.status = 'conflict';
+        result.error = `Code "${url.shortCode}" is used on an earlier row`;
+      } else if (current && current.originalUrl === url.originalUrl) {
+        result.status = 'existing';
+      } else if (current) {
+        result.status = 'conflict';
+        result.error = `Code "${url.shortCode}" is already used by another link`;
+      } else {
+        result.status = 'imported';
+        pending.push(url);
+      }
+      claimedCodes.add(url.shortCode);
+    }
+
+    if (!options.dryRun && pending.length > 0) {
+      await this.urlRepository.saveMany(pending);
+    }
+
+    return results;
+  }
+}
+
+/**
+ * @throws {ValidationError} If the code, URL, date, click count or tags are invalid
+ */
+function toImportedUrl(record: ImportRecord, options: ImportLinksOptions): Url {
+  const shortCode = record.code.trim();
+  if (!shortCode) {
+    throw new ValidationError('Short code is missing', 'code');
+  }
+  validateAlias(shortCode);
+  validateUrl(record.url);
+
+  let createdAt = new Date();
+  if (record.createdAt) {
+    createdAt = new Date(record.createdAt);
+    if (Number.isNaN(createdAt.getTime())) {
+      throw new ValidationError(`Creation date "${record.createdAt}" is not a valid date`, 'createdAt');
+    }
+  }
+
+  let importedClicks: number | null = null;
+  if (options.importClicks && record.clicks) {
+    importedClicks = Number(record.clicks);
+    if (!Number.isInteger(importedClicks) || importedClicks < 0) {
+      throw new ValidationError(`Click count "${record.clicks}" is not a whole number`, 'clicks');
+    }
+  }
+
+  return {
+    originalUrl: normalizeUrl(record.url),
+    shortCode,
+    createdAt,
+    tags: validateTags(record.tags ?? []),
+    importedClicks,
+  };
+}
@@ -0,0 +1,23 @@
+import type { UrlRepository } from '../ports/repository';
+import type { Url } from '../domain/url';
+import { authorizeManagement } from '../domain/management-secret';
+
+/**
+ * Restores a soft-deleted link so it redirects again
+ */
+export class RestoreUrlUseCase {
+  constructor(private readonly urlRepository: UrlRepository) {}
+
+  async execute(shortCode: string, managementSecret: string): Promise<Url> {
+    const url = authorizeManagement(
+      await this.urlRepository.findByShortCode(shortCode),
+      managementSecret
+    );
+
+    if (!url.deletedAt) {
+      return url;
+    }
+
+    return this.urlRepository.update(shortCode, { deletedAt: null });
+  }
+}
@@ -0,0 +1,16 @@
+import type { ApiKeyRepository } from '../ports/repository';
+import type { ApiKey } from '../domain/api-key';
+
+/**
+ * Revokes an API key; requests made with it are rejected from then on
+ */
+export class RevokeApiKeyUseCase {
+  constructor(
+    private readonly apiKeyRepository: ApiKeyRepository,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async execute(id: string): Promise<ApiKey> {
+    return this.apiKeyRepository.revoke(id, this.now());
+  }
+}
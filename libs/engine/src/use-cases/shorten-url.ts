@@ -1,31 +1,129 @@
 import type { UrlRepository } from '../ports/repository';
+import type { RateLimiter } from '../ports/rate-limiter';
 import { generateShortCode } from '../domain/short-code';
 import type { Url } from '../domain/url';
-import { validateUrl, normalizeUrl } from '../domain/url-validation';
+import { validateUrl, normalizeUrl, hashNormalizedUrl } from '../domain/url-validation';
+import { validateAlias } from '../domain/alias';
+import { validateExpirationSettings } from '../domain/link-expiration';
+import { validatePassword, hashPassword } from '../domain/password';
+import { validateRedirectSettings, type RedirectStatus } from '../domain/redirect-status';
+import { validateSocialCardSettings } from '../domain/social-card';
+import { isShareableLink, shareExistingLink } from '../domain/link-sharing';
+import { generateManagementSecret, hashManagementSecret } from '../domain/management-secret';
+import type { ApiKey } from '../domain/api-key';
+import {
+  rateLimitExceeded,
+  rateLimitKey,
+  SHORTEN_RATE_LIMIT,
+  type RateLimitRule,
+} from '../domain/rate-limit';
+import { ValidationError, DuplicateEntryError, RateLimitError, getErrorCode } from '../domain/errors';
+import { MetricsRegistry, createShortenerMetrics, type ShortenerMetrics } from '../domain/metrics';
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ShortenUrlOptions {
+  /** Custom vanity alias to use instead of a generated short code */
+  alias?: string;
+  /** Date after which the link stops redirecting */
+  expiresAt?: Date;
+  /** Number of visits after which the link stops redirecting */
+  maxClicks?: number;
+  /** Passphrase visitors must enter before being redirected */
+  password?: string;
+  /** HTTP status to redirect with; permanent ones (301, 308) are cached by browsers and stop counting clicks */
+  redirectStatus?: RedirectStatus;
+  /** Title, description and image shown when the link is unfurled by chat apps and social networks */
+  ogTitle?: string;
+  ogDescription?: string;
+  ogImage?: string;
+  /** API key the request was made with; new links are attributed to it and count towards its quota */
+  apiKey?: Pick<ApiKey, 'id' | 'dailyQuota'>;
+  /** Identifies anonymous callers (e.g. client IP) for rate limiting */
+  clientKey?: string;
+}
+
+export interface ShortenUrlResult extends Url {
+  /**
+   * Secret that authorizes editing and deleting the link.
+   * Only returned when a new link is created; it is stored hashed and cannot be recovered.
+   */
+  managementSecret?: string;
+}
 
 export class ShortenUrlUseCase {
-  constructor(private readonly urlRepository: UrlRepository) {}
+  constructor(
+    private readonly urlRepository: UrlRepository,
+    private readonly rateLimiter?: RateLimiter,
+    private readonly rateLimitRule: RateLimitRule = SHORTEN_RATE_LIMIT,
+    private readonly metrics: ShortenerMetrics = createShortenerMetrics(new MetricsRegistry())
+  ) {}
+
+  async execute(originalUrl: string, options: ShortenUrlOptions = {}): Promise<ShortenUrlResult> {
+    try {
+      const result = await this.shorten(originalUrl, options);
+      // Only newly created links come with a management secret
+      this.metrics.shortens.inc({ outcome: result.managementSecret ? 'created' : 'reused' });
+      return result;
+    } catch (error) {
+      this.metrics.errors.inc({ operation: 'shorten', code: getErrorCode(error) });
+      throw error;
+    }
+  }
+
+  private async shorten(originalUrl: string, options: ShortenUrlOptions): Promise<ShortenUrlResult> {
+    // Every attempt counts, so invalid requests can't be used to probe without limits
+    await this.enforceRateLimit(options);
 
-  async execute(originalUrl: string): Promise<Url> {
     // Step 1: Validate the URL (must be HTTPS)
     validateUrl(originalUrl);
     
     // Step 2: Normalize the URL for consistency
     const normalizedUrl = normalizeUrl(originalUrl);
+
+    validateExpirationSettings(options);
+    if (options.password !== undefined) {
+      validatePassword(options.password);
+    }
+    validateRedirectSettings(options);
+    validateSocialCardSettings(options);
+
+    if (options.apiKey) {
+      await this.assertWithinQuota(options.apiKey);
+    }
+
+    const settings: LinkSettings = {
+      expiresAt: options.expiresAt,
+      maxClicks: options.maxClicks,
+      passwordHash: options.password !== undefined
+        ? await hashPassword(options.password)
+        : undefined,
+      apiKeyId: options.apiKey?.id,
+      redirectStatus: options.redirectStatus,
+      ogTitle: options.ogTitle?.trim(),
+      ogDescription: options.ogDescription?.trim(),
+      ogImage: options.ogImage,
+    };
+
+    // A custom alias always creates a new link, even if the URL was shortened before
+    if (options.alias !== undefined) {
+      return this.saveWithAlias(normalizedUrl, options.alias, settings);
+    }
     
     // Step 3: Check if this URL already exists (same URL = same short code)
-    const allUrls = await this.urlRepository.findAll();
-    const existingUrl = allUrls.find(url => {
-      try {
-        return normalizeUrl(url.originalUrl) === normalizedUrl;
-      } catch {
-        return url.originalUrl === normalizedUrl;
+    // Links with their own lifecycle, password or owning API key are never shared with other requests
+    const isShareable = isShareableLink(settings);
+    if (isShareable) {
+      const existingUrl = await this.urlRepository.findByNormalizedUrl(normalizedUrl);
+      
+      if (existingUrl) {
+        // Return the existing short code for this URL
+        // The management secret stays with whoever created the link, who can no longer use it
+        const sharedUrl = await shareExistingLink(this.urlRepository, existingUrl);
+        if (sharedUrl) {
+          return sharedUrl;
+        }
       }
-    });
-    
-    if (existingUrl) {
-      // Return the existing short code for this URL
-      return existingUrl;
     }
     
     // Step 4: Generate a unique short code with collision prevention
@@ -42,12 +140,10 @@ export class ShortenUrlUseCase {
       
       if (!existing) {
         // No collision - create and save the new URL
-        const url: Url = {
-          originalUrl: normalizedUrl,
-          shortCode,
-          createdAt: new Date(),
-        };
-        return this.urlRepository.save(url);
+        const url = buildUrl(normalizedUrl, shortCode, settings);
+        return isShareable
+          ? this.saveShared(url, normalizedUrl)
+          : this.saveNew(url);
       }
       
       // Collision detected - retry with a new code
@@ -58,5 +154,136 @@ export class ShortenUrlUseCase {
     // This is extremely unlikely to happen in practice (probability < 0.000001%)
     throw new Error('Failed to generate unique short code after retries');
   }
+
+  /**
+   * Limits how quickly one client can create links, keyed by API key or client IP
+   */
+  private async enforceRateLimit(options: ShortenUrlOptions): Promise<void> {
+    if (!this.rateLimiter) {
+      return;
+    }
+
+    const key = rateLimitKey('shorten', {
+      apiKeyId: options.apiKey?.id,
+      clientKey: options.clientKey,
+    });
+    const result = await this.rateLimiter.consume(key, this.rateLimitRule);
+    if (!result.allowed) {
+      throw rateLimitExceeded(result, "You're creating links too quickly.");
+    }
+  }
+
+  /**
+   * Rejects the request when the API key has used up its daily link quota
+   */
+  private async assertWithinQuota(apiKey: Pick<ApiKey, 'id' | 'dailyQuota'>): Promise<void> {
+    if (apiKey.dailyQuota == null || !apiKey.id) {
+      return;
+    }
+
+    const since = new Date(Date.now() - QUOTA_WINDOW_MS);
+    const created = await this.urlRepository.countCreatedByApiKeySince(apiKey.id, since);
+    if (created >= apiKey.dailyQuota) {
+      throw new RateLimitError('Daily link quota exceeded for this API key');
+    }
+  }
+
+  /**
+   * Saves a new link together with a freshly generated management secret
+   */
+  private async saveNew(url: Url): Promise<ShortenUrlResult> {
+    const managementSecret = generateManagementSecret();
+    const saved = await this.urlRepository.save({
+      ...url,
+      managementSecretHash: hashManagementSecret(managementSecret),
+    });
+    return { ...saved, managementSecret };
+  }
+
+  /**
+   * Saves a link that later requests for the same URL will reuse
+   */
+  private async saveShared(url: Url, normalizedUrl: string): Promise<ShortenUrlResult> {
+    try {
+      return await this.saveNew({ ...url, normalizedUrlHash: hashNormalizedUrl(normalizedUrl) });
+    } catch (error) {
+      // Another request shortened the same URL between the lookup and the insert
+      if (error instanceof DuplicateEntryError) {
+        const existingUrl = await this.urlRepository.findByNormalizedUrl(normalizedUrl);
+        const sharedUrl = existingUrl && await shareExistingLink(this.urlRepository, existingUrl);
+        if (sharedUrl) {
+          return sharedUrl;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a link under a user-chosen alias, rejecting aliases that are already taken
+   */
+  private async saveWithAlias(
+    normalizedUrl: string,
+    rawAlias: string,
+    settings: LinkSettings
+  ): Promise<ShortenUrlResult> {
+    validateAlias(rawAlias);
+    const alias = rawAlias.trim();
+
+    const existing = await this.urlRepository.findByShortCode(alias);
+    if (existing) {
+      throw new ValidationError(`Alias "${alias}" is already taken`, 'alias');
+    }
+
+    try {
+      return await this.saveNew(buildUrl(normalizedUrl, alias, settings));
+    } catch (error) {
+      // Another request claimed the alias between the check and the insert
+      if (error instanceof DuplicateEntryError) {
+        throw new ValidationError(`Alias "${alias}" is already taken`, 'alias');
+      }
+      throw error;
+    }
+  }
 }
 
+/**
+ * Per-link settings that are persisted alongside the URL
+ */
+type LinkSettings = Pick<
+  Url,
+  'expiresAt' | 'maxClicks' | 'passwordHash' | 'apiKeyId' | 'redirectStatus' | 'ogTitle' | 'ogDescription' | 'ogImage'
+>;
+
+function buildUrl(originalUrl: string, shortCode: string, settings: LinkSettings): Url {
+  const url: Url = {
+    originalUrl,
+    shortCode,
+    createdAt: new Date(),
+  };
+  if (settings.expiresAt != null) {
+    url.expiresAt = settings.expiresAt;
+  }
+  if (settings.maxClicks != null) {
+    url.maxClicks = settings.maxClicks;
+  }
+  if (settings.passwordHash != null) {
+    url.passwordHash = settings.passwordHash;
+  }
+  if (settings.apiKeyId != null) {
+    url.apiKeyId = settings.apiKeyId;
+  }
+  if (settings.redirectStatus != null) {
+    url.redirectStatus = settings.redirectStatus;
+  }
+  if (settings.ogTitle != null) {
+    url.ogTitle = settings.ogTitle;
+  }
+  if (settings.ogDescription != null) {
+    url.ogDescription = settings.ogDescription;
+  }
+  if (settings.ogImage != null) {
+    url.ogImage = settings.ogImage;
+  }
+  return url;
+}
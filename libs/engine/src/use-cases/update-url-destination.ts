@@ -0,0 +1,39 @@
+import type { UrlRepository } from '../ports/repository';
+import type { Url } from '../domain/url';
+import { validateUrl, normalizeUrl } from '../domain/url-validation';
+import { authorizeManagement, sharedLinkForbidden } from '../domain/management-secret';
+import { ValidationError } from '../domain/errors';
+
+export class UpdateUrlDestinationUseCase {
+  constructor(private readonly urlRepository: UrlRepository) {}
+
+  async execute(shortCode: string, newUrl: string, managementSecret: string): Promise<Url> {
+    const url = authorizeManagement(
+      await this.urlRepository.findByShortCode(shortCode),
+      managementSecret
+    );
+
+    if (url.deletedAt) {
+      throw new ValidationError('Restore the link before changing its destination', 'shortCode');
+    }
+
+    validateUrl(newUrl);
+    const normalizedUrl = normalizeUrl(newUrl);
+
+    if (normalizedUrl === url.originalUrl) {
+      return url;
+    }
+
+    // An edited link no longer points at the URL it was shared for; the condition keeps it from
+    // changing under someone it was handed to since it was read
+    const updated = await this.urlRepository.updateIf(
+      shortCode,
+      { sharedAt: null },
+      { originalUrl: normalizedUrl, normalizedUrlHash: null }
+    );
+    if (!updated) {
+      throw sharedLinkForbidden();
+    }
+    return updated;
+  }
+}